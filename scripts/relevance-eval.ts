@@ -0,0 +1,137 @@
+/**
+ * Offline relevance evaluation. Scores a labeled dataset with the current
+ * scoring prompt and reports precision, recall and F1 per threshold.
+ *
+ *   npm run eval:relevance -- --dataset <file> [--model <spec>]
+ *     [--compare <spec>] [--baseline <report.json>] [--out <report.json>]
+ *     [--mode batch|single] [--batch-size <n>]
+ *
+ * A spec is "mock" (the default; answers from the dataset's recorded
+ * scores) or "<provider>:<model>", e.g. "openai-compatible:llama3.1" for a
+ * local server. --compare diffs a second model on the same prompt;
+ * --baseline diffs against a report saved with --out before a prompt edit.
+ * Discussions are scored in batches with the dataset's labeled examples,
+ * as production does; --mode single sends one discussion per request.
+ */
+import { readFileSync, writeFileSync } from 'fs';
+import { basename } from 'path';
+import type { LlmProvider } from '../src/lib/llmClient';
+import type {
+  RelevanceEvalDataset,
+  RelevanceEvalMode,
+  RelevanceEvalReport,
+  RelevanceEvalVariant,
+} from '../src/lib/relevanceEval';
+
+type RelevanceEvalModule = typeof import('../src/lib/relevanceEval');
+type LlmClientModule = typeof import('../src/lib/llmClient');
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith('--')) {
+      args[argv[i].slice(2)] = argv[i + 1];
+      i++;
+    }
+  }
+  return args;
+}
+
+function toVariant(
+  spec: string,
+  dataset: RelevanceEvalDataset,
+  evalModule: RelevanceEvalModule,
+  llmModule: LlmClientModule,
+  scoring: Pick<RelevanceEvalVariant, 'mode' | 'batchSize'>
+): RelevanceEvalVariant {
+  if (spec === 'mock') {
+    return {
+      name: 'mock',
+      client: evalModule.createMockScoringClient(dataset),
+      model: 'mock',
+      ...scoring,
+    };
+  }
+
+  const [provider, ...modelParts] = spec.split(':');
+  const model = modelParts.join(':');
+  if (!['groq', 'gemini', 'openai-compatible'].includes(provider) || !model) {
+    throw new Error(
+      `Invalid model spec "${spec}"; use mock or <provider>:<model>`
+    );
+  }
+  return {
+    name: spec,
+    client: llmModule.getLlmClient(provider as LlmProvider),
+    model,
+    ...scoring,
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.dataset) {
+    console.error(
+      'Usage: npm run eval:relevance -- --dataset <file> [--model <spec>] [--compare <spec>] [--baseline <report.json>] [--out <report.json>] [--mode batch|single] [--batch-size <n>]'
+    );
+    process.exit(1);
+  }
+  if (args.mode && !['batch', 'single'].includes(args.mode)) {
+    console.error(`Invalid --mode "${args.mode}"; use batch or single`);
+    process.exit(1);
+  }
+  const scoring = {
+    mode: args.mode as RelevanceEvalMode | undefined,
+    batchSize: args['batch-size'] ? Number(args['batch-size']) : undefined,
+  };
+
+  // The scoring modules create Supabase clients on import. Only the pooled
+  // groq and gemini keys use them; mock and local runs never connect.
+  process.env.NEXT_PUBLIC_SUPABASE_URL ||= 'http://localhost:54321';
+  process.env.SUPABASE_SERVICE_ROLE_KEY ||= 'offline-eval';
+  const evalModule: RelevanceEvalModule = await import(
+    '../src/lib/relevanceEval'
+  );
+  const llmModule: LlmClientModule = await import('../src/lib/llmClient');
+
+  const dataset = evalModule.parseRelevanceEvalDataset(
+    JSON.parse(readFileSync(args.dataset, 'utf8')),
+    basename(args.dataset, '.json')
+  );
+
+  const report = await evalModule.runRelevanceEval(
+    dataset,
+    toVariant(args.model || 'mock', dataset, evalModule, llmModule, scoring)
+  );
+  console.log(evalModule.formatRelevanceEvalReport(report));
+
+  if (args.out) {
+    writeFileSync(args.out, JSON.stringify(report, null, 2));
+    console.log(`\nSaved report to ${args.out}`);
+  }
+
+  const base: RelevanceEvalReport | null = args.baseline
+    ? JSON.parse(readFileSync(args.baseline, 'utf8'))
+    : null;
+  if (base) {
+    console.log(
+      `\n${evalModule.formatRelevanceEvalDiff(evalModule.diffRelevanceEvals(base, report))}`
+    );
+  }
+
+  if (args.compare) {
+    const candidate = await evalModule.runRelevanceEval(
+      dataset,
+      toVariant(args.compare, dataset, evalModule, llmModule, scoring)
+    );
+    console.log(`\n${evalModule.formatRelevanceEvalReport(candidate)}`);
+    console.log(
+      `\n${evalModule.formatRelevanceEvalDiff(evalModule.diffRelevanceEvals(report, candidate))}`
+    );
+  }
+}
+
+main().catch((error) => {
+  console.error('[RELEVANCE_EVAL] Failed:', error?.message || error);
+  process.exit(1);
+});
@@ -4,6 +4,13 @@ import { PostQueueService } from '../../../../lib/postQueueService';
 import { CircuitBreakerService } from '../../../../lib/circuitBreakerService';
 import { getWebsiteConfigSubreddits } from '@/lib/websiteConfigCollections';
 import { getAutoPosterRunLimitState } from '@/lib/autoPosterRunLimit';
+import { redditListingCache } from '@/lib/redditListingCache';
+import { redditHttpClient } from '@/lib/redditHttpClient';
+import { getLlmOutputValidationMetrics } from '@/lib/llmOutputSchemas';
+import {
+  buildSearchQuerySet,
+  pickNextSearchQuery,
+} from '@/lib/searchQueryRotation';
 
 async function deleteQstashSchedule(scheduleId?: string | null) {
   if (!scheduleId || !process.env.QSTASH_TOKEN) return;
@@ -363,8 +370,14 @@ export async function POST(req: Request) {
           `[CRON] Using Reddit account: ${redditAccount.username} (ID: ${redditAccount.id})`
         );
 
-        // Call the main proxy endpoint to handle everything
+        // Call the main proxy endpoint to handle everything. The query rotates
+        // through the config's query set; the proxy records what it yields.
         const query =
+          (await pickNextSearchQuery(
+            supabaseAdmin,
+            websiteConfig.id,
+            buildSearchQuerySet(websiteConfig)
+          )) ||
           websiteConfig.target_keywords?.join(' ') ||
           websiteConfig.customer_segments?.join(' ') ||
           'business';
@@ -508,5 +521,9 @@ export async function GET(req: Request) {
   return NextResponse.json({
     status: 'healthy',
     timestamp: new Date().toISOString(),
+    // Covers only the instance answering this request
+    listingCache: redditListingCache.getMetrics(),
+    redditRateLimits: redditHttpClient.getBudgetState(),
+    llmOutputValidation: getLlmOutputValidationMetrics(),
   });
 }
@@ -2,13 +2,21 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { callGroqForText } from '../../../../utils/groqTextGeneration';
+import { generateLlmText } from '../../../../lib/llmClient';
 import {
   buildBridgeReplyPrompt,
   enforceContextFirstReplyOpening,
 } from '../../../../lib/redditReplyPrompt';
+import {
+  WebsiteConfig,
+  buildRelevanceScoringPrompt,
+  requestRelevanceScores,
+} from '../../../../lib/relevanceFiltering';
+import { normalizeRelevanceThreshold } from '../../../../lib/relevanceThreshold';
+import { mapRedditPostToDiscussion } from '../../../../lib/redditService';
 import { getPlanLimits } from '../../../../utils/planLimits';
 import snoowrap from 'snoowrap';
+import { redditHttpClient } from '../../../../lib/redditHttpClient';
 
 const createSupabaseServerClient = () => {
   const cookieStore = cookies();
@@ -117,6 +125,21 @@ export async function POST(req: Request) {
       );
     }
 
+    // Scored with the same prompt, 0-100 scale and threshold as website
+    // configs
+    const websiteConfig: WebsiteConfig = {
+      id: product.id,
+      url: product.url || '',
+      description: product.ai_description || product.description || '',
+      customer_segments: product.customer_segments || [],
+      keywords: keywords.length ? keywords : product.target_keywords || [],
+      negative_keywords: [],
+      business_context_terms: [],
+      relevance_threshold: normalizeRelevanceThreshold(
+        product.relevance_threshold
+      ),
+    };
+
     let totalDiscussionsFound = 0;
     const discussions = [];
 
@@ -135,9 +158,9 @@ export async function POST(req: Request) {
         });
 
         // Get recent posts from subreddit
-        const posts = await reddit
-          .getSubreddit(subreddit)
-          .getNew({ limit: 50 });
+        const posts = await redditHttpClient.withSnoowrap('app', reddit, () =>
+          reddit.getSubreddit(subreddit).getNew({ limit: 50 })
+        );
 
         for (const post of posts) {
           try {
@@ -163,12 +186,14 @@ export async function POST(req: Request) {
             // AI relevance scoring
             const relevanceScore = await scorePostRelevance(
               post,
-              product,
-              keywords
+              subreddit,
+              websiteConfig
             );
 
-            // Only process posts with relevance score >= 6
-            if (relevanceScore >= 6) {
+            if (
+              relevanceScore !== null &&
+              relevanceScore >= websiteConfig.relevance_threshold
+            ) {
               const discussion = {
                 product_id,
                 subreddit,
@@ -234,9 +259,11 @@ export async function POST(req: Request) {
                   outputFormat: 'text',
                 });
 
-                const aiReplyResponse = await callGroqForText(aiReplyPrompt, {
-                  userId: 'system',
-                });
+                const aiReplyResponse = await generateLlmText(
+                  'reply',
+                  aiReplyPrompt,
+                  { userId: 'system' }
+                );
 
                 if (
                   aiReplyResponse &&
@@ -315,61 +342,36 @@ export async function POST(req: Request) {
   }
 }
 
-// AI-powered relevance scoring
+// AI-powered relevance scoring. Returns null when the post couldn't be
+// scored.
 async function scorePostRelevance(
   post: any,
-  product: any,
-  keywords: string[]
-): Promise<number> {
+  subreddit: string,
+  websiteConfig: WebsiteConfig
+): Promise<number | null> {
   try {
-    const aiPrompt = `You are an expert at determining the relevance of Reddit posts to specific products/services.
-
-PRODUCT DESCRIPTION:
-${product.ai_description}
-
-CUSTOMER SEGMENTS:
-${product.customer_segments?.join('\n') || 'Not specified'}
-
-KEYWORDS:
-${keywords.join(', ')}
-
-REDDIT POST:
-Title: ${post.title}
-Content: ${post.selftext || 'No content'}
-
-TASK: Rate the relevance of this Reddit post to the product on a scale of 1-10.
-
-SCORING CRITERIA:
-- 1-3: Not relevant at all
-- 4-5: Somewhat relevant, but not a good fit
-- 6-7: Relevant, good opportunity for helpful input
-- 8-9: Highly relevant, excellent opportunity
-- 10: Perfect match, ideal opportunity
-
-Consider:
-- Does the post discuss problems your product solves?
-- Are the customer segments likely to be reading this post?
-- Is this a genuine discussion (not promotional)?
-- Would your product provide genuine value to this conversation?
-
-Return only a number between 1-10:`;
-
-    const aiResponse = await callGroqForText(aiPrompt, { userId: 'system' });
-
-    if (!aiResponse || aiResponse.error) {
-      return 3; // Default low score if AI fails
-    }
-
-    const score = parseInt(aiResponse.text.trim());
-
-    if (isNaN(score) || score < 1 || score > 10) {
-      return 3; // Default score if AI returns invalid response
-    }
+    const discussion = mapRedditPostToDiscussion({
+      id: post.id,
+      name: post.name,
+      title: post.title,
+      selftext: post.selftext,
+      permalink: post.permalink,
+      subreddit,
+      author: post.author?.name,
+      score: post.score,
+      num_comments: post.num_comments,
+      created_utc: post.created_utc,
+      is_self: post.is_self,
+    });
+    const scores = await requestRelevanceScores(
+      buildRelevanceScoringPrompt(discussion, websiteConfig),
+      { userId: 'system' }
+    );
 
-    return score;
+    return Math.round(scores.finalScore);
   } catch (error) {
     console.error('Error scoring post relevance:', error);
-    return 3; // Default low score on error
+    return null;
   }
 }
 
@@ -2,10 +2,13 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { callGroqForText } from '../../../../utils/groqTextGeneration';
 import { scheduleQStashMessage } from '../../../../utils/qstash';
 import { getPlanLimits } from '../../../../utils/planLimits';
 import snoowrap from 'snoowrap';
+import {
+  RedditHttpClient,
+  redditHttpClient,
+} from '../../../../lib/redditHttpClient';
 
 const createSupabaseServerClient = () => {
   const cookieStore = cookies();
@@ -123,8 +126,13 @@ export async function POST(req: Request) {
       let commentId = 'unknown';
       try {
         const submission = reddit.getSubmission(discussion.post_id);
-        // @ts-ignore - Snoowrap type definition issue
-        const comment = await submission.reply(reply_content);
+        const comment: any = await redditHttpClient.withSnoowrap(
+          RedditHttpClient.accountCredential(redditAccount.id),
+          reddit,
+          () =>
+            // @ts-ignore - Snoowrap type definition issue
+            submission.reply(reply_content).then((response: any) => response)
+        );
         commentId = comment.id;
         console.log('Comment ID:', commentId);
       } catch (replyError) {
@@ -2,8 +2,19 @@ import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { getRedditDiscussions } from '../../../../lib/redditService';
 import { filterRelevantDiscussions } from '../../../../lib/relevanceFiltering';
+import {
+  applyEligibilityGate,
+  resolveEligibilitySettings,
+} from '../../../../lib/discussionEligibility';
+import {
+  DiscussionFilterStage,
+  recordDiscussionFilterRejections,
+  toFilterRejectionRecords,
+} from '../../../../lib/discussionFilterAudit';
 import {
   decodeWebsiteConfigCollections,
+  getWebsiteConfigAllowedLanguages,
+  getWebsiteConfigListingModes,
   getWebsiteConfigSubreddits,
 } from '@/lib/websiteConfigCollections';
 
@@ -58,8 +69,17 @@ export async function POST(req: Request) {
       ...config.website_configs,
       business_context_terms: decoded.businessContextTerms,
       target_subreddits: decoded.targetSubreddits,
+      listing_modes: decoded.listingModes,
+      require_target_keyword: decoded.requireTargetKeyword,
+      eligibility_settings: resolveEligibilitySettings(
+        decoded.eligibilitySettings
+      ),
+      allowed_languages: getWebsiteConfigAllowedLanguages(
+        config.website_configs
+      ),
     };
     const subreddits = getWebsiteConfigSubreddits(websiteConfig);
+    const [listingMode] = getWebsiteConfigListingModes(websiteConfig);
 
     // Get already posted discussions to exclude
     const { data: postedDiscussions } = await supabaseAdmin
@@ -69,6 +89,17 @@ export async function POST(req: Request) {
 
     const postedIds = postedDiscussions?.map((p) => p.reddit_post_id) || [];
 
+    const auditRejections = (
+      stage: DiscussionFilterStage,
+      rejections: Parameters<typeof toFilterRejectionRecords>[0]
+    ) =>
+      recordDiscussionFilterRejections(supabaseAdmin, {
+        websiteConfigId: websiteConfig.id,
+        userId,
+        stage,
+        rejections: toFilterRejectionRecords(rejections),
+      });
+
     // Fetch discussions from multiple subreddits
     const allRelevantDiscussions = [];
 
@@ -77,14 +108,28 @@ export async function POST(req: Request) {
       try {
         console.log(`[DISCUSSIONS_API] Fetching from r/${subreddit}`);
 
-        const discussions = await getRedditDiscussions('', subreddit, 10);
+        const discussions = await getRedditDiscussions(
+          '',
+          subreddit,
+          10,
+          listingMode
+        );
+
+        const { eligible, rejected } = applyEligibilityGate(
+          discussions.items || [],
+          websiteConfig.eligibility_settings
+        );
+        await auditRejections('eligibility', rejected);
 
-        if (discussions.items && discussions.items.length > 0) {
+        if (eligible.length > 0) {
           // Apply Gemini AI relevance filtering
           const relevantDiscussions = await filterRelevantDiscussions(
-            discussions.items,
+            eligible,
             websiteConfig,
-            postedIds
+            postedIds,
+            (rejections) => auditRejections('keyword', rejections),
+            (rejections) => auditRejections('language', rejections),
+            (rejections) => auditRejections('lexical', rejections)
           );
 
           // Add subreddit info and limit results
@@ -1,10 +1,15 @@
 import { NextResponse } from 'next/server';
 
-import { apiKeyManager } from '../../../../utils/apiKeyManager';
+import { LlmError } from '../../../../lib/llmClient';
+import {
+  LlmOutputError,
+  RELEVANCE_SCORE_OUTPUT_SCHEMA,
+  completeLlmTaskWithSchema,
+} from '../../../../lib/llmOutputSchemas';
+import { normalizeRelevanceThreshold } from '../../../../lib/relevanceThreshold';
 
 export async function POST(req: Request) {
   const userId = 'system-auto-poster'; // System identifier for logging
-  let apiKey: string | null = null;
 
   try {
     // Parse request body
@@ -17,16 +22,9 @@ export async function POST(req: Request) {
       }, { status: 400 });
     }
 
-    // Acquire API key from pool
-    apiKey = await apiKeyManager.acquireApiKey(userId, 'groq');
-    if (!apiKey) {
-      console.warn('[GEMINI_RELEVANCE] No API keys available, falling back to basic scoring');
-      return NextResponse.json({
-        success: false,
-        error: 'No API keys available',
-        fallback: true
-      }, { status: 503 });
-    }
+    const relevanceThreshold = normalizeRelevanceThreshold(
+      websiteConfig.relevance_threshold
+    );
 
     // Create scoring prompt
     const prompt = `
@@ -38,7 +36,7 @@ WEBSITE CONTEXT:
 - Target Keywords: ${websiteConfig.target_keywords?.join(', ') || 'N/A'}
 - Negative Keywords: ${websiteConfig.negative_keywords?.join(', ') || 'N/A'}
 - Customer Segments: ${websiteConfig.customer_segments?.join(', ') || 'N/A'}
-- Relevance Threshold: ${websiteConfig.relevance_threshold || 70}
+- Relevance Threshold: ${relevanceThreshold} (0-100, same scale as finalScore)
 
 REDDIT POST:
 - Subreddit: r/${subreddit || 'unknown'}
@@ -68,63 +66,18 @@ Respond with ONLY a JSON object in this exact format:
 }
 
 The finalScore should be a weighted average: (intentScore * 0.25) + (contextMatchScore * 0.35) + (qualityScore * 0.25) + (engagementScore * 0.15)
-If finalScore < ${websiteConfig.relevance_threshold || 70}, provide a filteringReason explaining why.`;
-
-    // Call Groq API
-    const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiKey}`
-      },
-      body: JSON.stringify({
-        model: 'llama-3.1-8b-instant',
-        messages: [{
-          role: 'user',
-          content: prompt
-        }],
-        temperature: 0.1,
-        max_tokens: 200
-      })
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Groq API error: ${response.status} - ${errorText}`);
-    }
-
-    const result = await response.json();
-    const text = result.choices[0].message.content;
-
-    // Parse JSON response
-    let scores;
-    try {
-      // Extract JSON from response (handle potential markdown formatting)
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-      scores = JSON.parse(jsonMatch[0]);
-    } catch (parseError) {
-      console.error('[GEMINI_RELEVANCE] Failed to parse Gemini response:', text);
-      throw new Error('Invalid JSON response from Gemini');
-    }
+If finalScore < ${relevanceThreshold}, provide a filteringReason explaining why.`;
 
-    // Validate scores structure
-    const requiredFields = ['intentScore', 'contextMatchScore', 'qualityScore', 'engagementScore', 'finalScore'];
-    for (const field of requiredFields) {
-      if (typeof scores[field] !== 'number' || scores[field] < 0 || scores[field] > 100) {
-        throw new Error(`Invalid ${field}: ${scores[field]}`);
-      }
-    }
+    // Invalid output gets a repair re-prompt before LlmOutputError is thrown
+    const { value: scores } = await completeLlmTaskWithSchema(
+      'scoring',
+      prompt,
+      RELEVANCE_SCORE_OUTPUT_SCHEMA,
+      { userId, temperature: 0.1, maxTokens: 200 }
+    );
 
     console.log(`[GEMINI_RELEVANCE] Successfully scored post: ${scores.finalScore}/100`);
 
-    // Release API key back to pool
-    if (apiKey) {
-      await apiKeyManager.releaseApiKey(apiKey, userId);
-    }
-
     return NextResponse.json({
       success: true,
       scores: {
@@ -140,12 +93,29 @@ If finalScore < ${websiteConfig.relevance_threshold || 70}, provide a filteringR
   } catch (error: any) {
     console.error('[GEMINI_RELEVANCE] Error:', error);
 
-    // Handle API key errors
-    if (apiKey) {
-      await apiKeyManager.handleApiKeyError(apiKey, error, userId);
+    // Check if it's a rate limit or API key error
+    // No keys left in the pool, or the provider itself is down
+    if (error instanceof LlmError && error.status === 503) {
+      return NextResponse.json({
+        success: false,
+        error: error.message,
+        fallback: true
+      }, { status: 503 });
+    }
+
+    // The model's output was still invalid after the repair re-prompt
+    if (error instanceof LlmOutputError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: error.message,
+          fallback: true,
+          errorType: 'invalid_output',
+        },
+        { status: 500 }
+      );
     }
 
-    // Check if it's a rate limit or API key error
     const isRateLimitError = error.message?.includes('429') ||
       error.message?.includes('rate limit') ||
       error.message?.includes('quota');
@@ -1,39 +1,17 @@
 import { NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
-import { apiKeyManager } from '../../../../utils/apiKeyManager';
+import { LlmError, getLlmModelConfig } from '../../../../lib/llmClient';
+import {
+  LlmOutputError,
+  ReplyOutput,
+  completeLlmTaskWithSchema,
+  replyOutputSchema,
+} from '../../../../lib/llmOutputSchemas';
 import {
   buildBridgeReplyPrompt,
   enforceContextFirstReplyOpening,
 } from '../../../../lib/redditReplyPrompt';
 
-// Create a Supabase admin client with service role key for bypassing RLS
-const supabaseAdmin = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!,
-  {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-    },
-  }
-);
-
-// Helper function to get a valid API key using the manager
-async function getValidApiKey(userId: string): Promise<string> {
-  // First, release any expired rate-limited keys
-  await apiKeyManager.releaseExpiredRateLimitedKeys();
-
-  // Acquire a new API key
-  const apiKey = await apiKeyManager.acquireApiKey(userId, 'groq');
-
-  if (!apiKey) {
-    throw new Error('No available API keys');
-  }
-
-  return apiKey;
-}
-
-// POST handler for generating Reddit replies with Gemini
+// POST handler for generating Reddit replies
 export async function POST(req: Request) {
   try {
     // TEMPORARILY COMMENTED OUT AUTHENTICATION CHECK
@@ -50,7 +28,9 @@ export async function POST(req: Request) {
       maxLength = 500,
       keywords = [],
       websiteConfig = {},
-      includeLink = true
+      includeLink = true,
+      promotionPolicy,
+      language
     } = await req.json();
 
     // Proactively truncate post content to stay under TPM limits
@@ -65,239 +45,72 @@ export async function POST(req: Request) {
       );
     }
 
-    let apiKey: string | null = null;
-    let attempts = 0;
-    const maxAttempts = 3;
-    let lastError: any = null;
-
-    // Retry logic for API key failures
-    while (attempts < maxAttempts) {
-      try {
-        attempts++;
-
-        // Get a valid API key with rotation (always random)
-        apiKey = await getValidApiKey(userId);
-
-        if (!apiKey) {
-          throw new Error('No API keys available');
-        }
-
-        const prompt = buildBridgeReplyPrompt({
-          postTitle,
-          postContent: truncatedPostContent,
-          subreddit,
-          tone,
-          maxLength,
-          keywords,
-          websiteConfig,
-          outputFormat: 'json',
-          includeLink,
-        });
-
-        // Show the key being used in the console (partial for security)
-        const keyPrefix = apiKey.substring(0, 6);
-        const keySuffix = apiKey.substring(apiKey.length - 4);
-        console.log(`
+    const prompt = buildBridgeReplyPrompt({
+      postTitle,
+      postContent: truncatedPostContent,
+      subreddit,
+      tone,
+      maxLength,
+      keywords,
+      websiteConfig,
+      outputFormat: 'json',
+      includeLink,
+      promotionPolicy,
+      language,
+    });
+
+    const { provider, model } = getLlmModelConfig('reply');
+    console.log(`
 ============================================================`);
-        console.log(`GEMINI REPLY GENERATION REQUEST:`);
-        console.log(`API KEY: ${keyPrefix}...${keySuffix} (LENGTH: ${apiKey.length})`);
-        console.log(`MODEL: llama-3.1-8b-instant`);
-        console.log(`SUBREDDIT: r/${subreddit}`);
-        console.log(`POST TITLE: ${postTitle.substring(0, 50)}...`);
-        console.log(`TONE: ${tone}`);
-        console.log(`MAX LENGTH: ${maxLength}`);
-        console.log(`KEYWORDS: ${keywords.join(', ') || 'none'}`);
-        console.log(`============================================================`);
-
-        // Call the Gemini API
-        const response = await fetch(
-          'https://api.groq.com/openai/v1/chat/completions',
-          {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'Authorization': `Bearer ${apiKey}`
-            },
-            body: JSON.stringify({
-              model: 'llama-3.1-8b-instant',
-              messages: [
-                {
-                  role: 'user',
-                  content: prompt,
-                },
-              ],
-              temperature: 0.7,
-              max_tokens: Math.min(maxLength * 2, 1024),
-              top_p: 0.9,
-            }),
-          }
-        );
-
-        if (!response.ok) {
-          const status = response.status;
-          const errorTextRaw = await response.text();
-          let errorText = errorTextRaw;
-          let errorData: any = null;
-          try {
-            errorData = JSON.parse(errorTextRaw);
-            errorText =
-              errorData?.error?.message ||
-              errorData?.error?.details ||
-              JSON.stringify(errorData);
-          } catch {
-            errorData = { error: { message: errorText } };
-          }
-
-          console.error(`GEMINI API ERROR (${status}):`);
-          console.error(`API KEY: ${keyPrefix}...${keySuffix} (LENGTH: ${apiKey.length})`);
-          console.error(`ERROR DETAILS: ${errorText}`);
-          console.error(`============================================================`);
-
-          // Handle the API key error using the manager
-          await apiKeyManager.handleApiKeyError(apiKey, new Error(errorText), userId);
-
-          // If it's an expired key error, mark it as inactive
-          if (errorText.toLowerCase().includes('expired') || errorText.toLowerCase().includes('api key expired')) {
-            await supabaseAdmin
-              .from('api_keys')
-              .update({
-                is_active: false,
-                updated_at: new Date().toISOString(),
-              })
-              .eq('key', apiKey);
-          }
-
-          // Check if this is a retryable error (400, 429, or API key issues)
-          if (status === 400 || status === 429 ||
-            errorText.toLowerCase().includes('expired') ||
-            errorText.toLowerCase().includes('invalid') ||
-            errorText.toLowerCase().includes('quota')) {
-
-            console.log(`Retryable error detected (${status}), attempt ${attempts}/${maxAttempts}`);
-            lastError = new Error(`Gemini API error (${status}): ${errorText}`);
-
-            // Release the current API key
-            if (apiKey) {
-              apiKeyManager.releaseApiKey(apiKey, userId);
-            }
-
-            // If this is a 429, try to extract wait time from error
-            let waitTime = 2000; // Default retry delay
-            if (errorText.includes('Please try again in')) {
-              const match = errorText.match(/Please try again in ([\d.]+)s/);
-              if (match && match[1]) {
-                waitTime = (parseFloat(match[1]) + 0.5) * 1000;
-                console.log(`[GEMINI_REPLY] Rate limited. Pausing for specified ${waitTime / 1000}s...`);
-              }
-            }
-
-            // If this isn't the last attempt, wait and continue to next iteration
-            if (attempts < maxAttempts) {
-              console.log(`Waiting ${waitTime / 1000}s before trying different API key...`);
-              await new Promise(resolve => setTimeout(resolve, waitTime));
-              continue;
-            }
-          }
-
-          throw new Error(`Gemini API error (${status}): ${errorText}`);
-        }
-
-        const data = await response.json();
-
-        // Extract the JSON response from Gemini
-        let replyResult;
-        try {
-          const textResponse = data.choices[0].message.content;
-          let jsonText = textResponse;
-
-          // Clean up markdown formatting if present
-          if (jsonText.includes('```json')) {
-            const match = jsonText.match(/```json\s*([\s\S]*?)\s*```/);
-            if (match && match[1]) {
-              jsonText = match[1].trim();
-            }
-          } else if (jsonText.includes('```')) {
-            const match = jsonText.match(/```\s*([\s\S]*?)\s*```/);
-            if (match && match[1]) {
-              jsonText = match[1].trim();
-            }
-          }
-
-          console.log('Cleaned JSON text:', jsonText);
-          replyResult = JSON.parse(jsonText);
-
-          // Validate the response structure
-          if (!replyResult.reply || typeof replyResult.reply !== 'string') {
-            throw new Error('Invalid reply structure - missing or invalid reply text');
-          }
-
-          replyResult.reply = enforceContextFirstReplyOpening(replyResult.reply);
-
-          // Ensure character count is accurate
-          replyResult.character_count = replyResult.reply.length;
-
-        } catch (parseError) {
-          console.error('Error parsing Gemini response:', parseError);
-          console.error(
-            'Raw response:',
-            data?.candidates?.[0]?.content?.parts?.[0]?.text || 'No text content'
-          );
-
-          // Release the API key on parse error
-          if (apiKey) {
-            apiKeyManager.releaseApiKey(apiKey, userId);
-          }
-
-          return NextResponse.json(
-            { error: 'Error parsing AI response for reply generation' },
-            { status: 500 }
-          );
+    console.log(`REPLY GENERATION REQUEST:`);
+    console.log(`MODEL: ${provider}/${model}`);
+    console.log(`SUBREDDIT: r/${subreddit}`);
+    console.log(`POST TITLE: ${postTitle.substring(0, 50)}...`);
+    console.log(`TONE: ${tone}`);
+    console.log(`MAX LENGTH: ${maxLength}`);
+    console.log(`KEYWORDS: ${keywords.join(', ') || 'none'}`);
+    console.log(`============================================================`);
+
+    let replyResult: ReplyOutput;
+    try {
+      ({ value: replyResult } = await completeLlmTaskWithSchema(
+        'reply',
+        prompt,
+        replyOutputSchema(maxLength),
+        {
+          userId,
+          temperature: 0.7,
+          maxTokens: Math.min(maxLength * 2, 1024),
+          topP: 0.9,
         }
-
-        // Release the API key after successful processing
-        apiKeyManager.releaseApiKey(apiKey, userId);
-
-        return NextResponse.json({
-          success: true,
-          reply: replyResult,
-          message: 'Reddit reply generated successfully.',
-          attempts: attempts
-        });
-
-      } catch (apiError: any) {
-        console.error(`API processing error on attempt ${attempts}:`, apiError);
-        lastError = apiError;
-
-        // Release the API key on error
-        if (apiKey) {
-          apiKeyManager.releaseApiKey(apiKey, userId);
+      ));
+    } catch (apiError: any) {
+      console.error('Reply generation failed:', apiError);
+      if (apiError instanceof LlmOutputError) {
+        return NextResponse.json(
+          { error: 'Error parsing AI response for reply generation' },
+          { status: 500 }
+        );
+      }
+      return NextResponse.json(
+        { error: `API error: ${apiError?.message || 'Unknown API error'}` },
+        {
+          status:
+            apiError instanceof LlmError && apiError.status === 429 ? 429 : 500,
         }
+      );
+    }
 
-        // If this isn't the last attempt and it's a retryable error, continue
-        if (attempts < maxAttempts && (
-          apiError.message?.includes('400') ||
-          apiError.message?.includes('429') ||
-          apiError.message?.includes('expired') ||
-          apiError.message?.includes('quota')
-        )) {
-          console.log(`Retrying with different API key, attempt ${attempts + 1}/${maxAttempts}`);
-          continue;
-        }
+    replyResult.reply = enforceContextFirstReplyOpening(replyResult.reply);
 
-        // If it's the last attempt or non-retryable error, break
-        break;
-      }
-    }
+    // Ensure character count is accurate
+    replyResult.character_count = replyResult.reply.length;
 
-    // If we've exhausted all attempts, return the last error
-    console.error('All API key attempts failed');
-    return NextResponse.json(
-      {
-        error: `API error after ${maxAttempts} attempts: ${lastError?.message || 'Unknown API error'}`,
-        attempts: attempts
-      },
-      { status: 500 }
-    );
+    return NextResponse.json({
+      success: true,
+      reply: replyResult,
+      message: 'Reddit reply generated successfully.',
+    });
   } catch (error: any) {
     console.error('Server error:', error);
     return NextResponse.json(
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { redditListingCache } from '@/lib/redditListingCache';
+import { redditHttpClient } from '@/lib/redditHttpClient';
+import { getLlmOutputValidationMetrics } from '@/lib/llmOutputSchemas';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Service health with the Reddit request budgets. Budgets are kept in
+ * memory, so they describe only the instance answering this request, not
+ * the deployment as a whole.
+ */
+export async function GET() {
+  return NextResponse.json({
+    status: 'healthy',
+    timestamp: new Date().toISOString(),
+    scope: 'instance',
+    note: 'Rate-limit budgets and counters cover only the instance that answered this request',
+    redditRateLimits: redditHttpClient.getBudgetState(),
+    listingCache: redditListingCache.getMetrics(),
+    llmOutputValidation: getLlmOutputValidationMetrics(),
+  });
+}
@@ -2,7 +2,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { callGroqForText } from '../../../../utils/groqTextGeneration';
+import {
+  SEGMENT_SUBREDDITS_OUTPUT_SCHEMA,
+  completeLlmTaskWithSchema,
+} from '../../../../lib/llmOutputSchemas';
 
 const createSupabaseServerClient = () => {
   const cookieStore = cookies();
@@ -76,42 +79,17 @@ Example response format:
 Return only the JSON array, no additional text:`;
 
     // Get AI suggestions for relevant subreddits
-    const aiResponse = await callGroqForText(aiPrompt, { userId });
-
-    if (!aiResponse || aiResponse.error) {
-      throw new Error(aiResponse?.error || 'Failed to generate subreddit suggestions');
-    }
-
-    let suggestedSubreddits: string[] = [];
-
-    try {
-      // Try to parse the AI response as JSON
-      const jsonMatch = aiResponse.text.match(/\[.*\]/);
-      if (jsonMatch) {
-        suggestedSubreddits = JSON.parse(jsonMatch[0]);
-      } else {
-        // Fallback: extract subreddit names from text
-        const lines = aiResponse.text.split('\n');
-        suggestedSubreddits = lines
-          .map(line => line.trim().replace(/^["\-\s]+|["\-\s]+$/g, ''))
-          .filter(line => line.length > 0 && !line.includes(':'))
-          .slice(0, 20);
-      }
-    } catch (parseError) {
-      console.warn('Failed to parse AI response as JSON, using fallback parsing');
-      // Fallback parsing
-      const lines = aiResponse.text.split('\n');
-      suggestedSubreddits = lines
-        .map(line => line.trim().replace(/^["\-\s]+|["\-\s]+$/g, ''))
-        .filter(line => line.length > 0 && !line.includes(':'))
-        .slice(0, 20);
-    }
-
-    // Validate and clean subreddit names
-    const validSubreddits = suggestedSubreddits
-      .filter(name => name.length > 0 && name.length < 21)
-      .map(name => name.toLowerCase().replace(/[^a-z0-9_]/g, ''))
-      .filter(name => name.length > 0);
+    const { value: suggestedSubreddits } = await completeLlmTaskWithSchema(
+      'segments',
+      aiPrompt,
+      SEGMENT_SUBREDDITS_OUTPUT_SCHEMA,
+      { userId }
+    );
+
+    // Names are validated by the schema; normalize them
+    const validSubreddits = suggestedSubreddits.map(name =>
+      name.replace(/^r\//, '').toLowerCase()
+    );
 
     // Remove duplicates
     const uniqueSubreddits = Array.from(new Set(validSubreddits));
@@ -2,7 +2,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { createServerClient } from '@supabase/ssr';
 import { cookies } from 'next/headers';
-import { callGroqForText } from '../../../../utils/groqTextGeneration';
+import {
+  DESCRIPTION_OUTPUT_SCHEMA,
+  completeLlmTaskWithSchema,
+} from '../../../../lib/llmOutputSchemas';
 import {
   GenerateDescriptionRequest,
   GenerateDescriptionResponse,
@@ -75,17 +78,12 @@ ${contentForAI}
 
 Create a natural, helpful description:`;
 
-    const aiResponse = await callGroqForText(aiPrompt, { userId });
-
-    if (!aiResponse || aiResponse.error) {
-      throw new Error(aiResponse.error || 'Failed to generate AI description');
-    }
-
-    const generatedDescription = aiResponse.text?.trim();
-
-    if (!generatedDescription) {
-      throw new Error('AI generated empty description');
-    }
+    const { value: generatedDescription } = await completeLlmTaskWithSchema(
+      'description',
+      aiPrompt,
+      DESCRIPTION_OUTPUT_SCHEMA,
+      { userId }
+    );
 
     console.log(`Successfully generated AI description: ${generatedDescription.substring(0, 100)}...`);
 
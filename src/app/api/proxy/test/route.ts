@@ -2,6 +2,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { createClient } from '@supabase/supabase-js';
 import snoowrap from 'snoowrap';
+import {
+  RedditHttpClient,
+  redditHttpClient,
+} from '../../../../lib/redditHttpClient';
 
 export async function POST(req: Request) {
   try {
@@ -108,8 +112,13 @@ export async function POST(req: Request) {
         username: creds.username,
         password: creds.password,
       });
-      // Use any call; getMe is simple
-      await (reddit as any).getMe();
+      // Use any call; getMe is simple. Accounts not saved yet are billed
+      // under their username.
+      await redditHttpClient.withSnoowrap(
+        RedditHttpClient.accountCredential(account?.id || creds.username),
+        reddit as any,
+        () => (reddit as any).getMe()
+      );
 
       const latencyMs = Date.now() - started;
 
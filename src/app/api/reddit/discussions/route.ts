@@ -1,4 +1,11 @@
 import { NextResponse } from 'next/server';
+import { redditHttpClient } from '@/lib/redditHttpClient';
+import {
+  RedditSearchSort,
+  RedditSearchTime,
+  hasRedditOAuthCredentials,
+  searchRedditDiscussions,
+} from '@/lib/redditService';
 
 export const dynamic = 'force-dynamic';
 
@@ -13,9 +20,27 @@ export async function GET(req: Request) {
       return NextResponse.json({ error: 'query parameter required' }, { status: 400 });
     }
 
+    // Authenticated search through the app's OAuth credentials
+    if (searchParams.get('source') === 'search') {
+      if (!hasRedditOAuthCredentials()) {
+        return NextResponse.json(
+          { error: 'Reddit OAuth search is not configured' },
+          { status: 503 }
+        );
+      }
+
+      const result = await searchRedditDiscussions(query, subreddit, {
+        sort: (searchParams.get('sort') as RedditSearchSort) || undefined,
+        time: (searchParams.get('t') as RedditSearchTime) || undefined,
+        after: searchParams.get('after'),
+        limit,
+      });
+      return NextResponse.json(result);
+    }
+
     // Use Reddit's JSON API to get hot posts (search is heavily restricted)
     const redditUrl = `https://old.reddit.com/r/${subreddit}/hot.json?limit=${limit}`;    
-    const response = await fetch(redditUrl, {
+    const response = await redditHttpClient.fetch(redditUrl, {
         headers: {
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
           'Accept-Language': 'en-US,en;q=0.5',
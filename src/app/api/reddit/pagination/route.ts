@@ -2,6 +2,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs';
 import { createClient } from '@supabase/supabase-js';
 import { RedditPaginationManagerServer } from '../../../../lib/redditPaginationServer';
+import {
+  DEFAULT_LISTING_MODE,
+  normalizePaginationKey,
+} from '../../../../lib/redditListingModes';
 
 const supabaseAdmin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -24,6 +28,9 @@ export async function GET(req: Request) {
     const action = searchParams.get('action') || 'get';
     const subreddit = searchParams.get('subreddit');
     const configId = searchParams.get('configId');
+    const listingMode =
+      normalizePaginationKey(searchParams.get('listingMode')) ||
+      DEFAULT_LISTING_MODE;
     const paginationManager = getPaginationManager(userId, configId);
 
     switch (action) {
@@ -31,7 +38,10 @@ export async function GET(req: Request) {
         if (!subreddit) {
           return NextResponse.json({ error: 'Subreddit is required' }, { status: 400 });
         }
-        const state = await paginationManager.getPaginationState(subreddit);
+        const state = await paginationManager.getPaginationState(
+          subreddit,
+          listingMode
+        );
         return NextResponse.json({ state });
       }
 
@@ -71,6 +81,18 @@ export async function POST(req: Request) {
 
     const body = await req.json();
     const { action, subreddit, after, before, incrementFetched, configId } = body;
+    const listingMode = normalizePaginationKey(body.listingMode);
+
+    if (action === 'reset_all') {
+      const resetCount = await getPaginationManager(
+        userId,
+        configId
+      ).resetAllPaginationStates();
+      return NextResponse.json({
+        success: resetCount !== null,
+        reset: resetCount || 0,
+      });
+    }
 
     if (!subreddit) {
       return NextResponse.json({ error: 'Subreddit is required' }, { status: 400 });
@@ -84,13 +106,18 @@ export async function POST(req: Request) {
           subreddit,
           after || null,
           before || null,
-          incrementFetched || 0
+          incrementFetched || 0,
+          false,
+          listingMode || DEFAULT_LISTING_MODE
         );
         return NextResponse.json({ success: updateSuccess });
       }
 
       case 'reset': {
-        const resetSuccess = await paginationManager.resetPaginationState(subreddit);
+        const resetSuccess = await paginationManager.resetPaginationState(
+          subreddit,
+          listingMode || undefined
+        );
         return NextResponse.json({ success: resetSuccess });
       }
 
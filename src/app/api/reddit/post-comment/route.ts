@@ -4,7 +4,13 @@ import { createClient } from '@supabase/supabase-js';
 import snoowrap from 'snoowrap';
 import { AccountCooldownManager } from '../../../../lib/accountCooldownManager';
 import { generateUserAgent } from '../../../../lib/redditService';
+import {
+  RedditHttpClient,
+  RedditRateLimitError,
+  redditHttpClient,
+} from '../../../../lib/redditHttpClient';
 import { normalizeProductContext } from '../../../../lib/redditReplyPrompt';
+import { recordSubredditNotAllowed } from '../../../../lib/subredditRules';
 import { getPlanLimits } from '../../../../utils/planLimits';
 
 // Generate auto comment based on website config and discussion
@@ -45,7 +51,7 @@ export async function POST(req: Request) {
     const body = (await req.json()) as {
       userId?: string;
       accountId?: string;
-      postId: string; // Reddit post ID (e.g., "1mx4yal")
+      postId: string; // Reddit post ID ("1mx4yal") or fullname ("t3_1mx4yal", "t1_k2x9abc")
       comment?: string;
       subreddit?: string;
       websiteConfig?: any;
@@ -86,6 +92,10 @@ export async function POST(req: Request) {
       );
     }
 
+    // A t1_ fullname means we are replying to a comment inside a thread.
+    const isCommentReply = postId.startsWith('t1_');
+    const targetId = postId.replace(/^t[13]_/, '');
+
     const supabaseAdmin = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
       process.env.SUPABASE_SERVICE_ROLE_KEY || ''
@@ -352,20 +362,27 @@ export async function POST(req: Request) {
       );
 
       try {
-        const submission = reddit.getSubmission(postId);
+        const replyTarget = isCommentReply
+          ? reddit.getComment(targetId)
+          : reddit.getSubmission(targetId);
         console.log(
-          `📝 [POST-COMMENT] Submission object created, posting reply...`
+          `📝 [POST-COMMENT] ${isCommentReply ? 'Comment' : 'Submission'} object created, posting reply...`
         );
 
-        const commentResponse = await submission
-          .reply(comment)
-          .then((response: any) => response);
+        const commentResponse: any = await redditHttpClient.withSnoowrap(
+          RedditHttpClient.accountCredential(account.id),
+          reddit,
+          () => replyTarget.reply(comment).then((response: any) => response)
+        );
         console.log(`✅ [POST-COMMENT] Reddit API response received:`, {
           commentId: commentResponse?.id,
           success: true,
         });
 
-        const commentUrl = `https://reddit.com/r/${subreddit}/comments/${postId}/_/${commentResponse.id}`;
+        const threadId = isCommentReply
+          ? String(commentResponse?.link_id || '').replace(/^t3_/, '')
+          : targetId;
+        const commentUrl = `https://reddit.com/r/${subreddit}/comments/${threadId || targetId}/_/${commentResponse.id}`;
 
         // Update counters
         await supabaseAdmin
@@ -386,13 +403,13 @@ export async function POST(req: Request) {
               .from('posted_reddit_discussions')
               .select('id')
               .eq('website_config_id', websiteConfigId)
-              .eq('reddit_post_id', postId)
+              .eq('reddit_post_id', targetId)
               .maybeSingle();
 
             if (!existingRecord) {
               await supabaseAdmin.from('posted_reddit_discussions').insert({
                 website_config_id: websiteConfigId,
-                reddit_post_id: postId,
+                reddit_post_id: targetId,
                 reddit_account_id: account.id,
                 subreddit: subreddit || '',
                 post_title: postTitle || '',
@@ -446,6 +463,9 @@ export async function POST(req: Request) {
           msg.includes('SUBREDDIT_NOTALLOWED') ||
           msg.includes('USER_BLOCKED')
         ) {
+          if (msg.includes('SUBREDDIT_NOTALLOWED') && subreddit) {
+            await recordSubredditNotAllowed(supabaseAdmin, subreddit);
+          }
           await supabaseAdmin.from('bot_logs').insert({
             user_id: postingUserId,
             action: 'user_blocked_or_banned',
@@ -456,6 +476,19 @@ export async function POST(req: Request) {
           return NextResponse.json({ skipped: true, reason: 'user_blocked' });
         }
 
+        // Our own budget for this account is spent; nothing was sent, so
+        // the account keeps its cooldown state
+        if (err instanceof RedditRateLimitError) {
+          return NextResponse.json(
+            {
+              error: 'rate_limited',
+              retryAfterMs: err.retryAfterMs,
+              rateLimitMessage: msg,
+            },
+            { status: 429 }
+          );
+        }
+
         // Rate limiting - mark account as used since it attempted to post
         if (
           msg.includes('RATELIMIT') ||
@@ -1,19 +1,63 @@
 import { NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import {
+  RedditDiscussionSource,
+  buildRedditProxyUrl,
+  buildRedditSearchQuery,
+  fetchRedditFallbackDiscussions,
   getRedditDiscussions,
-  scrapeRedditHTML,
+  hasRedditOAuthCredentials,
+  mapRedditPostToDiscussion,
+  searchRedditDiscussions,
 } from '../../../../lib/redditService';
 import { filterRelevantDiscussions } from '../../../../lib/relevanceFiltering';
+import { normalizeRelevanceThreshold } from '../../../../lib/relevanceThreshold';
 import { redditReplyService } from '../../../../lib/redditReplyService';
 import { RedditPaginationManagerServer } from '../../../../lib/redditPaginationServer';
+import { discoverCommentCandidates } from '../../../../lib/redditCommentDiscovery';
+import { applyEligibilityGate } from '../../../../lib/discussionEligibility';
+import { applyAuthorFilter } from '../../../../lib/authorFilters';
+import { recordDiscussionFilterRejections } from '../../../../lib/discussionFilterAudit';
+import {
+  collapseDuplicateDiscussions,
+  findRepliedDuplicates,
+  getDuplicateColumns,
+} from '../../../../lib/discussionSimilarity';
+import {
+  PROMOTION_POLICY_LABELS,
+  SubredditPromotionPolicy,
+  getNotAllowedUntil,
+  isPromotionBlocked,
+} from '../../../../lib/subredditPromotionPolicy';
+import { getSubredditRules } from '../../../../lib/subredditRules';
+import {
+  RedditListingCache,
+  redditListingCache,
+} from '../../../../lib/redditListingCache';
+import { redditHttpClient } from '../../../../lib/redditHttpClient';
+import {
+  getSearchPaginationKey,
+  listingModeToSearchSort,
+} from '../../../../lib/redditListingModes';
 import { formatToPacificTime } from '../../../../lib/timeUtils';
 import {
   decodeWebsiteConfigCollections,
+  getWebsiteConfigAllowedLanguages,
+  getWebsiteConfigAuthorFilterSettings,
+  getWebsiteConfigEligibilitySettings,
+  getWebsiteConfigListingModes,
+  getWebsiteConfigSearchQueries,
   getWebsiteConfigSubreddits,
+  isCommentDiscoveryEnabled,
+  isTargetKeywordRequired,
 } from '@/lib/websiteConfigCollections';
 import { getAutoPosterRunLimitState } from '@/lib/autoPosterRunLimit';
-import { getPlanLimits } from '@/utils/planLimits';
+import { getMonthlyCommentQuotaState } from '@/lib/commentQuota';
+import { pickAvailableRedditAccount } from '@/lib/redditAccountPool';
+import {
+  buildSearchQuerySet,
+  recordSearchQueryYield,
+} from '@/lib/searchQueryRotation';
 
 const userAgents = [
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
@@ -118,25 +162,91 @@ async function getStartingSubredditIndex(
   return 0;
 }
 
+function resolveDiscussionSource(
+  requestedSource: unknown
+): RedditDiscussionSource {
+  if (requestedSource === 'listing') return 'listing';
+  if (requestedSource === 'search' && hasRedditOAuthCredentials()) {
+    return 'search';
+  }
+
+  // Prefer the authenticated search endpoint whenever the app credentials exist.
+  return hasRedditOAuthCredentials() ? 'search' : 'listing';
+}
+
+async function searchSubredditDiscussions({
+  subreddit,
+  query,
+  searchTerms,
+  limit,
+  useQuery,
+  listingMode,
+  paginationManager,
+}: {
+  subreddit: string;
+  query: string;
+  searchTerms: string[];
+  limit: number;
+  // Search with `query` itself rather than every term OR'd together
+  useQuery: boolean;
+  listingMode: string;
+  paginationManager: RedditPaginationManagerServer;
+}) {
+  const searchQuery = useQuery
+    ? query
+    : buildRedditSearchQuery(searchTerms) || query;
+  // Rotation queries change between runs, so their tokens are never reused;
+  // the combined keyword search pages on like a listing does.
+  const paginationState = useQuery
+    ? null
+    : await paginationManager.getPaginationState(
+        subreddit,
+        getSearchPaginationKey(listingMode)
+      );
+  const resumeAfter =
+    paginationState && !paginationState.should_reset
+      ? paginationState.after
+      : null;
+  const { items, after, before } = await searchRedditDiscussions(
+    searchQuery,
+    subreddit,
+    { ...listingModeToSearchSort(listingMode), limit, after: resumeAfter }
+  );
+
+  return {
+    discussions: items,
+    rawFetched: items.length,
+    afterToken: useQuery ? null : after,
+    beforeToken: useQuery ? null : before,
+    isReset: !resumeAfter,
+  };
+}
+
 async function fetchSubredditDiscussions({
   subreddit,
   query,
   limit,
+  listingMode,
   paginationManager,
 }: {
   subreddit: string;
   query: string;
   limit: number;
+  listingMode: string;
   paginationManager: RedditPaginationManagerServer;
 }) {
   const {
     url: redditUrl,
     isReset,
     state: paginationState,
-  } = await paginationManager.getSmartPaginationUrl(subreddit, limit);
+  } = await paginationManager.getSmartPaginationUrl(
+    subreddit,
+    limit,
+    listingMode
+  );
 
   console.log(
-    `[REDDIT_PROXY] Pagination state for r/${subreddit}:`,
+    `[REDDIT_PROXY] Pagination state for r/${subreddit} (${listingMode}):`,
     paginationState
       ? `after=${paginationState.after}, total_fetched=${paginationState.total_fetched}, pages=${paginationState.pages_processed}`
       : 'first fetch'
@@ -148,27 +258,40 @@ async function fetchSubredditDiscussions({
   let rawFetched = 0;
 
   try {
-    const PROXY_WORKER_URL = 'https://redditprxy.devappshowcase.workers.dev/';
-    const proxyUrl = `${PROXY_WORKER_URL}?url=${encodeURIComponent(redditUrl)}`;
+    // Other configs targeting the same subreddit share this listing page.
+    const cacheKey = RedditListingCache.buildKey(
+      subreddit,
+      listingMode,
+      isReset ? null : paginationState?.after,
+      limit
+    );
+    const data: any = await redditListingCache.getOrFetch(
+      cacheKey,
+      async () => {
+        const proxyUrl = buildRedditProxyUrl(redditUrl);
 
-    console.log(`[REDDIT_SERVICE] Fetching via Cloudflare Proxy: ${proxyUrl}`);
+        console.log(
+          `[REDDIT_SERVICE] Fetching via Cloudflare Proxy: ${proxyUrl}`
+        );
 
-    const response = await fetch(proxyUrl, {
-      method: 'GET',
-      headers: {
-        Accept: 'application/json',
-        'User-Agent': getRandomUserAgent(),
-      },
-    });
+        const response = await redditHttpClient.fetch(proxyUrl, {
+          method: 'GET',
+          headers: {
+            Accept: 'application/json',
+            'User-Agent': getRandomUserAgent(),
+          },
+        });
+
+        if (!response.ok) {
+          if (response.status === 403 || response.status === 429) {
+            throw new Error(`REDDIT_BLOCK_${response.status}`);
+          }
+          throw new Error(`Reddit API error: ${response.status}`);
+        }
 
-    if (!response.ok) {
-      if (response.status === 403 || response.status === 429) {
-        throw new Error(`REDDIT_BLOCK_${response.status}`);
+        return response.json();
       }
-      throw new Error(`Reddit API error: ${response.status}`);
-    }
-
-    const data = await response.json();
+    );
     const children = data?.data?.children || [];
     rawFetched = children.length;
 
@@ -186,71 +309,35 @@ async function fetchSubredditDiscussions({
     afterToken = data.data?.after || null;
     beforeToken = data.data?.before || null;
 
-    const skipped = {
-      missingFields: 0,
-      stickied: 0,
-      removed: 0,
-    };
-
+    // Stickied, removed and other ineligible posts are left to the
+    // eligibility gate, which honours the config and audits each rejection.
     discussions = children
-      .filter((post: any) => {
-        const postData = post?.data;
-        if (!postData?.id || !postData?.title) {
-          skipped.missingFields += 1;
-          return false;
-        }
-
-        if (postData.stickied) {
-          skipped.stickied += 1;
-          return false;
-        }
-
-        if (postData.removed_by_category || postData.banned_by) {
-          skipped.removed += 1;
-          return false;
-        }
-
-        return true;
-      })
-      .map((post: any) => ({
-        id: post.data.id,
-        title: post.data.title,
-        content: post.data.selftext || '',
-        description: post.data.selftext || post.data.title,
-        url: `https://reddit.com${post.data.permalink}`,
-        subreddit: post.data.subreddit,
-        author: post.data.author,
-        score: post.data.score,
-        num_comments: post.data.num_comments,
-        created_utc: post.data.created_utc,
-        raw_comment: post.data.selftext || post.data.title,
-        is_self: post.data.is_self,
-        over_18: post.data.over_18,
-        stickied: post.data.stickied,
-      }));
+      .filter((post: any) => post?.data?.id && post?.data?.title)
+      .map((post: any) => mapRedditPostToDiscussion(post.data));
 
     console.log(
-      `[REDDIT_PROXY] Candidate filter kept ${discussions.length}/${rawFetched} posts for r/${subreddit}; skipped=${JSON.stringify(skipped)}`
+      `[REDDIT_PROXY] Mapped ${discussions.length}/${rawFetched} posts for r/${subreddit}`
     );
   } catch (error: any) {
     if (error.message && error.message.includes('REDDIT_BLOCK')) {
       console.warn(
-        `[REDDIT_PROXY] JSON API blocked (${error.message}), switching to HTML scraping fallback...`
+        `[REDDIT_PROXY] JSON API blocked (${error.message}), switching to feed/HTML fallbacks...`
       );
 
-      const htmlDiscussions = await scrapeRedditHTML(subreddit, query);
+      const fallback = await fetchRedditFallbackDiscussions(subreddit, query, {
+        limit,
+        listingMode,
+      });
       console.log(
-        `[REDDIT_PROXY] HTML scraping fallback found ${htmlDiscussions.length} discussions`
+        `[REDDIT_PROXY] ${fallback.source?.toUpperCase() || 'No'} fallback found ${fallback.items.length} discussions`
       );
 
-      if (htmlDiscussions.length === 0) {
-        throw new Error(
-          `Reddit API blocked and HTML fallback returned 0 results`
-        );
+      if (fallback.items.length === 0) {
+        throw new Error(`Reddit API blocked and fallbacks returned 0 results`);
       }
 
-      discussions = htmlDiscussions;
-      rawFetched = htmlDiscussions.length;
+      discussions = fallback.items;
+      rawFetched = fallback.items.length;
     } else {
       throw error;
     }
@@ -351,40 +438,6 @@ async function getAutoPosterRuntimeState(
   };
 }
 
-async function getMonthlyCommentQuotaState(supabaseAdmin: any, userId: string) {
-  const { data: userRow } = await supabaseAdmin
-    .from('users')
-    .select('subscription_status')
-    .eq('id', userId)
-    .maybeSingle();
-
-  const limits = getPlanLimits(userRow?.subscription_status);
-  const monthStart = new Date();
-  monthStart.setUTCDate(1);
-  monthStart.setUTCHours(0, 0, 0, 0);
-
-  const { count, error } = await supabaseAdmin
-    .from('posted_reddit_discussions')
-    .select('id, website_configs!inner(user_id)', {
-      count: 'exact',
-      head: true,
-    })
-    .eq('website_configs.user_id', userId)
-    .gte('created_at', monthStart.toISOString());
-
-  if (error) {
-    throw new Error(`Failed to check monthly comment usage: ${error.message}`);
-  }
-
-  const used = count || 0;
-
-  return {
-    used,
-    limit: limits.monthlyCommentLimit,
-    limitReached: used >= limits.monthlyCommentLimit,
-  };
-}
-
 function getSiteUrl(req: Request): string {
   const configured =
     process.env.NEXT_PUBLIC_SITE_URL ||
@@ -406,6 +459,7 @@ async function triggerSubredditHandoff({
   userId,
   websiteConfig,
   configId,
+  source,
   attemptedSubreddits,
 }: {
   req: Request;
@@ -415,6 +469,7 @@ async function triggerSubredditHandoff({
   userId: string;
   websiteConfig: any;
   configId: string;
+  source: RedditDiscussionSource;
   attemptedSubreddits: string[];
 }) {
   const destination = `${getSiteUrl(req)}/api/reddit/proxy`;
@@ -425,6 +480,7 @@ async function triggerSubredditHandoff({
     userId,
     websiteConfig,
     configId,
+    source,
     attemptedSubreddits,
     handoff: true,
   };
@@ -496,6 +552,7 @@ export async function POST(req: Request): Promise<NextResponse> {
       userId,
       websiteConfig,
       configId,
+      source: requestedSource,
       attemptedSubreddits: previousAttemptedSubreddits = [],
     } = await req.json();
 
@@ -537,11 +594,27 @@ export async function POST(req: Request): Promise<NextResponse> {
       customer_segments: websiteConfig?.customer_segments || [],
       business_context_terms: decodedCollections.businessContextTerms,
       target_subreddits: getWebsiteConfigSubreddits(websiteConfig),
-      relevance_threshold: websiteConfig?.relevance_threshold || 0.7,
+      listing_modes: getWebsiteConfigListingModes(websiteConfig),
+      comment_discovery: isCommentDiscoveryEnabled(websiteConfig),
+      require_target_keyword: isTargetKeywordRequired(websiteConfig),
+      eligibility_settings: getWebsiteConfigEligibilitySettings(websiteConfig),
+      search_queries: getWebsiteConfigSearchQueries(websiteConfig),
+      allowed_languages: getWebsiteConfigAllowedLanguages(websiteConfig),
+      author_filter_settings:
+        getWebsiteConfigAuthorFilterSettings(websiteConfig),
+      relevance_threshold: normalizeRelevanceThreshold(
+        websiteConfig?.relevance_threshold
+      ),
     };
 
+    const source = resolveDiscussionSource(requestedSource);
+    // Queries picked from the config's rotation are searched as-is and their
+    // yield is tracked; anything else keeps the combined keyword search.
+    const isRotationQuery =
+      buildSearchQuerySet(safeWebsiteConfig).includes(query);
+
     console.log(
-      `[REDDIT_PROXY] Starting single-subreddit auto-poster flow for r/${subreddit} with query: ${query}`
+      `[REDDIT_PROXY] Starting single-subreddit auto-poster flow for r/${subreddit} with query: ${query} (source: ${source})`
     );
 
     const supabaseAdmin = createClient(
@@ -605,85 +678,179 @@ export async function POST(req: Request): Promise<NextResponse> {
       });
     }
 
-    console.log(
-      `[REDDIT_PROXY] Searching r/${activeSubreddit}; checked=${attemptedSubreddits.length}/${subredditRotation.length}`
-    );
+    // Subreddits whose rules forbid product mentions are skipped outright
+    const subredditRules = (
+      await getSubredditRules(supabaseAdmin, [activeSubreddit])
+    )[activeSubreddit];
+    const promotionPolicy = subredditRules?.promotion_policy || 'unknown';
+    // Reddit refused a comment here recently; wait out the cooldown
+    const notAllowedUntil = getNotAllowedUntil(subredditRules?.not_allowed_at);
 
     let response: NextResponse | null = null;
     let payload: any = null;
 
-    try {
-      const paginationManager = new RedditPaginationManagerServer(
-        userId,
-        safeWebsiteConfig.id
-      );
-      const {
-        discussions,
-        rawFetched,
-        afterToken,
-        beforeToken,
-        isReset,
-      } = await fetchSubredditDiscussions({
-        subreddit: activeSubreddit,
-        query,
-        limit: limit || 10,
-        paginationManager,
-      });
-
-      response = await processDiscussions(
-        discussions,
-        userId,
-        safeWebsiteConfig,
-        configId,
-        paginationManager,
-        supabaseAdmin,
-        activeSubreddit,
-        isReset,
-        afterToken,
-        beforeToken,
-        rawFetched,
-        attemptedSubreddits
-      );
-
-      payload = await response
-        .clone()
-        .json()
-        .catch(() => null);
-
-      if (payload?.posted) {
-        return response;
-      }
-
-      await updateSubredditRotation(
-        supabaseAdmin,
-        configId,
-        subredditRotation,
-        nextIndex,
-        `attempt on r/${activeSubreddit}`
+    if (isPromotionBlocked(promotionPolicy, subredditRules?.not_allowed_at)) {
+      console.log(
+        `[REDDIT_PROXY] Skipping r/${activeSubreddit}: ${
+          notAllowedUntil
+            ? `comments refused (SUBREDDIT_NOTALLOWED) until ${notAllowedUntil}`
+            : PROMOTION_POLICY_LABELS[promotionPolicy]
+        }`
       );
-
-      if (!response.ok && response.status >= 500) {
-        return response;
-      }
-    } catch (error) {
-      const message = error instanceof Error ? error.message : String(error);
       payload = {
-        success: false,
-        error: message,
+        success: true,
+        posted: false,
+        skipped: true,
+        reason: notAllowedUntil ? 'subreddit_not_allowed' : 'subreddit_rules',
+        promotionPolicy,
+        policyEvidence: subredditRules?.policy_evidence || null,
+        notAllowedUntil,
         subreddit: activeSubreddit,
       };
-      console.error(
-        `[REDDIT_PROXY] Attempt failed for r/${activeSubreddit}:`,
-        error
-      );
 
       await updateSubredditRotation(
         supabaseAdmin,
         configId,
         subredditRotation,
         nextIndex,
-        `failed attempt on r/${activeSubreddit}`
+        `rules skip on r/${activeSubreddit}`
       );
+    } else {
+      try {
+        const paginationManager = new RedditPaginationManagerServer(
+          userId,
+          safeWebsiteConfig.id
+        );
+        const listingMode = await paginationManager.pickListingMode(
+          activeSubreddit,
+          safeWebsiteConfig.listing_modes,
+          source
+        );
+
+        console.log(
+          `[REDDIT_PROXY] Searching r/${activeSubreddit} (${source}, ${listingMode}); checked=${attemptedSubreddits.length}/${subredditRotation.length}`
+        );
+
+        const {
+          discussions: threadDiscussions,
+          rawFetched,
+          afterToken,
+          beforeToken,
+          isReset,
+        } = source === 'search'
+          ? await searchSubredditDiscussions({
+              subreddit: activeSubreddit,
+              query,
+              searchTerms: [
+                ...safeWebsiteConfig.target_keywords,
+                ...safeWebsiteConfig.customer_segments,
+              ],
+              limit: limit || 10,
+              useQuery: isRotationQuery,
+              listingMode,
+              paginationManager,
+            })
+          : await fetchSubredditDiscussions({
+              subreddit: activeSubreddit,
+              query,
+              limit: limit || 10,
+              listingMode,
+              paginationManager,
+            });
+
+        // Comment discovery walks the fetched threads for nested questions and
+        // scores them alongside the submissions themselves.
+        const commentCandidates = safeWebsiteConfig.comment_discovery
+          ? await discoverCommentCandidates(threadDiscussions)
+          : [];
+        const discussions = [...threadDiscussions, ...commentCandidates];
+
+        if (commentCandidates.length > 0) {
+          console.log(
+            `[REDDIT_PROXY] Added ${commentCandidates.length} comment candidates from r/${activeSubreddit}`
+          );
+        }
+
+        response = await processDiscussions(
+          discussions,
+          userId,
+          safeWebsiteConfig,
+          configId,
+          paginationManager,
+          supabaseAdmin,
+          activeSubreddit,
+          isReset,
+          afterToken,
+          beforeToken,
+          rawFetched,
+          attemptedSubreddits,
+          // Search tokens are kept apart from the listing's own
+          source === 'search'
+            ? getSearchPaginationKey(listingMode)
+            : listingMode,
+          promotionPolicy
+        );
+
+        payload = await response
+          .clone()
+          .json()
+          .catch(() => null);
+
+        // Early exits (quota, duplicates, filters) never score and answer
+        // relevant: null; only runs that reached scoring count as yield
+        if (
+          source === 'search' &&
+          isRotationQuery &&
+          response.ok &&
+          typeof payload?.relevant === 'number'
+        ) {
+          await recordSearchQueryYield(
+            supabaseAdmin,
+            safeWebsiteConfig.id,
+            query,
+            {
+              fetched: rawFetched,
+              relevant: payload.relevant,
+              posted: Boolean(payload?.posted),
+            }
+          );
+        }
+
+        if (payload?.posted) {
+          return response;
+        }
+
+        await updateSubredditRotation(
+          supabaseAdmin,
+          configId,
+          subredditRotation,
+          nextIndex,
+          `attempt on r/${activeSubreddit}`
+        );
+
+        if (!response.ok && response.status >= 500) {
+          return response;
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        payload = {
+          success: false,
+          error: message,
+          subreddit: activeSubreddit,
+        };
+        console.error(
+          `[REDDIT_PROXY] Attempt failed for r/${activeSubreddit}:`,
+          error
+        );
+
+        await updateSubredditRotation(
+          supabaseAdmin,
+          configId,
+          subredditRotation,
+          nextIndex,
+          `failed attempt on r/${activeSubreddit}`
+        );
+      }
     }
 
     if (checkedEverySubreddit) {
@@ -706,6 +873,7 @@ export async function POST(req: Request): Promise<NextResponse> {
       userId,
       websiteConfig: safeWebsiteConfig,
       configId,
+      source,
       attemptedSubreddits,
     });
 
@@ -746,7 +914,9 @@ async function processDiscussions(
   afterToken: string | null,
   beforeToken: string | null,
   rawFetched: number,
-  attemptedSubreddits: string[]
+  attemptedSubreddits: string[],
+  listingMode: string | null,
+  promotionPolicy: SubredditPromotionPolicy = 'unknown'
 ): Promise<NextResponse> {
   const runtimeState = await getAutoPosterRuntimeState(supabaseAdmin, configId);
   if (runtimeState?.limitReached) {
@@ -756,6 +926,8 @@ async function processDiscussions(
     return NextResponse.json({
       success: true,
       posted: false,
+      // Nothing was scored, so this says nothing about the query's yield
+      relevant: null,
       runtimeLimitReached: true,
       message: 'Auto-poster run completed its 5-hour window',
       subreddit,
@@ -782,17 +954,19 @@ async function processDiscussions(
       `[REDDIT_PROXY] All ${discussions.length} candidate posts were already posted for this website config`
     );
 
-    await paginationManager.updatePaginationState(
+    await paginationManager?.updatePaginationState(
       subreddit,
       afterToken,
       beforeToken,
       discussions.length,
-      isReset
+      isReset,
+      listingMode || undefined
     );
 
     return NextResponse.json({
       success: true,
       posted: false,
+      relevant: null,
       message: 'All fetched discussions were already posted',
       subreddit,
       discussions: [],
@@ -804,30 +978,33 @@ async function processDiscussions(
 
   // Update pagination state after successful fetch.
   if (discussions.length > 0) {
-    await paginationManager.updatePaginationState(
+    await paginationManager?.updatePaginationState(
       subreddit,
       afterToken,
       beforeToken,
       discussions.length,
-      isReset
+      isReset,
+      listingMode || undefined
     );
     console.log(
-      `[REDDIT_PROXY] Updated pagination state for r/${subreddit}: candidates=${discussions.length}, rawFetched=${rawFetched}`
+      `[REDDIT_PROXY] Updated pagination state for r/${subreddit} (${listingMode}): candidates=${discussions.length}, rawFetched=${rawFetched}`
     );
   }
 
   if (!discussions || discussions.length === 0) {
-    await paginationManager.updatePaginationState(
+    await paginationManager?.updatePaginationState(
       subreddit,
       afterToken,
       beforeToken,
       rawFetched,
-      isReset
+      isReset,
+      listingMode || undefined
     );
 
     return NextResponse.json({
       success: true,
       posted: false,
+      relevant: null,
       message: 'No discussions found',
       subreddit,
       discussions: [],
@@ -852,6 +1029,7 @@ async function processDiscussions(
     return NextResponse.json({
       success: true,
       posted: false,
+      relevant: null,
       message: 'All discussions already processed',
       subreddit,
       discussions: [],
@@ -861,6 +1039,150 @@ async function processDiscussions(
     });
   }
 
+  // One reply per logical discussion: crossposts and near-duplicates of a
+  // replied post are dropped, and copies within this batch collapse to one.
+  const repliedDuplicates = await findRepliedDuplicates(
+    supabaseAdmin,
+    websiteConfig.id,
+    newDiscussions
+  );
+  const { kept: uniqueDiscussions, duplicates } = collapseDuplicateDiscussions(
+    newDiscussions.filter((d: any) => !repliedDuplicates.has(d.id))
+  );
+  const duplicateRejections = [
+    ...newDiscussions
+      .filter((d: any) => repliedDuplicates.has(d.id))
+      .map((discussion: any) => ({
+        discussion,
+        reason: 'already_replied_in_group',
+        detail: `Same discussion as replied post ${repliedDuplicates.get(discussion.id)}`,
+      })),
+    ...duplicates.map(({ discussion, duplicateOf, reason }) => ({
+      discussion,
+      reason,
+      detail: `Same discussion as ${duplicateOf} in this batch`,
+    })),
+  ];
+
+  if (duplicateRejections.length > 0) {
+    console.log(
+      `[REDDIT_PROXY] Dropped ${duplicateRejections.length} crossposts or near-duplicates; ${uniqueDiscussions.length} unique discussions left`
+    );
+    await recordDiscussionFilterRejections(supabaseAdmin, {
+      websiteConfigId: websiteConfig.id,
+      userId,
+      stage: 'duplicate',
+      rejections: duplicateRejections.map(({ discussion, reason, detail }) => ({
+        discussionId: discussion.id,
+        subreddit: discussion.subreddit,
+        title: discussion.title,
+        reason,
+        detail,
+      })),
+    });
+  }
+
+  if (uniqueDiscussions.length === 0) {
+    return NextResponse.json({
+      success: true,
+      posted: false,
+      relevant: null,
+      message: 'Every new discussion duplicates one already replied to',
+      subreddit,
+      discussions: [],
+      total: 0,
+      duplicates: duplicateRejections.length,
+      rawFetched,
+      attemptedSubreddits,
+    });
+  }
+
+  // Drop posts we could not reply to anyway before spending scoring calls.
+  const eligibility = applyEligibilityGate(
+    uniqueDiscussions,
+    getWebsiteConfigEligibilitySettings(websiteConfig)
+  );
+
+  if (eligibility.rejected.length > 0) {
+    console.log(
+      `[REDDIT_PROXY] Eligibility gate rejected ${eligibility.rejected.length}/${uniqueDiscussions.length} discussions: ${JSON.stringify(eligibility.counts)}`
+    );
+    await recordDiscussionFilterRejections(supabaseAdmin, {
+      websiteConfigId: websiteConfig.id,
+      userId,
+      stage: 'eligibility',
+      rejections: eligibility.rejected.map(
+        ({ discussion, reason, detail }) => ({
+          discussionId: discussion.id,
+          subreddit: discussion.subreddit,
+          title: discussion.title,
+          reason,
+          detail,
+        })
+      ),
+    });
+  }
+
+  if (eligibility.eligible.length === 0) {
+    return NextResponse.json({
+      success: true,
+      posted: false,
+      relevant: null,
+      message: 'No discussions passed the eligibility gate',
+      subreddit,
+      discussions: [],
+      total: 0,
+      eligibilityRejected: eligibility.counts,
+      rawFetched,
+      attemptedSubreddits,
+    });
+  }
+
+  // Blocked authors, bots and authors replied to recently by any of the
+  // user's configs are skipped before scoring.
+  const authorFilter = await applyAuthorFilter(
+    supabaseAdmin,
+    eligibility.eligible,
+    getWebsiteConfigAuthorFilterSettings(websiteConfig),
+    userId
+  );
+
+  if (authorFilter.rejected.length > 0) {
+    console.log(
+      `[REDDIT_PROXY] Author filter rejected ${authorFilter.rejected.length}/${eligibility.eligible.length} discussions: ${JSON.stringify(authorFilter.counts)}`
+    );
+    await recordDiscussionFilterRejections(supabaseAdmin, {
+      websiteConfigId: websiteConfig.id,
+      userId,
+      stage: 'author',
+      rejections: authorFilter.rejected.map(
+        ({ discussion, reason, detail }) => ({
+          discussionId: discussion.id,
+          subreddit: discussion.subreddit,
+          title: discussion.title,
+          reason,
+          detail,
+        })
+      ),
+    });
+  }
+
+  if (authorFilter.passed.length === 0) {
+    return NextResponse.json({
+      success: true,
+      posted: false,
+      relevant: null,
+      message: 'No discussions passed the author filter',
+      subreddit,
+      discussions: [],
+      total: 0,
+      eligibilityRejected: eligibility.counts,
+      authorRejected: authorFilter.counts,
+      rawFetched,
+      attemptedSubreddits,
+    });
+  }
+
   const monthlyQuota = await getMonthlyCommentQuotaState(
     supabaseAdmin,
     userId
@@ -873,6 +1195,7 @@ async function processDiscussions(
     return NextResponse.json({
       success: true,
       posted: false,
+      relevant: null,
       monthlyLimitReached: true,
       message: `Monthly comment limit reached: ${monthlyQuota.used}/${monthlyQuota.limit}`,
       current: monthlyQuota.used,
@@ -884,9 +1207,52 @@ async function processDiscussions(
 
   // Step 3: Apply relevance filtering with Gemini AI scoring.
   const relevantDiscussions = await filterRelevantDiscussions(
-    newDiscussions,
+    authorFilter.passed,
     websiteConfig,
-    alreadyPostedIds
+    alreadyPostedIds,
+    (keywordRejections) =>
+      recordDiscussionFilterRejections(supabaseAdmin, {
+        websiteConfigId: websiteConfig.id,
+        userId,
+        stage: 'keyword',
+        rejections: keywordRejections.map(
+          ({ discussion, reason, detail }) => ({
+            discussionId: discussion.id,
+            subreddit: discussion.subreddit,
+            title: discussion.title,
+            reason,
+            detail,
+          })
+        ),
+      }),
+    (languageRejections) =>
+      recordDiscussionFilterRejections(supabaseAdmin, {
+        websiteConfigId: websiteConfig.id,
+        userId,
+        stage: 'language',
+        rejections: languageRejections.map(
+          ({ discussion, reason, detail }) => ({
+            discussionId: discussion.id,
+            subreddit: discussion.subreddit,
+            title: discussion.title,
+            reason,
+            detail,
+          })
+        ),
+      }),
+    (lexicalRejections) =>
+      recordDiscussionFilterRejections(supabaseAdmin, {
+        websiteConfigId: websiteConfig.id,
+        userId,
+        stage: 'lexical',
+        rejections: lexicalRejections.map(({ discussion, reason, detail }) => ({
+          discussionId: discussion.id,
+          subreddit: discussion.subreddit,
+          title: discussion.title,
+          reason,
+          detail,
+        })),
+      })
   );
 
   console.log(
@@ -898,47 +1264,21 @@ async function processDiscussions(
       success: true,
       posted: false,
       message: 'No relevant discussions after filtering',
+      relevant: 0,
       subreddit,
       discussions: [],
       total: 0,
       filtered: discussions.length,
+      eligibilityRejected: eligibility.counts,
+      authorRejected: authorFilter.counts,
       rawFetched,
       attemptedSubreddits,
     });
   }
 
   // Step 4: Get available Reddit account.
-  const { data: availableAccounts } = await supabaseAdmin
-    .from('reddit_accounts')
-    .select('*')
-    .eq('is_validated', true)
-    .eq('is_discussion_poster', true)
-    .eq('status', 'active')
-    .order('last_used_at', { ascending: true, nullsFirst: true });
-
-  // Filter accounts that are actually available (not in cooldown).
-  const now = new Date();
-  const availableAccountsFiltered =
-    availableAccounts?.filter((account: any) => {
-      if (account.is_available) return true;
-
-      if (account.current_cooldown_until) {
-        return now >= new Date(account.current_cooldown_until);
-      }
-
-      if (account.last_used_at) {
-        const lastUsed = new Date(account.last_used_at);
-        const cooldownMinutes = account.cooldown_minutes || 30;
-        const cooldownExpiry = new Date(
-          lastUsed.getTime() + cooldownMinutes * 60 * 1000
-        );
-        return now >= cooldownExpiry;
-      }
-
-      return false;
-    }) || [];
-
-  const redditAccount = availableAccountsFiltered[0];
+  const { account: redditAccount, accounts: availableAccounts } =
+    await pickAvailableRedditAccount(supabaseAdmin);
 
   if (!redditAccount) {
     console.error(
@@ -984,6 +1324,7 @@ async function processDiscussions(
           subreddit: discussion.subreddit,
           score: discussion.score || 0,
           permalink: discussion.url,
+          fullname: discussion.fullname,
         },
         {
           tone: 'pseudo-advice marketing',
@@ -992,6 +1333,8 @@ async function processDiscussions(
           websiteConfig,
           accountId: redditAccount.id,
           userId: userId,
+          promotionPolicy,
+          language: scores.language,
         }
       );
 
@@ -1008,10 +1351,14 @@ async function processDiscussions(
             reddit_account_id: redditAccount.id,
             subreddit: discussion.subreddit,
             post_title: discussion.title,
+            post_author: discussion.author || null,
             comment_id: result.commentId,
             comment_url: result.commentUrl,
             comment_text: result.generatedReply,
             relevance_score: Math.round(scores.finalScore),
+            listing_mode: listingMode,
+            language: scores.language,
+            ...getDuplicateColumns(discussion),
           });
 
         if (insertError) {
@@ -1069,11 +1416,14 @@ async function processDiscussions(
     discussions,
     total: discussions.length,
     filtered: discussions.length,
+    eligibilityRejected: eligibility.counts,
+    authorRejected: authorFilter.counts,
     rawFetched,
     relevant: relevantDiscussions.length,
     posted,
     postResult,
     subreddit,
+    listingMode,
     attemptedSubreddits,
   });
 }
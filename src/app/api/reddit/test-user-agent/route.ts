@@ -3,6 +3,10 @@ import { auth } from '@clerk/nextjs';
 import { createClient } from '@supabase/supabase-js';
 import snoowrap from 'snoowrap';
 import { generateUserAgent, parseUserAgent, validateUserAgent } from '../../../../utils/userAgents';
+import {
+  RedditHttpClient,
+  redditHttpClient,
+} from '../../../../lib/redditHttpClient';
 
 const supabaseAdmin = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -101,12 +105,20 @@ export async function POST(req: Request) {
 
           // Try to get user info to test the User Agent
           // Use .then() directly to avoid TypeScript circular reference issues with snoowrap's thenable objects
-          await new Promise<void>((resolve, reject) => {
-            reddit.getMe().then(() => {
-              console.log(`User Agent test successful`);
-              resolve();
-            }).catch(reject);
-          });
+          await redditHttpClient.withSnoowrap(
+            RedditHttpClient.accountCredential(accountId),
+            reddit as any,
+            () =>
+              new Promise<void>((resolve, reject) => {
+                reddit
+                  .getMe()
+                  .then(() => {
+                    console.log(`User Agent test successful`);
+                    resolve();
+                  })
+                  .catch(reject);
+              })
+          );
 
           // Update last checked timestamp
           await supabaseAdmin
@@ -2,6 +2,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import snoowrap from 'snoowrap';
 import { createServerSupabaseClient } from '../../../../utils/supabase-server';
+import {
+  RedditHttpClient,
+  redditHttpClient,
+} from '../../../../lib/redditHttpClient';
 // Note: Proxy validation will be added here when server routes are implemented.
 
 // Using the imported createServerSupabaseClient function
@@ -41,8 +45,13 @@ export async function POST(req: Request) {
           password,
         });
 
-        // Perform a simple API call to validate
-        const me = await (reddit as any).getMe();
+        // Perform a simple API call to validate. The account isn't saved
+        // yet, so its budget is keyed by username.
+        const me: any = await redditHttpClient.withSnoowrap(
+          RedditHttpClient.accountCredential(username),
+          reddit as any,
+          () => (reddit as any).getMe()
+        );
         const name = me?.name || 'unknown';
         return NextResponse.json({ success: true, username: name });
       } finally {
@@ -2,6 +2,10 @@ import { NextResponse } from 'next/server';
 import { auth } from '@clerk/nextjs/server';
 import snoowrap from 'snoowrap';
 import { createServerSupabaseClient } from '../../../utils/supabase-server';
+import {
+  RedditHttpClient,
+  redditHttpClient,
+} from '../../../lib/redditHttpClient';
 import { createClient } from '@supabase/supabase-js';
 
 // Initialize the Supabase Admin client
@@ -63,8 +67,12 @@ export async function POST(req: Request) {
           username,
           password,
         });
-        // @ts-ignore
-        await reddit.getMe();
+        // The account isn't saved yet, so its budget is keyed by username
+        await redditHttpClient.withSnoowrap(
+          RedditHttpClient.accountCredential(username),
+          reddit as any,
+          () => (reddit as any).getMe()
+        );
         isValid = true;
       } finally {
         // Restore original proxy environment variables
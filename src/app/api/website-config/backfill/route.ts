@@ -0,0 +1,424 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import { applyAuthorFilter } from '@/lib/authorFilters';
+import {
+  createBackfillJob,
+  isBackfillWindow,
+  runBackfillJob,
+  toScoringConfig,
+} from '@/lib/backfillJobs';
+import { getMonthlyCommentQuotaState } from '@/lib/commentQuota';
+import {
+  findRepliedDuplicates,
+  getDuplicateColumns,
+} from '@/lib/discussionSimilarity';
+import { pickAvailableRedditAccount } from '@/lib/redditAccountPool';
+import { redditReplyService } from '@/lib/redditReplyService';
+import {
+  getNotAllowedUntil,
+  isPromotionBlocked,
+} from '@/lib/subredditPromotionPolicy';
+import { getSubredditRules } from '@/lib/subredditRules';
+import {
+  getWebsiteConfigAllowedLanguages,
+  getWebsiteConfigAuthorFilterSettings,
+} from '@/lib/websiteConfigCollections';
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+async function loadOwnedConfig(
+  supabaseAdmin: any,
+  configId: string,
+  userId: string
+) {
+  const { data } = await supabaseAdmin
+    .from('website_configs')
+    .select('*')
+    .eq('id', configId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data;
+}
+
+async function loadOwnedJob(supabaseAdmin: any, jobId: string, userId: string) {
+  const { data } = await supabaseAdmin
+    .from('backfill_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return data;
+}
+
+async function loadOwnedCandidate(
+  supabaseAdmin: any,
+  candidateId: string,
+  userId: string
+) {
+  const { data } = await supabaseAdmin
+    .from('backfill_candidates')
+    .select('*, backfill_jobs!inner(user_id)')
+    .eq('id', candidateId)
+    .eq('backfill_jobs.user_id', userId)
+    .maybeSingle();
+  return data;
+}
+
+/**
+ * Latest backfill job for a website config with its candidates, best first
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const configId = searchParams.get('configId');
+    if (!configId) {
+      return NextResponse.json(
+        { error: 'configId is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdmin();
+    const { data: jobs } = await supabaseAdmin
+      .from('backfill_jobs')
+      .select('*')
+      .eq('website_config_id', configId)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+      .limit(1);
+
+    const { data: candidates } = await supabaseAdmin
+      .from('backfill_candidates')
+      .select(
+        'id, job_id, reddit_post_id, subreddit, post_title, post_url, post_content, post_author, post_created_utc, relevance_score, language, status, comment_url, created_at, reviewed_at, backfill_jobs!inner(user_id)'
+      )
+      .eq('website_config_id', configId)
+      .eq('backfill_jobs.user_id', userId)
+      .order('relevance_score', { ascending: false })
+      .limit(200);
+
+    const quota = await getMonthlyCommentQuotaState(supabaseAdmin, userId);
+
+    return NextResponse.json({
+      job: jobs?.[0] || null,
+      candidates: (candidates || []).map(
+        ({ backfill_jobs, ...candidate }: any) => candidate
+      ),
+      quota,
+    });
+  } catch (error) {
+    console.error('[BACKFILL] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load backfill' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Backfill actions:
+ * - start: create a job for { configId, windowDays } and run its first slice
+ * - resume: run the next slice of { jobId }
+ * - cancel: stop { jobId }; queued candidates stay reviewable
+ * - review: mark { candidateId } approved or dismissed
+ * - post: generate and post a reply to { candidateId }
+ */
+export async function POST(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const supabaseAdmin = createAdmin();
+    const body = await req.json();
+    const { action } = body;
+
+    if (action === 'start') {
+      const { configId, windowDays } = body;
+      if (!isBackfillWindow(windowDays)) {
+        return NextResponse.json(
+          { error: 'windowDays must be 7, 30 or 90' },
+          { status: 400 }
+        );
+      }
+
+      const config = await loadOwnedConfig(supabaseAdmin, configId, userId);
+      if (!config) {
+        return NextResponse.json(
+          { error: 'Website config not found' },
+          { status: 404 }
+        );
+      }
+
+      const job = await createBackfillJob(
+        supabaseAdmin,
+        config,
+        userId,
+        windowDays
+      );
+      if (!job) {
+        return NextResponse.json(
+          { error: 'A backfill is already in progress for this config' },
+          { status: 409 }
+        );
+      }
+
+      return NextResponse.json({
+        job: await runBackfillJob(supabaseAdmin, job.id),
+      });
+    }
+
+    if (action === 'resume' || action === 'cancel') {
+      const job = await loadOwnedJob(supabaseAdmin, body.jobId, userId);
+      if (!job) {
+        return NextResponse.json(
+          { error: 'Backfill job not found' },
+          { status: 404 }
+        );
+      }
+
+      if (action === 'cancel') {
+        const { data: cancelled } = await supabaseAdmin
+          .from('backfill_jobs')
+          .update({
+            status: 'cancelled',
+            stop_reason: 'cancelled_by_user',
+            updated_at: new Date().toISOString(),
+          })
+          .eq('id', job.id)
+          .select('*')
+          .single();
+        return NextResponse.json({ job: cancelled });
+      }
+
+      return NextResponse.json({
+        job: await runBackfillJob(supabaseAdmin, job.id),
+      });
+    }
+
+    if (action === 'review' || action === 'post') {
+      const candidate = await loadOwnedCandidate(
+        supabaseAdmin,
+        body.candidateId,
+        userId
+      );
+      if (!candidate) {
+        return NextResponse.json(
+          { error: 'Candidate not found' },
+          { status: 404 }
+        );
+      }
+      if (candidate.status === 'posted') {
+        return NextResponse.json(
+          { error: 'A reply was already posted to this discussion' },
+          { status: 409 }
+        );
+      }
+
+      if (action === 'review') {
+        const { decision } = body;
+        if (decision !== 'approved' && decision !== 'dismissed') {
+          return NextResponse.json(
+            { error: 'decision must be approved or dismissed' },
+            { status: 400 }
+          );
+        }
+
+        await supabaseAdmin
+          .from('backfill_candidates')
+          .update({ status: decision, reviewed_at: new Date().toISOString() })
+          .eq('id', candidate.id);
+        return NextResponse.json({ success: true });
+      }
+
+      const quota = await getMonthlyCommentQuotaState(supabaseAdmin, userId);
+      if (quota.limitReached) {
+        return NextResponse.json(
+          {
+            error: `Monthly comment limit reached (${quota.used}/${quota.limit})`,
+          },
+          { status: 429 }
+        );
+      }
+
+      const config = await loadOwnedConfig(
+        supabaseAdmin,
+        candidate.website_config_id,
+        userId
+      );
+      if (!config) {
+        return NextResponse.json(
+          { error: 'Website config not found' },
+          { status: 404 }
+        );
+      }
+
+      const post = {
+        id: candidate.reddit_post_id,
+        title: candidate.post_title,
+        content: candidate.post_content || '',
+        crosspost_parent:
+          candidate.duplicate_group_key &&
+          candidate.duplicate_group_key !== candidate.reddit_post_id
+            ? `t3_${candidate.duplicate_group_key}`
+            : undefined,
+      };
+      const repliedDuplicates = await findRepliedDuplicates(
+        supabaseAdmin,
+        candidate.website_config_id,
+        [post]
+      );
+      if (repliedDuplicates.has(post.id)) {
+        return NextResponse.json(
+          {
+            error: `Already replied to the same discussion (${repliedDuplicates.get(post.id)})`,
+          },
+          { status: 409 }
+        );
+      }
+
+      // The author may have been blocked or replied to since it was queued
+      const authorFilter = await applyAuthorFilter(
+        supabaseAdmin,
+        [{ id: candidate.reddit_post_id, author: candidate.post_author }],
+        getWebsiteConfigAuthorFilterSettings(config),
+        userId
+      );
+      if (authorFilter.rejected.length > 0) {
+        const [{ reason, detail }] = authorFilter.rejected;
+        return NextResponse.json(
+          {
+            error: `Author filtered (${reason}${detail ? `: ${detail}` : ''})`,
+          },
+          { status: 409 }
+        );
+      }
+
+      const rules = await getSubredditRules(supabaseAdmin, [
+        candidate.subreddit,
+      ]);
+      const subredditRules = rules[candidate.subreddit.toLowerCase()];
+      const promotionPolicy = subredditRules?.promotion_policy;
+      const notAllowedUntil = getNotAllowedUntil(
+        subredditRules?.not_allowed_at
+      );
+      if (notAllowedUntil) {
+        return NextResponse.json(
+          {
+            error: `r/${candidate.subreddit} refused a recent comment; retry after ${notAllowedUntil}`,
+          },
+          { status: 422 }
+        );
+      }
+      if (isPromotionBlocked(promotionPolicy)) {
+        return NextResponse.json(
+          {
+            error: `r/${candidate.subreddit} does not allow self-promotion`,
+          },
+          { status: 422 }
+        );
+      }
+
+      const { account } = await pickAvailableRedditAccount(supabaseAdmin);
+      if (!account) {
+        return NextResponse.json(
+          { error: 'No Reddit accounts available' },
+          { status: 503 }
+        );
+      }
+
+      const websiteConfig = toScoringConfig(config);
+      // Reply in the OP's language only while that language is still enabled
+      const language = getWebsiteConfigAllowedLanguages(config).includes(
+        candidate.language
+      )
+        ? candidate.language
+        : undefined;
+      const result = await redditReplyService.generateAndPostReply(
+        {
+          id: candidate.reddit_post_id,
+          title: candidate.post_title,
+          selftext: candidate.post_content || '',
+          url: candidate.post_url,
+          subreddit: candidate.subreddit,
+          score: 0,
+          permalink: candidate.post_url,
+        },
+        {
+          tone: 'pseudo-advice marketing',
+          maxLength: 350,
+          keywords: websiteConfig.target_keywords || [],
+          websiteConfig,
+          accountId: account.id,
+          userId,
+          promotionPolicy,
+          language,
+        }
+      );
+
+      if (!result.success) {
+        return NextResponse.json(
+          { error: result.error || 'Failed to post reply' },
+          { status: 502 }
+        );
+      }
+
+      const { error: insertError } = await supabaseAdmin
+        .from('posted_reddit_discussions')
+        .insert({
+          website_config_id: candidate.website_config_id,
+          reddit_post_id: candidate.reddit_post_id,
+          reddit_account_id: account.id,
+          subreddit: candidate.subreddit,
+          post_title: candidate.post_title,
+          post_author: candidate.post_author,
+          comment_id: result.commentId,
+          comment_url: result.commentUrl,
+          comment_text: result.generatedReply,
+          relevance_score: candidate.relevance_score,
+          listing_mode: 'backfill',
+          language: candidate.language,
+          ...getDuplicateColumns(post),
+        });
+      if (insertError) {
+        console.error(
+          `[BACKFILL] Failed to record posted discussion ${candidate.reddit_post_id}:`,
+          insertError
+        );
+      }
+
+      await supabaseAdmin
+        .from('backfill_candidates')
+        .update({
+          status: 'posted',
+          comment_url: result.commentUrl || null,
+          reviewed_at: new Date().toISOString(),
+        })
+        .eq('id', candidate.id);
+
+      return NextResponse.json({
+        success: true,
+        commentUrl: result.commentUrl,
+      });
+    }
+
+    return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+  } catch (error) {
+    console.error('[BACKFILL] API error:', error);
+    return NextResponse.json(
+      { error: 'Backfill request failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import {
+  isDiscussionFilterStage,
+  summarizeFilterRejections,
+} from '@/lib/discussionFilterAudit';
+
+const MAX_REJECTIONS = 100;
+// Recent rows the per-reason counts are computed from
+const MAX_SUMMARY_ROWS = 1000;
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+async function isOwnedConfig(
+  supabaseAdmin: any,
+  configId: string,
+  userId: string
+): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('website_configs')
+    .select('id')
+    .eq('id', configId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return Boolean(data);
+}
+
+/**
+ * Discussions a config's filters dropped before scoring, most recently seen
+ * first, with counts by stage and reason. ?stage= narrows both to one
+ * filter.
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const configId = searchParams.get('configId');
+    const stage = searchParams.get('stage');
+    if (!configId) {
+      return NextResponse.json(
+        { error: 'configId is required' },
+        { status: 400 }
+      );
+    }
+    if (stage && !isDiscussionFilterStage(stage)) {
+      return NextResponse.json(
+        { error: `Unknown filter stage: ${stage}` },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdmin();
+    if (!(await isOwnedConfig(supabaseAdmin, configId, userId))) {
+      return NextResponse.json(
+        { error: 'Website config not found' },
+        { status: 404 }
+      );
+    }
+
+    const forConfig = (columns: string, limit: number) => {
+      let query = supabaseAdmin
+        .from('discussion_filter_rejections')
+        .select(columns)
+        .eq('website_config_id', configId);
+      if (stage) query = query.eq('stage', stage);
+      return query.order('last_seen_at', { ascending: false }).limit(limit);
+    };
+
+    const [recent, summary] = await Promise.all([
+      forConfig(
+        'reddit_post_id, subreddit, post_title, stage, reason, detail, created_at, last_seen_at',
+        MAX_REJECTIONS
+      ),
+      forConfig('stage, reason', MAX_SUMMARY_ROWS),
+    ]);
+
+    if (recent.error || summary.error) {
+      throw recent.error || summary.error;
+    }
+
+    return NextResponse.json({
+      rejections: recent.data || [],
+      summary: summarizeFilterRejections((summary.data as any[]) || []),
+    });
+  } catch (error) {
+    console.error('[FILTER_AUDIT] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load filtered discussions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,189 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import {
+  computeFeedbackAgreement,
+  isRelevanceFeedbackLabel,
+} from '@/lib/relevanceFeedback';
+
+const MAX_DISCUSSIONS = 100;
+// Labeled rows the agreement trend is computed from
+const MAX_AGREEMENT_ROWS = 1000;
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+async function isOwnedConfig(
+  supabaseAdmin: any,
+  configId: string,
+  userId: string
+): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('website_configs')
+    .select('id')
+    .eq('id', configId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  return Boolean(data);
+}
+
+/**
+ * Recently scored discussions for a config, relevant or skipped, with the
+ * owner's labels and how often the model agreed with them week by week
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const configId = searchParams.get('configId');
+    if (!configId) {
+      return NextResponse.json(
+        { error: 'configId is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdmin();
+    if (!(await isOwnedConfig(supabaseAdmin, configId, userId))) {
+      return NextResponse.json(
+        { error: 'Website config not found' },
+        { status: 404 }
+      );
+    }
+
+    const [recent, labeled] = await Promise.all([
+      supabaseAdmin
+        .from('scored_discussions')
+        .select('*')
+        .eq('website_config_id', configId)
+        .order('scored_at', { ascending: false })
+        .limit(MAX_DISCUSSIONS),
+      supabaseAdmin
+        .from('scored_discussions')
+        .select(
+          'final_score, relevance_threshold, feedback_label, scored_at, labeled_score, labeled_threshold, labeled_scored_at'
+        )
+        .eq('website_config_id', configId)
+        .not('feedback_label', 'is', null)
+        .order('labeled_at', { ascending: false })
+        .limit(MAX_AGREEMENT_ROWS),
+    ]);
+
+    if (recent.error || labeled.error) {
+      throw recent.error || labeled.error;
+    }
+
+    return NextResponse.json({
+      discussions: recent.data || [],
+      agreement: computeFeedbackAgreement(labeled.data || []),
+    });
+  } catch (error) {
+    console.error('[RELEVANCE_FEEDBACK] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load relevance feedback' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Label a scored discussion { configId, redditPostId, label }, where label
+ * is 'relevant', 'not_relevant' or null to clear it
+ */
+export async function POST(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { configId, redditPostId, label } = await req.json();
+    if (!configId || !redditPostId) {
+      return NextResponse.json(
+        { error: 'configId and redditPostId are required' },
+        { status: 400 }
+      );
+    }
+    if (label !== null && !isRelevanceFeedbackLabel(label)) {
+      return NextResponse.json(
+        { error: 'label must be relevant, not_relevant or null' },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdmin();
+    if (!(await isOwnedConfig(supabaseAdmin, configId, userId))) {
+      return NextResponse.json(
+        { error: 'Website config not found' },
+        { status: 404 }
+      );
+    }
+
+    const existing = await supabaseAdmin
+      .from('scored_discussions')
+      .select('final_score, relevance_threshold, scored_at, labeled_score')
+      .eq('website_config_id', configId)
+      .eq('reddit_post_id', redditPostId)
+      .maybeSingle();
+
+    if (existing.error) throw existing.error;
+    if (!existing.data) {
+      return NextResponse.json(
+        { error: 'Scored discussion not found' },
+        { status: 404 }
+      );
+    }
+
+    // The score the owner judged is frozen with the first label; re-scores
+    // that see the label as an example don't change it. Relabeling keeps
+    // it, clearing the label drops it.
+    const frozenScore = !label
+      ? {
+          labeled_score: null,
+          labeled_threshold: null,
+          labeled_scored_at: null,
+        }
+      : existing.data.labeled_score === null
+        ? {
+            labeled_score: existing.data.final_score,
+            labeled_threshold: existing.data.relevance_threshold,
+            labeled_scored_at: existing.data.scored_at,
+          }
+        : {};
+
+    const { data, error } = await supabaseAdmin
+      .from('scored_discussions')
+      .update({
+        feedback_label: label,
+        labeled_at: label ? new Date().toISOString() : null,
+        ...frozenScore,
+      })
+      .eq('website_config_id', configId)
+      .eq('reddit_post_id', redditPostId)
+      .select('*')
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!data) {
+      return NextResponse.json(
+        { error: 'Scored discussion not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ discussion: data });
+  } catch (error) {
+    console.error('[RELEVANCE_FEEDBACK] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to save relevance feedback' },
+      { status: 500 }
+    );
+  }
+}
@@ -3,8 +3,12 @@ import { auth } from '@clerk/nextjs';
 import { createClient } from '@supabase/supabase-js';
 import {
   decodeWebsiteConfigCollections,
+  getWebsiteConfigAllowedLanguages,
+  getWebsiteConfigAuthorFilterSettings,
   mergeWebsiteConfigCollections,
 } from '@/lib/websiteConfigCollections';
+import { resolveEligibilitySettings } from '@/lib/discussionEligibility';
+import { normalizeRelevanceThreshold } from '@/lib/relevanceThreshold';
 import { getPlanLimits } from '@/utils/planLimits';
 
 const createAdmin = () =>
@@ -21,6 +25,18 @@ const normalizeConfigForResponse = (config: any) => {
     ...config,
     business_context_terms: decoded.businessContextTerms,
     target_subreddits: decoded.targetSubreddits,
+    listing_modes: decoded.listingModes,
+    comment_discovery: decoded.commentDiscovery,
+    require_target_keyword: decoded.requireTargetKeyword,
+    eligibility_settings: resolveEligibilitySettings(
+      decoded.eligibilitySettings
+    ),
+    search_queries: decoded.searchQueries,
+    allowed_languages: getWebsiteConfigAllowedLanguages(config),
+    author_filter_settings: getWebsiteConfigAuthorFilterSettings(config),
+    relevance_threshold: normalizeRelevanceThreshold(
+      config.relevance_threshold
+    ),
   };
 };
 
@@ -110,6 +126,13 @@ export async function POST(req: Request) {
       customerSegments = [],
       targetKeywords = [],
       targetSubreddits = [],
+      listingModes = [],
+      commentDiscovery = false,
+      requireTargetKeyword = false,
+      eligibilitySettings = {},
+      searchQueries = [],
+      allowedLanguages = [],
+      authorFilterSettings = {},
       negativeKeywords = [],
       businessContextTerms = [],
       relevanceThreshold = 70,
@@ -144,9 +167,17 @@ export async function POST(req: Request) {
             negative_keywords: negativeKeywords,
             business_context_terms: mergeWebsiteConfigCollections(
               businessContextTerms,
-              targetSubreddits
+              targetSubreddits,
+              listingModes,
+              commentDiscovery,
+              eligibilitySettings,
+              searchQueries,
+              allowedLanguages,
+              authorFilterSettings,
+              requireTargetKeyword
             ),
-            relevance_threshold: relevanceThreshold,
+            relevance_threshold:
+              normalizeRelevanceThreshold(relevanceThreshold),
             auto_poster_enabled: autoPostersEnabled,
             updated_at: new Date().toISOString(),
           })
@@ -185,9 +216,16 @@ export async function POST(req: Request) {
         negative_keywords: negativeKeywords,
         business_context_terms: mergeWebsiteConfigCollections(
           businessContextTerms,
-          targetSubreddits
+          targetSubreddits,
+          listingModes,
+          commentDiscovery,
+          eligibilitySettings,
+          searchQueries,
+          allowedLanguages,
+          authorFilterSettings,
+          requireTargetKeyword
         ),
-        relevance_threshold: relevanceThreshold,
+        relevance_threshold: normalizeRelevanceThreshold(relevanceThreshold),
         auto_poster_enabled: autoPostersEnabled,
       })
       .select()
@@ -222,6 +260,13 @@ export async function PUT(req: Request) {
       customerSegments = [],
       targetKeywords = [],
       targetSubreddits = [],
+      listingModes = [],
+      commentDiscovery = false,
+      requireTargetKeyword = false,
+      eligibilitySettings = {},
+      searchQueries = [],
+      allowedLanguages = [],
+      authorFilterSettings = {},
       negativeKeywords = [],
       businessContextTerms = [],
       relevanceThreshold = 70,
@@ -246,9 +291,16 @@ export async function PUT(req: Request) {
         negative_keywords: negativeKeywords,
         business_context_terms: mergeWebsiteConfigCollections(
           businessContextTerms,
-          targetSubreddits
+          targetSubreddits,
+          listingModes,
+          commentDiscovery,
+          eligibilitySettings,
+          searchQueries,
+          allowedLanguages,
+          authorFilterSettings,
+          requireTargetKeyword
         ),
-        relevance_threshold: relevanceThreshold,
+        relevance_threshold: normalizeRelevanceThreshold(relevanceThreshold),
         auto_poster_enabled: autoPostersEnabled,
         updated_at: new Date().toISOString(),
       })
@@ -0,0 +1,125 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import { expandSearchQueries } from '@/lib/searchQueryExpansion';
+import {
+  buildSearchQuerySet,
+  getSearchQueryDueAt,
+  loadSearchQueryStats,
+} from '@/lib/searchQueryRotation';
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+/**
+ * The query set a saved config rotates through, with each query's yield
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const configId = searchParams.get('configId');
+    if (!configId) {
+      return NextResponse.json(
+        { error: 'configId is required' },
+        { status: 400 }
+      );
+    }
+
+    const supabaseAdmin = createAdmin();
+    const { data: config } = await supabaseAdmin
+      .from('website_configs')
+      .select('*')
+      .eq('id', configId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Website config not found' },
+        { status: 404 }
+      );
+    }
+
+    const stats = await loadSearchQueryStats(supabaseAdmin, configId);
+    const byQuery = new Map(stats.map((row) => [row.query, row]));
+    const now = Date.now();
+
+    return NextResponse.json({
+      queries: buildSearchQuerySet(config).map((query) => {
+        const row = byQuery.get(query);
+        return {
+          query,
+          runs: row?.runs || 0,
+          relevant: row?.relevant_count || 0,
+          posted: row?.posted_count || 0,
+          lastUsedAt: row?.last_used_at || null,
+          backedOff: getSearchQueryDueAt(row) > now,
+        };
+      }),
+    });
+  } catch (error) {
+    console.error('[SEARCH_QUERIES] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load search queries' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Generate search queries from the wizard fields, leaving room for the
+ * queries the user locked
+ */
+export async function POST(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const {
+      websiteDescription = '',
+      customerSegments = [],
+      businessContextTerms = [],
+      targetKeywords = [],
+      lockedQueries = [],
+    } = await req.json();
+
+    if (!websiteDescription.trim()) {
+      return NextResponse.json(
+        { error: 'Add a website description before generating queries' },
+        { status: 400 }
+      );
+    }
+
+    const queries = await expandSearchQueries({
+      websiteDescription,
+      customerSegments,
+      businessContextTerms,
+      targetKeywords,
+      lockedQueries,
+      userId,
+    });
+
+    return NextResponse.json({ queries });
+  } catch (error) {
+    console.error('[SEARCH_QUERIES] Generation failed:', error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : 'Failed to generate search queries',
+      },
+      { status: 500 }
+    );
+  }
+}
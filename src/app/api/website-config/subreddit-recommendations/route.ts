@@ -0,0 +1,85 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import { getWebsiteConfigSubreddits } from '@/lib/websiteConfigCollections';
+import { recommendSubreddits } from '@/lib/subredditRecommendations';
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+/**
+ * Suggest subreddits for a website config. Accepts either the id of a saved
+ * config or the unsaved wizard fields (description, segments, keywords).
+ */
+export async function POST(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const body = await req.json();
+    let {
+      websiteDescription = '',
+      customerSegments = [],
+      targetKeywords = [],
+      targetSubreddits = [],
+    } = body;
+
+    if (body.websiteConfigId) {
+      const { data: config, error } = await createAdmin()
+        .from('website_configs')
+        .select('*')
+        .eq('id', body.websiteConfigId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error || !config) {
+        return NextResponse.json(
+          { error: 'Website config not found' },
+          { status: 404 }
+        );
+      }
+
+      websiteDescription = config.website_description || '';
+      customerSegments = config.customer_segments || [];
+      targetKeywords = config.target_keywords || [];
+      targetSubreddits = getWebsiteConfigSubreddits(config);
+    }
+
+    if (
+      !websiteDescription.trim() &&
+      customerSegments.length === 0 &&
+      targetKeywords.length === 0
+    ) {
+      return NextResponse.json(
+        {
+          error:
+            'A description, customer segments or target keywords are required',
+        },
+        { status: 400 }
+      );
+    }
+
+    const recommendations = await recommendSubreddits(
+      {
+        description: websiteDescription,
+        customerSegments,
+        targetKeywords,
+        excludeSubreddits: targetSubreddits,
+      },
+      { limit: Math.min(Number(body.limit) || 8, 20) }
+    );
+
+    return NextResponse.json({ recommendations });
+  } catch (error) {
+    console.error('[SUBREDDIT_RECOMMENDATIONS] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to recommend subreddits' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import {
+  PROMOTION_POLICY_LABELS,
+  getNotAllowedUntil,
+} from '@/lib/subredditPromotionPolicy';
+import { getSubredditRules } from '@/lib/subredditRules';
+
+const MAX_SUBREDDITS = 25;
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+/**
+ * Self-promotion stance for each of the given subreddits, fetching and
+ * classifying rules that are missing or stale.
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const subreddits = (searchParams.get('subreddits') || '')
+      .split(',')
+      .map((name) => name.trim().replace(/^r\//i, '').toLowerCase())
+      .filter(Boolean)
+      .slice(0, MAX_SUBREDDITS);
+
+    const records = await getSubredditRules(createAdmin(), subreddits);
+
+    const policies: Record<string, unknown> = {};
+    for (const [name, record] of Object.entries(records)) {
+      policies[name] = {
+        promotionPolicy: record.promotion_policy,
+        label: PROMOTION_POLICY_LABELS[record.promotion_policy],
+        evidence: record.policy_evidence,
+        fetchedAt: record.fetched_at,
+        notAllowedAt: record.not_allowed_at,
+        // Set while the auto-poster skips the subreddit after a refusal
+        notAllowedUntil: getNotAllowedUntil(record.not_allowed_at),
+      };
+    }
+
+    return NextResponse.json({ policies });
+  } catch (error) {
+    console.error('[SUBREDDIT_RULES] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load subreddit rules' },
+      { status: 500 }
+    );
+  }
+}
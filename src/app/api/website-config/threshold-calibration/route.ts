@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import { auth } from '@clerk/nextjs';
+import { createClient } from '@supabase/supabase-js';
+import {
+  computeThresholdCalibration,
+  normalizeRelevanceThreshold,
+} from '@/lib/relevanceThreshold';
+
+const WINDOW_OPTIONS = [7, 30, 90];
+const DEFAULT_WINDOW_DAYS = 30;
+const MAX_SCORED_ROWS = 5000;
+
+const createAdmin = () =>
+  createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+/**
+ * Score distribution of a config's recently scored discussions and how many
+ * each candidate threshold would have allowed
+ */
+export async function GET(req: Request) {
+  try {
+    const { userId } = auth();
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(req.url);
+    const configId = searchParams.get('configId');
+    if (!configId) {
+      return NextResponse.json(
+        { error: 'configId is required' },
+        { status: 400 }
+      );
+    }
+    const requestedDays = Number(searchParams.get('days'));
+    const windowDays = WINDOW_OPTIONS.includes(requestedDays)
+      ? requestedDays
+      : DEFAULT_WINDOW_DAYS;
+
+    const supabaseAdmin = createAdmin();
+    const { data: config } = await supabaseAdmin
+      .from('website_configs')
+      .select('id, relevance_threshold')
+      .eq('id', configId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!config) {
+      return NextResponse.json(
+        { error: 'Website config not found' },
+        { status: 404 }
+      );
+    }
+
+    const since = new Date(
+      Date.now() - windowDays * 24 * 60 * 60 * 1000
+    ).toISOString();
+    const { data: rows, error } = await supabaseAdmin
+      .from('scored_discussions')
+      .select('final_score, feedback_label')
+      .eq('website_config_id', configId)
+      .gte('scored_at', since)
+      .order('scored_at', { ascending: false })
+      .limit(MAX_SCORED_ROWS);
+
+    if (error) throw error;
+
+    return NextResponse.json({
+      windowDays,
+      calibration: computeThresholdCalibration(
+        rows || [],
+        normalizeRelevanceThreshold(config.relevance_threshold)
+      ),
+    });
+  } catch (error) {
+    console.error('[THRESHOLD_CALIBRATION] API error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load threshold calibration' },
+      { status: 500 }
+    );
+  }
+}
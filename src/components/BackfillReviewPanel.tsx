@@ -0,0 +1,342 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { WebsiteConfig } from '../lib/relevanceFiltering';
+import {
+  BackfillCandidateStatus,
+  BackfillJob,
+  BackfillWindowDays,
+} from '../lib/backfillJobs';
+
+interface BackfillReviewPanelProps {
+  websiteConfigs: WebsiteConfig[];
+}
+
+interface BackfillCandidate {
+  id: string;
+  reddit_post_id: string;
+  subreddit: string;
+  post_title: string;
+  post_url: string;
+  post_content: string | null;
+  post_created_utc: number;
+  relevance_score: number;
+  language: string | null;
+  status: BackfillCandidateStatus;
+  comment_url: string | null;
+}
+
+interface QuotaState {
+  used: number;
+  limit: number;
+  limitReached: boolean;
+}
+
+// Mirrors BACKFILL_WINDOWS; importing it would pull server code into the bundle
+const WINDOW_OPTIONS: BackfillWindowDays[] = [7, 30, 90];
+
+const STOP_REASON_LABELS: Record<string, string> = {
+  searched_all_subreddits: 'Searched every subreddit in the window',
+  comment_quota: 'Stopped at your remaining monthly comment quota',
+  cancelled_by_user: 'Cancelled',
+};
+
+const STATUS_STYLES: Record<BackfillCandidateStatus, string> = {
+  pending_review: 'text-zinc-400',
+  approved: 'text-emerald-400',
+  dismissed: 'text-zinc-600',
+  posted: 'text-sky-400',
+};
+
+export default function BackfillReviewPanel({
+  websiteConfigs,
+}: BackfillReviewPanelProps) {
+  const [configId, setConfigId] = useState(websiteConfigs[0]?.id || '');
+  const [windowDays, setWindowDays] = useState<BackfillWindowDays>(30);
+  const [job, setJob] = useState<BackfillJob | null>(null);
+  const [candidates, setCandidates] = useState<BackfillCandidate[]>([]);
+  const [quota, setQuota] = useState<QuotaState | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  const loadBackfill = useCallback(async () => {
+    if (!configId) return;
+    const response = await fetch(
+      `/api/website-config/backfill?configId=${encodeURIComponent(configId)}`
+    );
+    const data = await response.json();
+    if (response.ok) {
+      setJob(data.job);
+      setCandidates(data.candidates || []);
+      setQuota(data.quota);
+    }
+  }, [configId]);
+
+  useEffect(() => {
+    if (!configId && websiteConfigs.length) setConfigId(websiteConfigs[0].id);
+  }, [configId, websiteConfigs]);
+
+  useEffect(() => {
+    void loadBackfill();
+  }, [loadBackfill]);
+
+  const runAction = async (key: string, payload: Record<string, unknown>) => {
+    setBusy(key);
+    try {
+      const response = await fetch('/api/website-config/backfill', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      const data = await response.json();
+      if (!response.ok) alert(data.error || 'Backfill request failed');
+      if (payload.action === 'post' && response.ok) {
+        window.dispatchEvent(new Event('posted-discussions:updated'));
+      }
+    } catch (error) {
+      console.error('Backfill request failed:', error);
+    } finally {
+      setBusy(null);
+      await loadBackfill();
+    }
+  };
+
+  const isActive =
+    job?.status === 'pending' ||
+    job?.status === 'running' ||
+    job?.status === 'paused';
+  const visibleCandidates = candidates.filter(
+    (candidate) => showDismissed || candidate.status !== 'dismissed'
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-zinc-50">
+            Historical backfill
+          </h3>
+          <p className="text-sm text-zinc-500">
+            Search your subreddits over a past window and review the best
+            discussions before replying. Nothing is posted without your
+            approval.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value)}
+            className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+          >
+            {websiteConfigs.map((config) => (
+              <option key={config.id} value={config.id}>
+                {config.website_url || config.url}
+              </option>
+            ))}
+          </select>
+          <select
+            value={windowDays}
+            onChange={(e) =>
+              setWindowDays(Number(e.target.value) as BackfillWindowDays)
+            }
+            disabled={isActive}
+            className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+          >
+            {WINDOW_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                Last {days} days
+              </option>
+            ))}
+          </select>
+          {isActive ? (
+            <>
+              <button
+                onClick={() =>
+                  void runAction('resume', { action: 'resume', jobId: job!.id })
+                }
+                disabled={busy !== null}
+                className="ui-button-primary"
+              >
+                {busy === 'resume' ? 'Searching...' : 'Resume'}
+              </button>
+              <button
+                onClick={() =>
+                  void runAction('cancel', { action: 'cancel', jobId: job!.id })
+                }
+                disabled={busy !== null}
+                className="ui-button-secondary"
+              >
+                Cancel
+              </button>
+            </>
+          ) : (
+            <button
+              onClick={() =>
+                void runAction('start', {
+                  action: 'start',
+                  configId,
+                  windowDays,
+                })
+              }
+              disabled={busy !== null || !configId}
+              className="ui-button-primary"
+            >
+              {busy === 'start' ? 'Searching...' : 'Start backfill'}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {job && (
+        <div className="surface-subtle flex flex-wrap gap-6 p-4 text-sm text-zinc-400">
+          <span>
+            Status: <span className="text-zinc-100">{job.status}</span>
+          </span>
+          <span>
+            Subreddit{' '}
+            {Math.min(
+              (job.cursor.subredditIndex || 0) + 1,
+              job.subreddits.length
+            )}{' '}
+            of {job.subreddits.length}
+          </span>
+          <span>{job.searched_count} searched</span>
+          <span>{job.scored_count} scored</span>
+          <span>{job.candidates_found} queued</span>
+          {quota && (
+            <span>
+              {quota.used}/{quota.limit} comments used this month
+            </span>
+          )}
+          {job.stop_reason && (
+            <span className="text-zinc-500">
+              {STOP_REASON_LABELS[job.stop_reason] || job.stop_reason}
+            </span>
+          )}
+          {job.error && <span className="text-red-400">{job.error}</span>}
+          {job.status === 'paused' && (
+            <span className="text-amber-400">
+              Paused between searches. Resume to continue.
+            </span>
+          )}
+        </div>
+      )}
+
+      {candidates.length > 0 && (
+        <label className="flex items-center gap-2 text-sm text-zinc-500">
+          <input
+            type="checkbox"
+            checked={showDismissed}
+            onChange={(e) => setShowDismissed(e.target.checked)}
+          />
+          Show dismissed
+        </label>
+      )}
+
+      {visibleCandidates.length === 0 ? (
+        <div className="surface-subtle p-6 text-sm text-zinc-500">
+          {job
+            ? 'No candidates to review yet.'
+            : 'Start a backfill to find relevant discussions from the past.'}
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {visibleCandidates.map((candidate) => (
+            <div key={candidate.id} className="surface-subtle p-4">
+              <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+                <div className="flex-1">
+                  <a
+                    href={candidate.post_url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-medium text-zinc-50 underline-offset-4 hover:underline"
+                  >
+                    {candidate.post_title}
+                  </a>
+                  <p className="mt-1 text-sm text-zinc-500">
+                    r/{candidate.subreddit} ·{' '}
+                    {new Date(
+                      candidate.post_created_utc * 1000
+                    ).toLocaleDateString()}{' '}
+                    · score {candidate.relevance_score} ·{' '}
+                    {candidate.language &&
+                      candidate.language !== 'en' &&
+                      candidate.language !== 'unknown' && (
+                        <>{candidate.language.toUpperCase()} · </>
+                      )}
+                    <span className={STATUS_STYLES[candidate.status]}>
+                      {candidate.status.replace('_', ' ')}
+                    </span>
+                  </p>
+                  {candidate.post_content && (
+                    <p className="mt-2 line-clamp-3 text-sm text-zinc-600">
+                      {candidate.post_content}
+                    </p>
+                  )}
+                  {candidate.comment_url && (
+                    <a
+                      href={candidate.comment_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="mt-2 inline-block text-sm font-medium text-zinc-50 underline-offset-4 hover:underline"
+                    >
+                      View comment on Reddit ↗
+                    </a>
+                  )}
+                </div>
+                {candidate.status !== 'posted' && (
+                  <div className="flex gap-2">
+                    {candidate.status !== 'approved' && (
+                      <button
+                        onClick={() =>
+                          void runAction(candidate.id, {
+                            action: 'review',
+                            candidateId: candidate.id,
+                            decision: 'approved',
+                          })
+                        }
+                        disabled={busy !== null}
+                        className="ui-button-secondary"
+                      >
+                        Approve
+                      </button>
+                    )}
+                    {candidate.status !== 'dismissed' && (
+                      <button
+                        onClick={() =>
+                          void runAction(candidate.id, {
+                            action: 'review',
+                            candidateId: candidate.id,
+                            decision: 'dismissed',
+                          })
+                        }
+                        disabled={busy !== null}
+                        className="ui-button-secondary"
+                      >
+                        Dismiss
+                      </button>
+                    )}
+                    {candidate.status === 'approved' && (
+                      <button
+                        onClick={() =>
+                          void runAction(candidate.id, {
+                            action: 'post',
+                            candidateId: candidate.id,
+                          })
+                        }
+                        disabled={busy !== null || quota?.limitReached}
+                        className="ui-button-primary"
+                      >
+                        {busy === candidate.id ? 'Posting...' : 'Post reply'}
+                      </button>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
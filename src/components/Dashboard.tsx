@@ -6,6 +6,7 @@ import { useUser } from '@clerk/nextjs';
 import { Dialog } from '@headlessui/react';
 import CreateMessageTemplate from './CreateMessageTemplate';
 import LogViewer from './LogViewer';
+import PaginationStatePanel from './PaginationStatePanel';
 import UserStats from './UserStats';
 
 interface ReplyPlaybook {
@@ -264,6 +265,8 @@ export default function Dashboard() {
             </div>
           </section>
         </div>
+
+        <PaginationStatePanel userId={user.id} />
       </div>
 
       <Modal
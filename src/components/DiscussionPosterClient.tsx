@@ -4,6 +4,10 @@ import { useCallback, useEffect, useMemo, useState } from 'react';
 import { useUser } from '@clerk/nextjs';
 import AutoPosterManager from './AutoPosterManager';
 import WebsiteConfigManagerStepByStep from './WebsiteConfigManagerStepByStep';
+import BackfillReviewPanel from './BackfillReviewPanel';
+import RelevanceFeedbackPanel from './RelevanceFeedbackPanel';
+import FilterRejectionsPanel from './FilterRejectionsPanel';
+import ThresholdCalibrationPanel from './ThresholdCalibrationPanel';
 import { WebsiteConfig } from '../lib/relevanceFiltering';
 
 interface AccountStatus {
@@ -23,7 +27,13 @@ interface PostingHistory {
 export default function DiscussionPosterClient() {
   const { user, isLoaded } = useUser();
   const [activeTab, setActiveTab] = useState<
-    'autoposter' | 'config' | 'history'
+    | 'autoposter'
+    | 'config'
+    | 'backfill'
+    | 'feedback'
+    | 'filtered'
+    | 'calibration'
+    | 'history'
   >('autoposter');
   const [selectedConfigId, setSelectedConfigId] = useState('');
   const [websiteConfigs, setWebsiteConfigs] = useState<WebsiteConfig[]>([]);
@@ -100,6 +110,10 @@ export default function DiscussionPosterClient() {
   const tabs = [
     { id: 'autoposter', label: 'Auto-Poster' },
     { id: 'config', label: 'Website Configs' },
+    { id: 'backfill', label: 'Backfill' },
+    { id: 'feedback', label: 'Relevance Feedback' },
+    { id: 'filtered', label: 'Filtered' },
+    { id: 'calibration', label: 'Threshold Calibration' },
     { id: 'history', label: 'Posted Comments' },
   ] as const;
 
@@ -188,6 +202,18 @@ export default function DiscussionPosterClient() {
                 }}
               />
             )}
+            {activeTab === 'backfill' && (
+              <BackfillReviewPanel websiteConfigs={websiteConfigs} />
+            )}
+            {activeTab === 'feedback' && (
+              <RelevanceFeedbackPanel websiteConfigs={websiteConfigs} />
+            )}
+            {activeTab === 'filtered' && (
+              <FilterRejectionsPanel websiteConfigs={websiteConfigs} />
+            )}
+            {activeTab === 'calibration' && (
+              <ThresholdCalibrationPanel websiteConfigs={websiteConfigs} />
+            )}
             {activeTab === 'history' && (
               <div className="space-y-4">
                 <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
@@ -0,0 +1,145 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { WebsiteConfig } from '../lib/relevanceFiltering';
+import {
+  DISCUSSION_FILTER_STAGES,
+  DiscussionFilterRejectionRow,
+  DiscussionFilterRejectionSummary,
+  DiscussionFilterStage,
+} from '../lib/discussionFilterAudit';
+
+const STAGE_LABELS: Record<DiscussionFilterStage, string> = {
+  eligibility: 'Eligibility',
+  keyword: 'Keywords',
+  duplicate: 'Duplicate',
+  language: 'Language',
+  author: 'Author',
+  lexical: 'Lexical floor',
+};
+
+interface FilterRejectionsPanelProps {
+  websiteConfigs: WebsiteConfig[];
+}
+
+export default function FilterRejectionsPanel({
+  websiteConfigs,
+}: FilterRejectionsPanelProps) {
+  const [configId, setConfigId] = useState(websiteConfigs[0]?.id || '');
+  const [stage, setStage] = useState<DiscussionFilterStage | ''>('');
+  const [rejections, setRejections] = useState<DiscussionFilterRejectionRow[]>(
+    []
+  );
+  const [summary, setSummary] = useState<DiscussionFilterRejectionSummary[]>(
+    []
+  );
+
+  const loadRejections = useCallback(async () => {
+    if (!configId) return;
+    const params = new URLSearchParams({ configId });
+    if (stage) params.set('stage', stage);
+    const response = await fetch(
+      `/api/website-config/filter-rejections?${params.toString()}`
+    );
+    const data = await response.json();
+    if (response.ok) {
+      setRejections(data.rejections || []);
+      setSummary(data.summary || []);
+    }
+  }, [configId, stage]);
+
+  useEffect(() => {
+    if (!configId && websiteConfigs.length) setConfigId(websiteConfigs[0].id);
+  }, [configId, websiteConfigs]);
+
+  useEffect(() => {
+    void loadRejections();
+  }, [loadRejections]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-zinc-50">
+            Filtered discussions
+          </h3>
+          <p className="text-sm text-zinc-500">
+            Discussions dropped before scoring, such as blocked or bot authors,
+            duplicates and locked threads, and why.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <select
+            value={stage}
+            onChange={(e) =>
+              setStage(e.target.value as DiscussionFilterStage | '')
+            }
+            className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+          >
+            <option value="">All filters</option>
+            {DISCUSSION_FILTER_STAGES.map((value) => (
+              <option key={value} value={value}>
+                {STAGE_LABELS[value]}
+              </option>
+            ))}
+          </select>
+          <select
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value)}
+            className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+          >
+            {websiteConfigs.map((config) => (
+              <option key={config.id} value={config.id}>
+                {config.website_url || config.url}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {summary.length > 0 && (
+        <div className="surface-subtle flex flex-wrap gap-2 p-4">
+          {summary.map((row) => (
+            <span
+              key={`${row.stage}:${row.reason}`}
+              className="rounded-full bg-white/5 px-3 py-1 text-xs text-zinc-400"
+            >
+              {STAGE_LABELS[row.stage] || row.stage} · {row.reason}: {row.count}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {rejections.length === 0 ? (
+        <div className="surface-subtle p-6 text-sm text-zinc-500">
+          No filtered discussions yet. They appear here after the auto-poster
+          drops discussions for this website.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {rejections.map((rejection) => (
+            <div
+              key={`${rejection.reddit_post_id}:${rejection.stage}`}
+              className="surface-subtle p-4"
+            >
+              <span className="font-medium text-zinc-50">
+                {rejection.post_title || rejection.reddit_post_id}
+              </span>
+              <p className="mt-1 text-sm text-zinc-500">
+                {rejection.subreddit && <>r/{rejection.subreddit} · </>}
+                {STAGE_LABELS[rejection.stage] || rejection.stage} ·{' '}
+                <span className="text-zinc-400">{rejection.reason}</span> ·{' '}
+                {new Date(rejection.last_seen_at).toLocaleString()}
+              </p>
+              {rejection.detail && (
+                <p className="mt-2 line-clamp-2 text-sm text-zinc-600">
+                  {rejection.detail}
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
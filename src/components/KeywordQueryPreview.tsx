@@ -0,0 +1,141 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  applyKeywordPrefilter,
+  matchesKeywordQuery,
+  parseKeywordQuery,
+} from '@/lib/keywordQuery';
+
+interface KeywordQueryPreviewProps {
+  targetKeywords: string[];
+  negativeKeywords: string[];
+  // Target keywords only filter when the config requires one to match
+  requireTargetKeyword: boolean;
+}
+
+function describeKeywords(
+  keywords: string[],
+  text: { title: string; body: string }
+) {
+  return keywords.map((keyword) => {
+    const result = parseKeywordQuery(keyword);
+    return result.ok
+      ? { keyword, matched: matchesKeywordQuery(result.query, text) }
+      : { keyword, error: result.error };
+  });
+}
+
+export default function KeywordQueryPreview({
+  targetKeywords,
+  negativeKeywords,
+  requireTargetKeyword,
+}: KeywordQueryPreviewProps) {
+  const [title, setTitle] = useState('');
+  const [body, setBody] = useState('');
+
+  const preview = useMemo(() => {
+    const text = { title, body };
+    const { passed, rejected } = applyKeywordPrefilter(
+      [{ title, content: body }],
+      {
+        targetKeywords: requireTargetKeyword ? targetKeywords : [],
+        negativeKeywords,
+      }
+    );
+    return {
+      passed: passed.length > 0,
+      reason: rejected[0]?.reason,
+      target: describeKeywords(targetKeywords, text),
+      negative: describeKeywords(negativeKeywords, text),
+    };
+  }, [title, body, targetKeywords, negativeKeywords, requireTargetKeyword]);
+
+  const hasSample = title.trim() || body.trim();
+
+  const renderKeywords = (
+    items: ReturnType<typeof describeKeywords>,
+    matchClass: string
+  ) =>
+    items.map((item, index) => (
+      <span
+        key={index}
+        title={item.error}
+        className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs ${
+          item.error
+            ? 'bg-yellow-500/15 text-yellow-200 line-through'
+            : item.matched
+              ? matchClass
+              : 'bg-gray-600 text-gray-400'
+        }`}
+      >
+        {item.keyword}
+      </span>
+    ));
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4">
+      <label className="block text-sm font-medium text-gray-300 mb-1">
+        Keyword Match Preview
+      </label>
+      <p className="text-xs text-gray-400 mb-3">
+        Paste a Reddit post to see which keywords match. Posts that hit a
+        negative keyword are skipped before AI scoring, and so are posts that
+        miss every target keyword when a match is required. Supports{' '}
+        <code>&quot;exact phrase&quot;</code>, <code>AND</code>, <code>OR</code>
+        , <code>NOT</code> or <code>-word</code>, <code>invoic*</code>{' '}
+        wildcards, parentheses, and <code>title:</code> / <code>body:</code>{' '}
+        prefixes.
+      </p>
+
+      <input
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Post title"
+        className="w-full mb-2 px-3 py-2 bg-gray-600 border border-gray-500 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#7c6cff]"
+      />
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Post body"
+        rows={3}
+        className="w-full mb-3 px-3 py-2 bg-gray-600 border border-gray-500 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-[#7c6cff]"
+      />
+
+      {hasSample && (
+        <div
+          className={`text-sm mb-3 ${preview.passed ? 'text-green-300' : 'text-red-300'}`}
+        >
+          {preview.passed
+            ? 'Passes the keyword filter and would be scored'
+            : preview.reason === 'negative_keyword'
+              ? 'Skipped: matches a negative keyword'
+              : 'Skipped: no target keyword matches'}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        {preview.target.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-400">Target:</span>
+            {renderKeywords(preview.target, 'bg-blue-500/25 text-blue-100')}
+          </div>
+        )}
+        {preview.negative.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-400">Negative:</span>
+            {renderKeywords(preview.negative, 'bg-red-500/25 text-red-100')}
+          </div>
+        )}
+        {preview.target.some((item) => item.error) ||
+        preview.negative.some((item) => item.error) ? (
+          <p className="text-xs text-yellow-300">
+            Struck-through keywords have a syntax error and are ignored. Hover
+            for details.
+          </p>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import {
+  PaginationState,
+  RedditPaginationManager,
+} from '../lib/redditPagination';
+
+interface PaginationStatePanelProps {
+  userId: string;
+}
+
+interface ConfigSummary {
+  id: string;
+  website_url: string;
+}
+
+function formatRelativeTime(timestamp: string): string {
+  const minutes = Math.round(
+    (Date.now() - new Date(timestamp).getTime()) / 60000
+  );
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes}m ago`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+function describeState(state: PaginationState): string {
+  if (state.should_reset) return 'Reset pending';
+  if (!state.after) return 'Back at page 1 next run';
+  return 'Continuing deeper';
+}
+
+export default function PaginationStatePanel({
+  userId,
+}: PaginationStatePanelProps) {
+  const [states, setStates] = useState<PaginationState[]>([]);
+  const [configs, setConfigs] = useState<ConfigSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [resetting, setResetting] = useState<string | null>(null);
+
+  const loadStates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [statesResponse, configsResponse] = await Promise.all([
+        fetch('/api/reddit/pagination?action=all'),
+        fetch('/api/website-config'),
+      ]);
+      const statesData = await statesResponse.json();
+      const configsData = await configsResponse.json();
+      if (statesResponse.ok) setStates(statesData.states || []);
+      if (configsResponse.ok) setConfigs(configsData.configs || []);
+    } catch (error) {
+      console.error('Error loading pagination states:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    void loadStates();
+  }, [loadStates]);
+
+  const resetSubreddit = async (configId: string, state: PaginationState) => {
+    const key = `${configId}:${state.subreddit}:${state.listing_mode || ''}`;
+    setResetting(key);
+    const manager = new RedditPaginationManager(userId, configId);
+    const success = await manager.resetPaginationState(
+      state.subreddit,
+      state.listing_mode
+    );
+    setResetting(null);
+    if (!success) alert(`Failed to reset r/${state.subreddit}`);
+    await loadStates();
+  };
+
+  const resetConfig = async (configId: string, label: string) => {
+    if (!confirm(`Reset pagination for every subreddit in ${label}?`)) return;
+    setResetting(configId);
+    const manager = new RedditPaginationManager(userId, configId);
+    const success = await manager.resetAllPaginationStates();
+    setResetting(null);
+    if (!success) alert('Failed to reset pagination');
+    await loadStates();
+  };
+
+  const groups = states.reduce<Record<string, PaginationState[]>>(
+    (acc, state) => {
+      const configId = state.auto_poster_config_id || '';
+      (acc[configId] = acc[configId] || []).push(state);
+      return acc;
+    },
+    {}
+  );
+
+  return (
+    <section className="surface-card p-6">
+      <div className="mb-5 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-zinc-50">
+            Subreddit pagination
+          </h2>
+          <p className="mt-1 text-sm text-zinc-500">
+            How deep each auto-poster has paged into its subreddits. Reset a
+            subreddit when a config keeps reporting that every fetched
+            discussion was already posted.
+          </p>
+        </div>
+        <button
+          onClick={() => void loadStates()}
+          className="ui-button-secondary"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="surface-subtle p-6 text-sm text-zinc-500">
+          Loading...
+        </div>
+      ) : Object.keys(groups).length === 0 ? (
+        <div className="surface-subtle p-6 text-sm text-zinc-500">
+          No pagination state yet. It is created when an auto-poster first
+          fetches a subreddit.
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {Object.entries(groups).map(([configId, configStates]) => {
+            const label =
+              configs.find((config) => config.id === configId)?.website_url ||
+              (configId ? `Config ${configId.slice(0, 8)}` : 'Unassigned');
+            return (
+              <div key={configId || 'none'}>
+                <div className="mb-2 flex items-center justify-between">
+                  <h3 className="font-medium text-zinc-50">{label}</h3>
+                  {configId && (
+                    <button
+                      onClick={() => void resetConfig(configId, label)}
+                      disabled={resetting === configId}
+                      className="ui-button-danger"
+                    >
+                      {resetting === configId ? 'Resetting...' : 'Reset all'}
+                    </button>
+                  )}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-left text-sm">
+                    <thead className="text-xs uppercase tracking-[0.2em] text-zinc-500">
+                      <tr>
+                        <th className="py-2 pr-4">Subreddit</th>
+                        <th className="py-2 pr-4">Mode</th>
+                        <th className="py-2 pr-4">Pages</th>
+                        <th className="py-2 pr-4">Fetched</th>
+                        <th className="py-2 pr-4">Last fetch</th>
+                        <th className="py-2 pr-4">Status</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody className="text-zinc-300">
+                      {configStates.map((state) => {
+                        const key = `${configId}:${state.subreddit}:${state.listing_mode || ''}`;
+                        return (
+                          <tr key={key} className="border-t border-white/10">
+                            <td className="py-2 pr-4">r/{state.subreddit}</td>
+                            <td className="py-2 pr-4">
+                              {state.listing_mode || 'hot'}
+                            </td>
+                            <td className="py-2 pr-4">
+                              {state.pages_processed || 0}
+                            </td>
+                            <td className="py-2 pr-4">
+                              {state.total_fetched || 0}
+                            </td>
+                            <td className="py-2 pr-4">
+                              {formatRelativeTime(state.last_fetched)}
+                            </td>
+                            <td className="py-2 pr-4 text-zinc-500">
+                              {describeState(state)}
+                            </td>
+                            <td className="py-2 text-right">
+                              {configId && (
+                                <button
+                                  onClick={() =>
+                                    void resetSubreddit(configId, state)
+                                  }
+                                  disabled={resetting === key}
+                                  className="ui-button-secondary"
+                                >
+                                  {resetting === key ? 'Resetting...' : 'Reset'}
+                                </button>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,221 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { WebsiteConfig } from '../lib/relevanceFiltering';
+import type {
+  FeedbackAgreementBucket,
+  RelevanceFeedbackLabel,
+  ScoredDiscussion,
+} from '../lib/relevanceFeedback';
+
+interface RelevanceFeedbackPanelProps {
+  websiteConfigs: WebsiteConfig[];
+}
+
+export default function RelevanceFeedbackPanel({
+  websiteConfigs,
+}: RelevanceFeedbackPanelProps) {
+  const [configId, setConfigId] = useState(websiteConfigs[0]?.id || '');
+  const [discussions, setDiscussions] = useState<ScoredDiscussion[]>([]);
+  const [agreement, setAgreement] = useState<FeedbackAgreementBucket[]>([]);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const loadFeedback = useCallback(async () => {
+    if (!configId) return;
+    const response = await fetch(
+      `/api/website-config/relevance-feedback?configId=${encodeURIComponent(configId)}`
+    );
+    const data = await response.json();
+    if (response.ok) {
+      setDiscussions(data.discussions || []);
+      setAgreement(data.agreement || []);
+    }
+  }, [configId]);
+
+  useEffect(() => {
+    if (!configId && websiteConfigs.length) setConfigId(websiteConfigs[0].id);
+  }, [configId, websiteConfigs]);
+
+  useEffect(() => {
+    void loadFeedback();
+  }, [loadFeedback]);
+
+  const setLabel = async (
+    discussion: ScoredDiscussion,
+    label: RelevanceFeedbackLabel
+  ) => {
+    setBusy(discussion.reddit_post_id);
+    try {
+      const response = await fetch('/api/website-config/relevance-feedback', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          configId,
+          redditPostId: discussion.reddit_post_id,
+          // Clicking the current label again clears it
+          label: discussion.feedback_label === label ? null : label,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) alert(data.error || 'Failed to save feedback');
+    } catch (error) {
+      console.error('Failed to save relevance feedback:', error);
+    } finally {
+      setBusy(null);
+      await loadFeedback();
+    }
+  };
+
+  const labeledCount = discussions.filter(
+    (discussion) => discussion.feedback_label
+  ).length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-zinc-50">
+            Relevance feedback
+          </h3>
+          <p className="text-sm text-zinc-500">
+            Mark scored discussions as relevant or not. Your labels are shown to
+            the model as examples when it scores new discussions.
+          </p>
+        </div>
+        <select
+          value={configId}
+          onChange={(e) => setConfigId(e.target.value)}
+          className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+        >
+          {websiteConfigs.map((config) => (
+            <option key={config.id} value={config.id}>
+              {config.website_url || config.url}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="surface-subtle p-4">
+        <h4 className="text-sm font-medium text-zinc-50">
+          Model agreement with your labels
+        </h4>
+        {agreement.length === 0 ? (
+          <p className="mt-2 text-sm text-zinc-500">
+            Label a few discussions to see how often the model agrees with you.
+          </p>
+        ) : (
+          <div className="mt-3 space-y-2">
+            {agreement.map((bucket) => (
+              <div
+                key={bucket.weekStart}
+                className="flex items-center gap-3 text-sm"
+              >
+                <span className="w-28 text-zinc-500">
+                  Week of {bucket.weekStart}
+                </span>
+                <div className="h-2 flex-1 rounded-full bg-white/5">
+                  <div
+                    className="h-2 rounded-full bg-emerald-400"
+                    style={{
+                      width: `${Math.round(bucket.agreementRate * 100)}%`,
+                    }}
+                  />
+                </div>
+                <span className="w-32 text-right text-zinc-400">
+                  {Math.round(bucket.agreementRate * 100)}% of {bucket.labeled}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {discussions.length === 0 ? (
+        <div className="surface-subtle p-6 text-sm text-zinc-500">
+          No scored discussions yet. They appear here after the auto-poster
+          scores discussions for this website.
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <p className="text-sm text-zinc-500">
+            {labeledCount} of {discussions.length} recent discussions labeled
+          </p>
+          {discussions.map((discussion) => {
+            const passed =
+              discussion.final_score >= discussion.relevance_threshold;
+            return (
+              <div
+                key={discussion.reddit_post_id}
+                className="surface-subtle p-4"
+              >
+                <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-between">
+                  <div className="flex-1">
+                    {discussion.post_url ? (
+                      <a
+                        href={discussion.post_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="font-medium text-zinc-50 underline-offset-4 hover:underline"
+                      >
+                        {discussion.post_title}
+                      </a>
+                    ) : (
+                      <span className="font-medium text-zinc-50">
+                        {discussion.post_title}
+                      </span>
+                    )}
+                    <p className="mt-1 text-sm text-zinc-500">
+                      r/{discussion.subreddit} · score {discussion.final_score}{' '}
+                      / {discussion.relevance_threshold} ·{' '}
+                      {discussion.lexical_score !== null && (
+                        <>lexical {discussion.lexical_score} · </>
+                      )}
+                      <span
+                        className={
+                          passed ? 'text-emerald-400' : 'text-zinc-600'
+                        }
+                      >
+                        {passed ? 'model: relevant' : 'model: skipped'}
+                      </span>
+                    </p>
+                    {discussion.reasoning && (
+                      <p className="mt-2 line-clamp-2 text-sm text-zinc-600">
+                        {discussion.reasoning}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => void setLabel(discussion, 'relevant')}
+                      disabled={busy !== null}
+                      title="Relevant"
+                      className={
+                        discussion.feedback_label === 'relevant'
+                          ? 'ui-button-primary'
+                          : 'ui-button-secondary'
+                      }
+                    >
+                      👍
+                    </button>
+                    <button
+                      onClick={() => void setLabel(discussion, 'not_relevant')}
+                      disabled={busy !== null}
+                      title="Not relevant"
+                      className={
+                        discussion.feedback_label === 'not_relevant'
+                          ? 'ui-button-primary'
+                          : 'ui-button-secondary'
+                      }
+                    >
+                      👎
+                    </button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
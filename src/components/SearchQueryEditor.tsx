@@ -0,0 +1,210 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { WebsiteConfigSearchQuery } from '@/lib/websiteConfigCollections';
+
+interface SearchQueryEditorProps {
+  configId?: string;
+  queries: WebsiteConfigSearchQuery[];
+  onChange: (queries: WebsiteConfigSearchQuery[]) => void;
+  websiteDescription: string;
+  customerSegments: string[];
+  businessContextTerms: string[];
+  targetKeywords: string[];
+}
+
+interface QueryYield {
+  query: string;
+  runs: number;
+  relevant: number;
+  posted: number;
+  backedOff: boolean;
+}
+
+export default function SearchQueryEditor({
+  configId,
+  queries,
+  onChange,
+  websiteDescription,
+  customerSegments,
+  businessContextTerms,
+  targetKeywords,
+}: SearchQueryEditorProps) {
+  const [generating, setGenerating] = useState(false);
+  const [newQuery, setNewQuery] = useState('');
+  const [yields, setYields] = useState<Record<string, QueryYield>>({});
+
+  useEffect(() => {
+    if (!configId) return;
+
+    const loadYields = async () => {
+      try {
+        const response = await fetch(
+          `/api/website-config/search-queries?configId=${encodeURIComponent(configId)}`
+        );
+        const data = await response.json();
+        if (!response.ok) return;
+        const byQuery: Record<string, QueryYield> = {};
+        for (const row of data.queries || []) byQuery[row.query] = row;
+        setYields(byQuery);
+      } catch (error) {
+        console.error('Error loading query yield:', error);
+      }
+    };
+
+    void loadYields();
+  }, [configId]);
+
+  const regenerate = async () => {
+    const locked = queries.filter((entry) => entry.locked);
+    setGenerating(true);
+    try {
+      const response = await fetch('/api/website-config/search-queries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          websiteDescription,
+          customerSegments,
+          businessContextTerms,
+          targetKeywords,
+          lockedQueries: locked.map((entry) => entry.query),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate search queries');
+      }
+
+      onChange([
+        ...locked,
+        ...(data.queries || []).map((query: string) => ({
+          query,
+          locked: false,
+        })),
+      ]);
+    } catch (error) {
+      console.error('Error generating search queries:', error);
+      alert(
+        error instanceof Error
+          ? error.message
+          : 'Failed to generate search queries'
+      );
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const updateQuery = (
+    index: number,
+    changes: Partial<WebsiteConfigSearchQuery>
+  ) =>
+    onChange(
+      queries.map((entry, i) =>
+        i === index ? { ...entry, ...changes } : entry
+      )
+    );
+
+  const addQuery = () => {
+    const query = newQuery.trim();
+    if (!query || queries.some((entry) => entry.query === query)) return;
+    onChange([...queries, { query, locked: true }]);
+    setNewQuery('');
+  };
+
+  return (
+    <div className="bg-gray-700 rounded-lg p-4">
+      <div className="flex items-center justify-between mb-1">
+        <label className="block text-sm font-medium text-gray-300">
+          Search Queries
+        </label>
+        <button
+          onClick={regenerate}
+          disabled={generating || !websiteDescription.trim()}
+          className="px-3 py-1 bg-purple-600 text-white rounded-md hover:bg-purple-700 text-xs disabled:opacity-50"
+        >
+          {generating
+            ? 'Generating...'
+            : queries.length > 0
+              ? 'Regenerate unlocked'
+              : 'Generate with AI'}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mb-3">
+        The auto-poster searches Reddit with one of these per run, rotating
+        through the set. Lock the ones you want to keep; regenerating only
+        replaces unlocked queries. Without any, queries are built from your
+        keywords and segments.
+      </p>
+
+      <div className="space-y-2 mb-3">
+        {queries.map((entry, index) => {
+          const stats = yields[entry.query];
+          return (
+            <div key={index} className="flex items-center gap-2">
+              <button
+                onClick={() => updateQuery(index, { locked: !entry.locked })}
+                title={entry.locked ? 'Unlock' : 'Lock'}
+                className={`px-2 py-1 rounded text-xs ${
+                  entry.locked
+                    ? 'bg-yellow-500/20 text-yellow-200'
+                    : 'bg-gray-600 text-gray-400'
+                }`}
+              >
+                {entry.locked ? 'Locked' : 'Lock'}
+              </button>
+              <input
+                type="text"
+                value={entry.query}
+                onChange={(e) => updateQuery(index, { query: e.target.value })}
+                className="flex-1 px-3 py-1 bg-gray-600 border border-gray-500 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              {stats && stats.runs > 0 && (
+                <span
+                  className={`text-xs whitespace-nowrap ${
+                    stats.backedOff ? 'text-orange-300' : 'text-gray-400'
+                  }`}
+                  title={
+                    stats.backedOff
+                      ? 'Skipped for now after several runs with no relevant posts'
+                      : undefined
+                  }
+                >
+                  {stats.relevant} relevant / {stats.posted} posted in{' '}
+                  {stats.runs} runs
+                </span>
+              )}
+              <button
+                onClick={() => onChange(queries.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-white"
+              >
+                ×
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newQuery}
+          onChange={(e) => setNewQuery(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              addQuery();
+            }
+          }}
+          placeholder="Add your own query..."
+          className="flex-1 px-3 py-2 bg-gray-600 border border-gray-500 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+        <button
+          onClick={addQuery}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 text-sm"
+        >
+          Add
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { WebsiteConfig } from '../lib/relevanceFiltering';
+import type { ThresholdCalibration } from '../lib/relevanceThreshold';
+
+interface ThresholdCalibrationPanelProps {
+  websiteConfigs: WebsiteConfig[];
+}
+
+// Mirrors the route's WINDOW_OPTIONS
+const WINDOW_OPTIONS = [7, 30, 90];
+
+export default function ThresholdCalibrationPanel({
+  websiteConfigs,
+}: ThresholdCalibrationPanelProps) {
+  const [configId, setConfigId] = useState(websiteConfigs[0]?.id || '');
+  const [windowDays, setWindowDays] = useState(30);
+  const [calibration, setCalibration] = useState<ThresholdCalibration | null>(
+    null
+  );
+
+  const loadCalibration = useCallback(async () => {
+    if (!configId) return;
+    const response = await fetch(
+      `/api/website-config/threshold-calibration?configId=${encodeURIComponent(configId)}&days=${windowDays}`
+    );
+    const data = await response.json();
+    if (response.ok) setCalibration(data.calibration);
+  }, [configId, windowDays]);
+
+  useEffect(() => {
+    if (!configId && websiteConfigs.length) setConfigId(websiteConfigs[0].id);
+  }, [configId, websiteConfigs]);
+
+  useEffect(() => {
+    void loadCalibration();
+  }, [loadCalibration]);
+
+  const maxBucket = Math.max(
+    1,
+    ...(calibration?.distribution || []).map((bucket) => bucket.count)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-4 md:flex-row md:items-end md:justify-between">
+        <div>
+          <h3 className="text-lg font-medium text-zinc-50">
+            Threshold calibration
+          </h3>
+          <p className="text-sm text-zinc-500">
+            Scores run from 0 to 100, and a discussion is replied to when its
+            score is at least the threshold. See how your recent scores are
+            spread and how many posts each threshold would have let through.
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={configId}
+            onChange={(e) => setConfigId(e.target.value)}
+            className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+          >
+            {websiteConfigs.map((config) => (
+              <option key={config.id} value={config.id}>
+                {config.website_url || config.url}
+              </option>
+            ))}
+          </select>
+          <select
+            value={windowDays}
+            onChange={(e) => setWindowDays(Number(e.target.value))}
+            className="rounded-xl border border-white/10 bg-zinc-950 px-3 py-2 text-zinc-100"
+          >
+            {WINDOW_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                Last {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {!calibration || calibration.scored === 0 ? (
+        <div className="surface-subtle p-6 text-sm text-zinc-500">
+          No discussions were scored for this website in the last {windowDays}{' '}
+          days.
+        </div>
+      ) : (
+        <>
+          <div className="surface-subtle p-4">
+            <h4 className="text-sm font-medium text-zinc-50">
+              Score distribution ({calibration.scored} discussions)
+            </h4>
+            <div className="mt-4 flex h-40 items-end gap-2">
+              {calibration.distribution.map((bucket) => (
+                <div
+                  key={bucket.min}
+                  className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+                >
+                  <span className="text-xs text-zinc-500">{bucket.count}</span>
+                  <div
+                    className={`w-full rounded-t ${bucket.min >= calibration.currentThreshold ? 'bg-emerald-400' : bucket.max > calibration.currentThreshold ? 'bg-amber-400' : 'bg-zinc-600'}`}
+                    style={{ height: `${(bucket.count / maxBucket) * 100}%` }}
+                  />
+                  <span className="text-xs text-zinc-600">{bucket.min}</span>
+                </div>
+              ))}
+            </div>
+            <p className="mt-3 text-xs text-zinc-500">
+              Current threshold: {calibration.currentThreshold}. Green buckets
+              are fully above it; amber ones contain it.
+            </p>
+          </div>
+
+          <div className="surface-subtle overflow-x-auto p-4">
+            <table className="w-full text-left text-sm">
+              <thead className="text-zinc-500">
+                <tr>
+                  <th className="py-2 pr-4 font-medium">Threshold</th>
+                  <th className="py-2 pr-4 font-medium">Allowed</th>
+                  <th className="py-2 pr-4 font-medium">Share</th>
+                  <th className="py-2 font-medium">Labeled relevant</th>
+                </tr>
+              </thead>
+              <tbody>
+                {calibration.candidates.map((candidate) => (
+                  <tr
+                    key={candidate.threshold}
+                    className={
+                      candidate.threshold === calibration.currentThreshold
+                        ? 'text-zinc-50'
+                        : 'text-zinc-400'
+                    }
+                  >
+                    <td className="py-1 pr-4">
+                      {candidate.threshold}
+                      {candidate.threshold === calibration.currentThreshold &&
+                        ' (current)'}
+                    </td>
+                    <td className="py-1 pr-4">{candidate.allowed}</td>
+                    <td className="py-1 pr-4">
+                      {Math.round(candidate.allowedShare * 100)}%
+                    </td>
+                    <td className="py-1">
+                      {candidate.labeled > 0
+                        ? `${candidate.labeledRelevant} of ${candidate.labeled}`
+                        : '-'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="mt-3 text-xs text-zinc-500">
+              Change the threshold under Website Configs. Labels come from the
+              Relevance Feedback tab.
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
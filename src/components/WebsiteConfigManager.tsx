@@ -350,7 +350,7 @@ export default function WebsiteConfigManager({
       {/* Relevance Threshold */}
       <div>
         <label className="block text-sm font-medium text-gray-300 mb-2">
-          Relevance Threshold: {config.relevance_threshold}%
+          Relevance Threshold: {config.relevance_threshold}/100
         </label>
         <input
           type="range"
@@ -2,6 +2,36 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useUser } from '@clerk/nextjs';
+import {
+  DEFAULT_LISTING_MODE,
+  LISTING_MODE_OPTIONS,
+} from '@/lib/redditListingModes';
+import {
+  DEFAULT_ELIGIBILITY_SETTINGS,
+  EligibilitySettings,
+} from '@/lib/discussionEligibility';
+import {
+  AuthorFilterSettings,
+  DEFAULT_AUTHOR_FILTER_SETTINGS,
+} from '@/lib/authorFilters';
+import {
+  DEFAULT_ALLOWED_LANGUAGES,
+  LanguageCode,
+  SUPPORTED_LANGUAGES,
+} from '@/lib/languageDetection';
+import type { SubredditRecommendation } from '@/lib/subredditRecommendations';
+import type { SubredditPromotionPolicy } from '@/lib/subredditPromotionPolicy';
+import type { WebsiteConfigSearchQuery } from '@/lib/websiteConfigCollections';
+import KeywordQueryPreview from './KeywordQueryPreview';
+import SearchQueryEditor from './SearchQueryEditor';
+
+const PROMOTION_POLICY_STYLES: Record<SubredditPromotionPolicy, string> = {
+  forbidden: 'bg-red-500/20 text-red-700',
+  megathread_only: 'bg-orange-500/20 text-orange-700',
+  disclosure_required: 'bg-yellow-500/30 text-yellow-800',
+  allowed: 'bg-green-500/20 text-green-700',
+  unknown: 'bg-gray-500/20 text-gray-700',
+};
 
 interface WebsiteConfig {
   id: string;
@@ -12,6 +42,13 @@ interface WebsiteConfig {
   customer_segments: string[];
   target_keywords: string[];
   target_subreddits?: string[];
+  listing_modes?: string[];
+  comment_discovery?: boolean;
+  require_target_keyword?: boolean;
+  eligibility_settings?: EligibilitySettings;
+  search_queries?: WebsiteConfigSearchQuery[];
+  allowed_languages?: LanguageCode[];
+  author_filter_settings?: AuthorFilterSettings;
   negative_keywords: string[];
   business_context_terms: string[];
   relevance_threshold: number;
@@ -20,6 +57,17 @@ interface WebsiteConfig {
   updated_at: string;
 }
 
+const ELIGIBILITY_TOGGLES: {
+  key: Exclude<keyof EligibilitySettings, 'maxAgeHours'>;
+  label: string;
+}[] = [
+  { key: 'skipLocked', label: 'Locked threads' },
+  { key: 'skipArchived', label: 'Archived threads' },
+  { key: 'skipRemoved', label: 'Removed or deleted' },
+  { key: 'skipNsfw', label: 'NSFW (over 18)' },
+  { key: 'skipStickied', label: 'Stickied posts' },
+];
+
 interface WebsiteConfigManagerProps {
   productId?: string;
   onConfigSaved?: () => void;
@@ -41,6 +89,7 @@ export default function WebsiteConfigManagerStepByStep({
     customer_segments: [],
     target_keywords: [],
     target_subreddits: [],
+    listing_modes: [DEFAULT_LISTING_MODE],
     negative_keywords: [],
     business_context_terms: [],
     relevance_threshold: 70,
@@ -57,6 +106,21 @@ export default function WebsiteConfigManagerStepByStep({
   const [newNegativeKeyword, setNewNegativeKeyword] = useState('');
   const [newBusinessTerm, setNewBusinessTerm] = useState('');
   const [newSubreddit, setNewSubreddit] = useState('');
+  const [subredditSuggestions, setSubredditSuggestions] = useState<
+    SubredditRecommendation[]
+  >([]);
+  const [suggestingSubreddits, setSuggestingSubreddits] = useState(false);
+  const [subredditPolicies, setSubredditPolicies] = useState<
+    Record<
+      string,
+      {
+        promotionPolicy: SubredditPromotionPolicy;
+        label: string;
+        evidence: string | null;
+        notAllowedUntil?: string | null;
+      }
+    >
+  >({});
 
   const handleDeleteConfig = async (configId: string) => {
     if (
@@ -80,6 +144,7 @@ export default function WebsiteConfigManagerStepByStep({
           customer_segments: [],
           target_keywords: [],
           target_subreddits: [],
+          listing_modes: [DEFAULT_LISTING_MODE],
           negative_keywords: [],
           business_context_terms: [],
           relevance_threshold: 70,
@@ -172,6 +237,82 @@ export default function WebsiteConfigManagerStepByStep({
     }
   };
 
+  // Look up the self-promotion stance of subreddits we have not checked yet
+  useEffect(() => {
+    const unchecked = (config.target_subreddits || [])
+      .map((name) => name.toLowerCase())
+      .filter((name) => !subredditPolicies[name]);
+    if (unchecked.length === 0) return;
+
+    const loadPolicies = async () => {
+      try {
+        const response = await fetch(
+          `/api/website-config/subreddit-rules?subreddits=${encodeURIComponent(unchecked.join(','))}`
+        );
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load subreddit rules');
+        }
+        // Names missing from the response still count as checked
+        const policies = { ...data.policies };
+        for (const name of unchecked) {
+          policies[name] = policies[name] || {
+            promotionPolicy: 'unknown',
+            label: 'Rules not checked',
+            evidence: null,
+          };
+        }
+        setSubredditPolicies((prev) => ({ ...prev, ...policies }));
+      } catch (error) {
+        console.error('Error loading subreddit rules:', error);
+      }
+    };
+
+    void loadPolicies();
+  }, [config.target_subreddits, subredditPolicies]);
+
+  const suggestSubreddits = async () => {
+    setSuggestingSubreddits(true);
+    try {
+      const response = await fetch(
+        '/api/website-config/subreddit-recommendations',
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            websiteDescription: config.website_description || '',
+            customerSegments: config.customer_segments || [],
+            targetKeywords: config.target_keywords || [],
+            targetSubreddits: config.target_subreddits || [],
+          }),
+        }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to suggest subreddits');
+      }
+
+      setSubredditSuggestions(data.recommendations || []);
+      if ((data.recommendations || []).length === 0) {
+        alert('No new subreddit suggestions found. Try adding more keywords.');
+      }
+    } catch (error) {
+      console.error('Error suggesting subreddits:', error);
+      alert(
+        error instanceof Error ? error.message : 'Failed to suggest subreddits'
+      );
+    } finally {
+      setSuggestingSubreddits(false);
+    }
+  };
+
+  const acceptSubredditSuggestion = (subreddit: string) => {
+    handleAddItem('target_subreddits', subreddit, () => {});
+    setSubredditSuggestions((prev) =>
+      prev.filter((suggestion) => suggestion.subreddit !== subreddit)
+    );
+  };
+
   const handleSave = async () => {
     if (!config.website_url || !config.website_description) {
       alert('Website URL and description are required');
@@ -204,6 +345,15 @@ export default function WebsiteConfigManagerStepByStep({
         customerSegments: config.customer_segments || [],
         targetKeywords: config.target_keywords || [],
         targetSubreddits: config.target_subreddits || [],
+        listingModes: config.listing_modes || [],
+        commentDiscovery: config.comment_discovery || false,
+        requireTargetKeyword: config.require_target_keyword || false,
+        eligibilitySettings:
+          config.eligibility_settings || DEFAULT_ELIGIBILITY_SETTINGS,
+        searchQueries: config.search_queries || [],
+        allowedLanguages: config.allowed_languages || DEFAULT_ALLOWED_LANGUAGES,
+        authorFilterSettings:
+          config.author_filter_settings || DEFAULT_AUTHOR_FILTER_SETTINGS,
         negativeKeywords: config.negative_keywords || [],
         businessContextTerms: config.business_context_terms || [],
         relevanceThreshold: config.relevance_threshold || 70,
@@ -254,6 +404,31 @@ export default function WebsiteConfigManagerStepByStep({
     }));
   };
 
+  const updateEligibilitySetting = <K extends keyof EligibilitySettings>(
+    key: K,
+    value: EligibilitySettings[K]
+  ) => {
+    setConfig((prev) => ({
+      ...prev,
+      eligibility_settings: {
+        ...(prev.eligibility_settings || DEFAULT_ELIGIBILITY_SETTINGS),
+        [key]: value,
+      },
+    }));
+  };
+
+  const toggleListingMode = (mode: string) => {
+    setConfig((prev) => {
+      const currentModes = prev.listing_modes || [];
+      return {
+        ...prev,
+        listing_modes: currentModes.includes(mode)
+          ? currentModes.filter((item) => item !== mode)
+          : [...currentModes, mode],
+      };
+    });
+  };
+
   const renderStep1 = () => (
     <div className="space-y-6">
       <div className="text-center">
@@ -455,6 +630,36 @@ export default function WebsiteConfigManagerStepByStep({
                 className="inline-flex items-center px-3 py-1 bg-cyan-100 text-cyan-900 rounded-full text-sm"
               >
                 r/{subreddit}
+                {subredditPolicies[subreddit.toLowerCase()] && (
+                  <span
+                    title={
+                      subredditPolicies[subreddit.toLowerCase()].evidence ||
+                      undefined
+                    }
+                    className={`ml-2 px-2 py-0.5 rounded-full text-xs ${
+                      PROMOTION_POLICY_STYLES[
+                        subredditPolicies[subreddit.toLowerCase()]
+                          .promotionPolicy
+                      ]
+                    }`}
+                  >
+                    {subredditPolicies[subreddit.toLowerCase()].label}
+                  </span>
+                )}
+                {subredditPolicies[subreddit.toLowerCase()]
+                  ?.notAllowedUntil && (
+                  <span
+                    title="Reddit refused a comment here; the auto-poster skips it until then"
+                    className="ml-2 px-2 py-0.5 rounded-full text-xs bg-red-500/20 text-red-700"
+                  >
+                    Refused, paused until{' '}
+                    {new Date(
+                      subredditPolicies[
+                        subreddit.toLowerCase()
+                      ].notAllowedUntil!
+                    ).toLocaleDateString()}
+                  </span>
+                )}
                 <button
                   onClick={() => removeKeyword('target_subreddits', index)}
                   className="ml-2 text-cyan-700 hover:text-cyan-900"
@@ -464,6 +669,129 @@ export default function WebsiteConfigManagerStepByStep({
               </span>
             ))}
           </div>
+          {(config.target_subreddits || []).length > 0 && (
+            <p className="text-xs text-gray-400 mt-2">
+              Stances come from each subreddit&apos;s rules and sidebar. The
+              auto-poster skips subreddits with no self-promotion or
+              megathread-only rules, and adds a disclosure where one is
+              required.
+            </p>
+          )}
+
+          <div className="mt-4 pt-3 border-t border-gray-600">
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-gray-400">
+                Suggestions are ranked by how often recent posts match your
+                target keywords, topic fit, activity and size.
+              </p>
+              <button
+                onClick={suggestSubreddits}
+                disabled={suggestingSubreddits}
+                className="px-3 py-1.5 bg-gray-600 text-cyan-200 rounded-md hover:bg-gray-500 text-sm whitespace-nowrap disabled:opacity-50"
+              >
+                {suggestingSubreddits ? 'Searching...' : 'Suggest subreddits'}
+              </button>
+            </div>
+
+            {subredditSuggestions.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {subredditSuggestions.map((suggestion) => (
+                  <div
+                    key={suggestion.subreddit}
+                    className="flex items-start justify-between gap-3 p-3 bg-gray-800 rounded-md"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm text-white">
+                        r/{suggestion.subreddit}
+                        <span className="ml-2 text-xs text-cyan-300">
+                          {suggestion.score}/100
+                        </span>
+                      </div>
+                      <ul className="mt-1 text-xs text-gray-400 list-disc list-inside">
+                        {suggestion.reasons.map((reason) => (
+                          <li key={reason}>{reason}</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <button
+                      onClick={() =>
+                        acceptSubredditSuggestion(suggestion.subreddit)
+                      }
+                      className="px-3 py-1 bg-cyan-600 text-white rounded-md hover:bg-cyan-700 text-sm"
+                    >
+                      Add
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-4">
+          <div className="flex items-center gap-2 mb-2">
+            <label className="block text-sm font-medium text-gray-300">
+              Listing Modes
+            </label>
+            <div className="group relative">
+              <span className="text-gray-400 cursor-help">ℹ️</span>
+              <div className="invisible group-hover:visible absolute left-6 top-0 bg-gray-900 text-white text-xs rounded p-2 w-64 z-10">
+                The auto-poster rotates through the selected listings for each
+                subreddit and keeps separate pagination for every one.
+              </div>
+            </div>
+          </div>
+          <p className="text-xs text-gray-400 mb-3">
+            Pick New for fresh questions or Top for evergreen threads. Hot is
+            used when nothing is selected.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {LISTING_MODE_OPTIONS.map((option) => {
+              const selected = (config.listing_modes || []).includes(
+                option.value
+              );
+              return (
+                <button
+                  key={option.value}
+                  type="button"
+                  title={option.description}
+                  onClick={() => toggleListingMode(option.value)}
+                  className={`px-3 py-1 rounded-full text-sm border ${
+                    selected
+                      ? 'bg-cyan-600 border-cyan-500 text-white'
+                      : 'bg-gray-600 border-gray-500 text-gray-300 hover:bg-gray-500'
+                  }`}
+                >
+                  {option.label}
+                </button>
+              );
+            })}
+          </div>
+
+          <label className="mt-4 flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.comment_discovery || false}
+              onChange={(e) =>
+                setConfig((prev) => ({
+                  ...prev,
+                  comment_discovery: e.target.checked,
+                }))
+              }
+              className="mt-1 h-4 w-4 accent-cyan-600"
+            />
+            <span>
+              <span className="block text-sm text-gray-300">
+                Search comments inside threads
+              </span>
+              <span className="block text-xs text-gray-400">
+                Also scores questions asked in replies, such as &quot;what tool
+                do you use for X?&quot; in megathreads, and replies to the
+                comment directly.
+              </span>
+            </span>
+          </label>
         </div>
 
         {/* Customer Segments */}
@@ -595,6 +923,31 @@ export default function WebsiteConfigManagerStepByStep({
               </span>
             ))}
           </div>
+
+          <label className="mt-4 flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={config.require_target_keyword || false}
+              onChange={(e) =>
+                setConfig((prev) => ({
+                  ...prev,
+                  require_target_keyword: e.target.checked,
+                }))
+              }
+              className="mt-1 h-4 w-4 accent-[#7c6cff]"
+            />
+            <span>
+              <span className="block text-sm text-gray-300">
+                Only score posts that match a target keyword
+              </span>
+              <span className="block text-xs text-gray-400">
+                Skips posts that match none of the keywords above before AI
+                scoring. Words in a keyword must all appear in the post; wrap
+                them in quotes to require the exact phrase. Leave this off to
+                use keywords as scoring hints only.
+              </span>
+            </span>
+          </label>
         </div>
 
         {/* Business Context Terms */}
@@ -732,6 +1085,24 @@ export default function WebsiteConfigManagerStepByStep({
           </div>
         </div>
 
+        <KeywordQueryPreview
+          targetKeywords={config.target_keywords || []}
+          negativeKeywords={config.negative_keywords || []}
+          requireTargetKeyword={config.require_target_keyword || false}
+        />
+
+        <SearchQueryEditor
+          configId={config.id}
+          queries={config.search_queries || []}
+          onChange={(searchQueries) =>
+            setConfig((prev) => ({ ...prev, search_queries: searchQueries }))
+          }
+          websiteDescription={config.website_description || ''}
+          customerSegments={config.customer_segments || []}
+          businessContextTerms={config.business_context_terms || []}
+          targetKeywords={config.target_keywords || []}
+        />
+
         {/* Scoring Logic Explanation */}
         <div className="bg-blue-900/30 border border-blue-700 rounded-lg p-4">
           <h4 className="text-sm font-medium text-blue-300 mb-2">
@@ -779,6 +1150,35 @@ export default function WebsiteConfigManagerStepByStep({
     );
   };
 
+  const eligibilitySettings =
+    config.eligibility_settings || DEFAULT_ELIGIBILITY_SETTINGS;
+  const allowedLanguages =
+    config.allowed_languages || DEFAULT_ALLOWED_LANGUAGES;
+
+  const authorFilterSettings =
+    config.author_filter_settings || DEFAULT_AUTHOR_FILTER_SETTINGS;
+
+  const updateAuthorFilterSetting = <K extends keyof AuthorFilterSettings>(
+    key: K,
+    value: AuthorFilterSettings[K]
+  ) => {
+    setConfig((prev) => ({
+      ...prev,
+      author_filter_settings: {
+        ...(prev.author_filter_settings || DEFAULT_AUTHOR_FILTER_SETTINGS),
+        [key]: value,
+      },
+    }));
+  };
+
+  const toggleLanguage = (language: LanguageCode, enabled: boolean) => {
+    const next = enabled
+      ? [...allowedLanguages, language]
+      : allowedLanguages.filter((entry) => entry !== language);
+    if (next.length === 0) return;
+    setConfig((prev) => ({ ...prev, allowed_languages: next }));
+  };
+
   const renderStep4 = () => (
     <div className="space-y-6">
       <div className="text-center">
@@ -791,7 +1191,7 @@ export default function WebsiteConfigManagerStepByStep({
       {/* Relevance Threshold */}
       <div>
         <label className="block text-sm font-medium text-gray-300 mb-2">
-          Relevance Threshold: {config.relevance_threshold}%
+          Relevance Threshold: {config.relevance_threshold}/100
         </label>
         <input
           type="range"
@@ -812,6 +1212,167 @@ export default function WebsiteConfigManagerStepByStep({
         </div>
       </div>
 
+      {/* Eligibility gate */}
+      <div className="bg-gray-700 rounded-lg p-4">
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          Skip Before Scoring
+        </label>
+        <p className="text-xs text-gray-400 mb-3">
+          Posts matching these rules are dropped before AI scoring, so no
+          credits are spent on threads you can&apos;t reply to.
+        </p>
+
+        <div className="flex items-center gap-3 mb-3">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={eligibilitySettings.maxAgeHours !== null}
+              onChange={(e) =>
+                updateEligibilitySetting(
+                  'maxAgeHours',
+                  e.target.checked
+                    ? DEFAULT_ELIGIBILITY_SETTINGS.maxAgeHours
+                    : null
+                )
+              }
+              className="h-4 w-4 accent-cyan-600"
+            />
+            Older than
+          </label>
+          <input
+            type="number"
+            min="1"
+            value={eligibilitySettings.maxAgeHours ?? ''}
+            disabled={eligibilitySettings.maxAgeHours === null}
+            onChange={(e) =>
+              updateEligibilitySetting(
+                'maxAgeHours',
+                Math.max(1, parseInt(e.target.value) || 1)
+              )
+            }
+            className="w-24 px-2 py-1 bg-gray-600 border border-gray-500 rounded-md text-white text-sm disabled:opacity-50"
+          />
+          <span className="text-sm text-gray-400">hours</span>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          {ELIGIBILITY_TOGGLES.map(({ key, label }) => (
+            <label
+              key={key}
+              className="flex items-center gap-2 text-sm text-gray-300"
+            >
+              <input
+                type="checkbox"
+                checked={eligibilitySettings[key]}
+                onChange={(e) =>
+                  updateEligibilitySetting(key, e.target.checked)
+                }
+                className="h-4 w-4 accent-cyan-600"
+              />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {/* Allowed languages */}
+      <div className="bg-gray-700 rounded-lg p-4">
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          Reply Languages
+        </label>
+        <p className="text-xs text-gray-400 mb-3">
+          Posts in other languages are skipped before scoring. Posts in an
+          enabled language other than English get a reply in that language.
+        </p>
+
+        <div className="grid grid-cols-3 gap-2">
+          {(Object.keys(SUPPORTED_LANGUAGES) as LanguageCode[]).map(
+            (language) => (
+              <label
+                key={language}
+                className="flex items-center gap-2 text-sm text-gray-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={allowedLanguages.includes(language)}
+                  onChange={(e) => toggleLanguage(language, e.target.checked)}
+                  className="h-4 w-4 accent-cyan-600"
+                />
+                {SUPPORTED_LANGUAGES[language]}
+              </label>
+            )
+          )}
+        </div>
+      </div>
+
+      {/* Author filters */}
+      <div className="bg-gray-700 rounded-lg p-4">
+        <label className="block text-sm font-medium text-gray-300 mb-1">
+          Author Filters
+        </label>
+        <p className="text-xs text-gray-400 mb-3">
+          Posts from these authors are skipped before scoring. The cooldown
+          applies across all of your configs.
+        </p>
+
+        <div className="grid grid-cols-2 gap-2 mb-3">
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={authorFilterSettings.skipBots}
+              onChange={(e) =>
+                updateAuthorFilterSetting('skipBots', e.target.checked)
+              }
+              className="h-4 w-4 accent-cyan-600"
+            />
+            Bots and AutoModerator
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={authorFilterSettings.skipDeleted}
+              onChange={(e) =>
+                updateAuthorFilterSetting('skipDeleted', e.target.checked)
+              }
+              className="h-4 w-4 accent-cyan-600"
+            />
+            Deleted accounts
+          </label>
+        </div>
+
+        <div className="flex items-center gap-3 mb-3">
+          <span className="text-sm text-gray-300">
+            Wait between replies to the same author
+          </span>
+          <input
+            type="number"
+            min="0"
+            value={authorFilterSettings.cooldownDays}
+            onChange={(e) =>
+              updateAuthorFilterSetting(
+                'cooldownDays',
+                Math.max(0, parseInt(e.target.value) || 0)
+              )
+            }
+            className="w-20 px-2 py-1 bg-gray-600 border border-gray-500 rounded-md text-white text-sm"
+          />
+          <span className="text-sm text-gray-400">days</span>
+        </div>
+
+        <textarea
+          value={authorFilterSettings.blockedAuthors.join('\n')}
+          onChange={(e) =>
+            updateAuthorFilterSetting(
+              'blockedAuthors',
+              e.target.value.split('\n')
+            )
+          }
+          placeholder="Blocked usernames, one per line"
+          rows={3}
+          className="w-full px-3 py-2 bg-gray-600 border border-gray-500 rounded-md text-white text-sm focus:outline-none focus:ring-2 focus:ring-purple-500"
+        />
+      </div>
+
       {/* Auto Poster Toggle - Commented out as requested
       <div className="flex items-center justify-between">
         <div>
@@ -962,6 +1523,7 @@ export default function WebsiteConfigManagerStepByStep({
                           website_description: '',
                           customer_segments: [],
                           target_keywords: [],
+                          listing_modes: [DEFAULT_LISTING_MODE],
                           negative_keywords: [],
                           business_context_terms: [],
                           relevance_threshold: 70,
@@ -0,0 +1,17 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { isLikelyBotAuthor } from '../authorFilters';
+
+test('flags bot naming conventions and known bots', () => {
+  assert.equal(isLikelyBotAuthor('converter-bot'), true);
+  assert.equal(isLikelyBotAuthor('gif_bot'), true);
+  assert.equal(isLikelyBotAuthor('RemindMeBot'), true);
+  assert.equal(isLikelyBotAuthor('u/AutoModerator'), true);
+  assert.equal(isLikelyBotAuthor('sneakpeekbot'), true);
+});
+
+test('leaves human names that merely end in "bot" alone', () => {
+  assert.equal(isLikelyBotAuthor('Talbot'), false);
+  assert.equal(isLikelyBotAuthor('abbot'), false);
+  assert.equal(isLikelyBotAuthor('u/jim_talbot_writes'), false);
+});
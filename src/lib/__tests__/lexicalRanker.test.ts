@@ -0,0 +1,71 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { applyLanguageFilter } from '../languageDetection';
+import {
+  applyLexicalPrerank,
+  computeLexicalScores,
+  detectLexicalQueryLanguage,
+} from '../lexicalRanker';
+
+const config = {
+  target_keywords: ['invoice software', 'счет'],
+  customer_segments: ['freelancers'],
+  website_description:
+    'Invoicing for freelancers and small agencies that want to get paid on time.',
+};
+
+const candidates = [
+  {
+    id: 'en',
+    title: 'Which invoice software do freelancers use?',
+    content: 'I send about 20 invoices a month and want to get paid on time.',
+  },
+  {
+    id: 'ru',
+    title: 'Как выставить счет клиенту из Германии?',
+    content: 'Я фрилансер и не понимаю, какой счет нужен для клиента.',
+  },
+  {
+    id: 'ja',
+    title: 'フリーランスの請求書ソフトはどれがいいですか',
+    content: '毎月の請求書作成に時間がかかっています。',
+  },
+  {
+    id: 'off-topic',
+    title: 'What is your favourite hiking trail?',
+    content: 'Looking for a weekend trip near the mountains with my dog.',
+  },
+];
+
+test('matches words in non-Latin scripts', () => {
+  const scores = computeLexicalScores(candidates, config);
+
+  assert.ok((scores.get('ru') || 0) > 0);
+  assert.ok((scores.get('en') || 0) > (scores.get('off-topic') || 0));
+});
+
+test('applies the floor only to posts in the config language', () => {
+  const { languages } = applyLanguageFilter(candidates, ['en', 'ru', 'ja']);
+  const { passed, rejected } = applyLexicalPrerank(
+    candidates,
+    computeLexicalScores(candidates, config),
+    { languages, queryLanguage: detectLexicalQueryLanguage(config) }
+  );
+
+  assert.deepEqual(passed.map(({ id }) => id).sort(), ['en', 'ja', 'ru']);
+  assert.deepEqual(
+    rejected.map(({ discussion, reason }) => [discussion.id, reason]),
+    [['off-topic', 'below_lexical_floor']]
+  );
+});
+
+test('still caps posts in other languages at the top candidates', () => {
+  const { languages } = applyLanguageFilter(candidates, ['en', 'ru', 'ja']);
+  const { passed } = applyLexicalPrerank(
+    candidates,
+    computeLexicalScores(candidates, config),
+    { maxCandidates: 1, languages, queryLanguage: 'en' }
+  );
+
+  assert.equal(passed.length, 1);
+});
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { parseRedditAtomFeed } from '../redditAtomFeed';
+
+const readFixture = (name: string) =>
+  readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+test('parses every entry of a subreddit feed', () => {
+  const discussions = parseRedditAtomFeed(
+    readFixture('reddit-atom-feed.xml'),
+    'fallback'
+  );
+
+  assert.deepEqual(
+    discussions.map((discussion) => discussion.id),
+    ['1abc23', '1def45', '1ghi67']
+  );
+  assert.equal(discussions[0].subreddit, 'SaaS');
+  assert.equal(discussions[0].author, 'alice_founder');
+  assert.equal(discussions[0].fullname, 't3_1abc23');
+  assert.equal(
+    discussions[0].created_utc,
+    Date.parse('2026-10-17T12:00:00+00:00') / 1000
+  );
+});
+
+test('decodes entities in titles and bodies exactly once', () => {
+  const [post] = parseRedditAtomFeed(readFixture('reddit-atom-feed.xml'), '');
+
+  assert.equal(post.title, 'Billing & invoices: "best" tool for <10 clients?');
+  assert.equal(
+    post.content,
+    'Our invoices go out late & clients pay in < 60 days. ' +
+      'The template shows &lt;b&gt; instead of bold text.'
+  );
+});
+
+test('takes CDATA sections as they are', () => {
+  const [post] = parseRedditAtomFeed(readFixture('reddit-atom-cdata.xml'), '');
+
+  assert.equal(post.title, 'Escaping &lt;div&gt; in markdown');
+  assert.equal(post.content, 'Escape it as &lt;div&gt; & it renders as text.');
+  assert.equal(post.is_self, true);
+});
+
+test('tells self posts from link posts', () => {
+  const [selfPost, linkPost] = parseRedditAtomFeed(
+    readFixture('reddit-atom-feed.xml'),
+    ''
+  );
+
+  assert.equal(selfPost.is_self, true);
+  assert.equal(linkPost.is_self, false);
+  assert.equal(linkPost.content, '');
+  assert.equal(linkPost.description, 'We tore down 50 pricing pages');
+});
+
+test('keeps entries without content or a published date', () => {
+  const missing = parseRedditAtomFeed(
+    readFixture('reddit-atom-feed.xml'),
+    ''
+  )[2];
+
+  assert.equal(missing.content, '');
+  assert.equal(missing.raw_comment, 'Anyone using usage based pricing?');
+  assert.equal(missing.is_self, true);
+  assert.equal(
+    missing.created_utc,
+    Date.parse('2026-10-17T10:00:00+00:00') / 1000
+  );
+});
@@ -0,0 +1,97 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { RedditListingCache, SharedListingStore } from '../redditListingCache';
+
+// Stands in for the Supabase store that every instance sees
+function createMemoryStore(): SharedListingStore {
+  const pages = new Map<string, { value: unknown; expiresAt: number }>();
+  const locks = new Set<string>();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const page = pages.get(key);
+      return page && page.expiresAt > Date.now() ? page : null;
+    },
+    async set(key, value, ttlMs) {
+      pages.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+    async tryLock(key) {
+      if (locks.has(key)) return false;
+      locks.add(key);
+      return true;
+    },
+    async unlock(key) {
+      locks.delete(key);
+    },
+  };
+}
+
+const listing = { data: { children: [{ data: { id: 'a' } }] } };
+
+test('reuses a page another instance fetched', async () => {
+  const store = createMemoryStore();
+  const cron = new RedditListingCache(60_000, store);
+  const proxy = new RedditListingCache(60_000, store);
+  let fetches = 0;
+  const fetcher = async () => {
+    fetches += 1;
+    return listing;
+  };
+
+  await cron.getOrFetch('saas|new|first|25', fetcher);
+  assert.deepEqual(
+    await proxy.getOrFetch('saas|new|first|25', fetcher),
+    listing
+  );
+
+  assert.equal(fetches, 1);
+  assert.equal(proxy.getMetrics().sharedHits, 1);
+});
+
+test('instances asking at once wait on one fetch', async () => {
+  const store = createMemoryStore();
+  const instances = [0, 1, 2].map(() => new RedditListingCache(60_000, store));
+  let fetches = 0;
+  const fetcher = async () => {
+    fetches += 1;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    return listing;
+  };
+
+  const pages = await Promise.all(
+    instances.map((cache) => cache.getOrFetch('saas|hot|first|25', fetcher))
+  );
+
+  assert.equal(fetches, 1);
+  assert.deepEqual(pages, [listing, listing, listing]);
+});
+
+test('fetches on its own when the shared store fails', async () => {
+  const failing: SharedListingStore = {
+    name: 'failing',
+    get: async () => {
+      throw new Error('store down');
+    },
+    set: async () => {
+      throw new Error('store down');
+    },
+    tryLock: async () => {
+      throw new Error('store down');
+    },
+    unlock: async () => {},
+  };
+  const cache = new RedditListingCache(60_000, failing);
+  const originalError = console.error;
+  console.error = () => {};
+
+  try {
+    assert.deepEqual(
+      await cache.getOrFetch('saas|new|first|25', async () => listing),
+      listing
+    );
+  } finally {
+    console.error = originalError;
+  }
+  assert.equal(cache.getMetrics().misses, 1);
+});
@@ -0,0 +1,65 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  ScoredDiscussion,
+  computeFeedbackAgreement,
+  excludeOwnExamples,
+  pickFewShotExamples,
+} from '../relevanceFeedback';
+
+const row = (overrides: Partial<ScoredDiscussion>): ScoredDiscussion => ({
+  reddit_post_id: 'post',
+  subreddit: 'SaaS',
+  post_title: 'Which invoicing tool do you use?',
+  post_url: null,
+  post_content: null,
+  final_score: 50,
+  lexical_score: null,
+  reasoning: null,
+  relevance_threshold: 70,
+  scored_at: '2026-10-14T12:00:00.000Z',
+  feedback_label: 'relevant',
+  labeled_at: '2026-10-14T13:00:00.000Z',
+  labeled_score: null,
+  labeled_threshold: null,
+  labeled_scored_at: null,
+  ...overrides,
+});
+
+test('measures agreement against the score frozen at labeling', () => {
+  // Re-scored after the label became an example: the latest score agrees,
+  // the one the owner judged did not
+  const agreement = computeFeedbackAgreement([
+    row({
+      final_score: 90,
+      scored_at: '2026-10-20T12:00:00.000Z',
+      labeled_score: 40,
+      labeled_threshold: 70,
+      labeled_scored_at: '2026-10-14T12:00:00.000Z',
+    }),
+  ]);
+
+  assert.deepEqual(agreement, [
+    { weekStart: '2026-10-12', labeled: 1, agreed: 0, agreementRate: 0 },
+  ]);
+});
+
+test('falls back to the latest score for rows labeled before freezing', () => {
+  const agreement = computeFeedbackAgreement([row({ final_score: 80 })]);
+
+  assert.equal(agreement[0].agreed, 1);
+});
+
+test('never shows a discussion its own label', () => {
+  const examples = pickFewShotExamples([
+    row({ reddit_post_id: 'a' }),
+    row({ reddit_post_id: 'b', feedback_label: 'not_relevant' }),
+  ]);
+
+  assert.deepEqual(
+    excludeOwnExamples(examples, ['a', 'c']).map(
+      (example) => example.redditPostId
+    ),
+    ['b']
+  );
+});
@@ -0,0 +1,21 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import {
+  DEFAULT_RELEVANCE_THRESHOLD,
+  normalizeRelevanceThreshold,
+} from '../relevanceThreshold';
+
+test('keeps thresholds on the 0-100 scale in range', () => {
+  assert.equal(normalizeRelevanceThreshold(0), 0);
+  assert.equal(normalizeRelevanceThreshold(1), 1);
+  assert.equal(normalizeRelevanceThreshold('65'), 65);
+  assert.equal(normalizeRelevanceThreshold(2), 2);
+  assert.equal(normalizeRelevanceThreshold(72.4), 72);
+  assert.equal(normalizeRelevanceThreshold(140), 100);
+  assert.equal(normalizeRelevanceThreshold(-5), 0);
+});
+
+test('falls back to the default for missing values', () => {
+  assert.equal(normalizeRelevanceThreshold(null), DEFAULT_RELEVANCE_THRESHOLD);
+  assert.equal(normalizeRelevanceThreshold('abc'), DEFAULT_RELEVANCE_THRESHOLD);
+});
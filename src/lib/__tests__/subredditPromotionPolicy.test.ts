@@ -0,0 +1,127 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import type { RedditSubredditRule } from '../redditService';
+import {
+  NOT_ALLOWED_COOLDOWN_MS,
+  classifyPromotionPolicy,
+  getNotAllowedUntil,
+  isPromotionBlocked,
+} from '../subredditPromotionPolicy';
+
+const rule = (shortName: string, description = ''): RedditSubredditRule => ({
+  shortName,
+  description,
+  kind: 'all',
+});
+
+const policyOf = (shortName: string, description = '') =>
+  classifyPromotionPolicy([rule(shortName, description)]).policy;
+
+test('does not read spam or off-topic rules as a promotion ban', () => {
+  assert.equal(policyOf('No spam'), 'allowed');
+  assert.equal(
+    policyOf(
+      'Stay on topic',
+      'Posts must be about marketing. No memes. No low effort posts.'
+    ),
+    'allowed'
+  );
+  assert.equal(
+    classifyPromotionPolicy(
+      [],
+      'A community for marketing professionals to share what works.\n' +
+        'Do not post job listings or surveys.'
+    ).policy,
+    'allowed'
+  );
+});
+
+test('ignores a negation that belongs to another sentence', () => {
+  assert.equal(
+    policyOf(
+      'Be civil',
+      'Do not insult other members. Promoting your own course is fine ' +
+        'if it answers the question.'
+    ),
+    'allowed'
+  );
+});
+
+test('forbids when the negation applies to the promotion phrase', () => {
+  assert.equal(policyOf('No self-promotion'), 'forbidden');
+  assert.equal(
+    policyOf('Self promotion', 'Self-promotion is not allowed here.'),
+    'forbidden'
+  );
+  assert.equal(
+    policyOf('No advertising', 'Do not advertise your product or service.'),
+    'forbidden'
+  );
+  assert.equal(
+    policyOf('Content', 'No memes or affiliate links.'),
+    'forbidden'
+  );
+});
+
+test('treats limited promotion as allowed', () => {
+  assert.equal(
+    policyOf(
+      'No excessive self-promotion',
+      'Share your work, but do not make every post about it.'
+    ),
+    'allowed'
+  );
+});
+
+test('spots megathread and disclosure rules', () => {
+  assert.equal(
+    policyOf(
+      'Self-promotion',
+      'No self-promotion outside the weekly thread. Posts will be removed.'
+    ),
+    'megathread_only'
+  );
+  assert.equal(
+    policyOf(
+      'Follow the 9:1 rule',
+      'Self-promotion is fine if nine out of ten of your posts are not. ' +
+        'Disclose any affiliation with the product.'
+    ),
+    'disclosure_required'
+  );
+});
+
+test('keeps the most restrictive rule as evidence', () => {
+  const result = classifyPromotionPolicy(
+    [
+      rule('Disclose affiliation', 'Mention it if you promote your own tool.'),
+      { ...rule('No self-promotion', 'See the wiki'), kind: 'link' },
+      rule('No self-promotion', 'We ban accounts that only post their links.'),
+    ],
+    'Self-promo Saturday is the place for launches.'
+  );
+
+  assert.equal(result.policy, 'forbidden');
+  assert.equal(
+    result.evidence,
+    'No self-promotion. We ban accounts that only post their links.'
+  );
+  assert.equal(isPromotionBlocked('megathread_only'), true);
+  assert.equal(isPromotionBlocked('disclosure_required'), false);
+});
+
+test('blocks a subreddit that refused a comment until the cooldown ends', () => {
+  const refusedAt = '2026-10-10T12:00:00.000Z';
+  const now = Date.parse(refusedAt);
+
+  assert.equal(isPromotionBlocked('allowed', refusedAt, now + 1000), true);
+  assert.equal(
+    getNotAllowedUntil(refusedAt, now),
+    new Date(now + NOT_ALLOWED_COOLDOWN_MS).toISOString()
+  );
+  assert.equal(
+    isPromotionBlocked('allowed', refusedAt, now + NOT_ALLOWED_COOLDOWN_MS),
+    false
+  );
+  assert.equal(isPromotionBlocked('allowed', null, now), false);
+});
@@ -0,0 +1,210 @@
+export interface AuthorFilterSettings {
+  // Reddit usernames never replied to, without the u/ prefix
+  blockedAuthors: string[];
+  skipBots: boolean;
+  skipDeleted: boolean;
+  // Days before the same author can get another reply from any of the
+  // user's configs; 0 disables the cooldown
+  cooldownDays: number;
+}
+
+export type AuthorRejectionReason =
+  | 'blocked_author'
+  | 'bot_author'
+  | 'deleted_author'
+  | 'author_cooldown';
+
+export interface AuthorFilterCandidate {
+  id: string;
+  author?: string;
+}
+
+export interface AuthorRejection<T extends AuthorFilterCandidate> {
+  discussion: T;
+  reason: AuthorRejectionReason;
+  detail?: string;
+}
+
+export const DEFAULT_AUTHOR_FILTER_SETTINGS: AuthorFilterSettings = {
+  blockedAuthors: [],
+  skipBots: true,
+  skipDeleted: true,
+  cooldownDays: 7,
+};
+
+const DELETED_AUTHORS = ['[deleted]', '[removed]'];
+const KNOWN_BOT_AUTHORS = [
+  'automoderator',
+  'remindmebot',
+  'savevideo',
+  'sneakpeekbot',
+  'repostsleuthbot',
+  'wikisummarizerbot',
+];
+// Reddit bots conventionally end their names in a separated or capitalized
+// "bot", e.g. "converter-bot" or "RemindMeBot". A bare lower-case "bot"
+// suffix is left alone: it is also the end of names like "Talbot".
+const BOT_NAME_PATTERNS = [/[-_]bot$/i, /Bot$/];
+
+export function normalizeAuthorName(author: string): string {
+  return author
+    .trim()
+    .replace(/^\/?u\//i, '')
+    .toLowerCase();
+}
+
+/**
+ * Fill in defaults for settings stored on a website config
+ */
+export function resolveAuthorFilterSettings(
+  settings?: Partial<AuthorFilterSettings> | null
+): AuthorFilterSettings {
+  return { ...DEFAULT_AUTHOR_FILTER_SETTINGS, ...(settings || {}) };
+}
+
+export function isLikelyBotAuthor(author: string): boolean {
+  // The name patterns need the original casing
+  const rawName = author.trim().replace(/^\/?u\//i, '');
+  return (
+    KNOWN_BOT_AUTHORS.includes(normalizeAuthorName(author)) ||
+    BOT_NAME_PATTERNS.some((pattern) => pattern.test(rawName))
+  );
+}
+
+/**
+ * Return why a discussion's author is filtered, or null when the author is
+ * fine. `recentReplies` maps normalized author names to the time they last
+ * got a reply.
+ */
+export function getAuthorRejection(
+  discussion: AuthorFilterCandidate,
+  settings: AuthorFilterSettings,
+  recentReplies: Map<string, string> = new Map(),
+  now: Date = new Date()
+): { reason: AuthorRejectionReason; detail?: string } | null {
+  const author = normalizeAuthorName(discussion.author || '');
+
+  if (!author) return null;
+
+  if (settings.skipDeleted && DELETED_AUTHORS.includes(author)) {
+    return { reason: 'deleted_author' };
+  }
+
+  if (settings.blockedAuthors.map(normalizeAuthorName).includes(author)) {
+    return { reason: 'blocked_author', detail: `u/${author}` };
+  }
+
+  if (settings.skipBots && isLikelyBotAuthor(author)) {
+    return { reason: 'bot_author', detail: `u/${author}` };
+  }
+
+  const lastRepliedAt = recentReplies.get(author);
+  if (settings.cooldownDays > 0 && lastRepliedAt) {
+    const daysAgo =
+      (now.getTime() - new Date(lastRepliedAt).getTime()) /
+      (24 * 60 * 60 * 1000);
+    if (daysAgo < settings.cooldownDays) {
+      return {
+        reason: 'author_cooldown',
+        detail: `u/${author} got a reply ${Math.floor(daysAgo)}d ago (cooldown ${settings.cooldownDays}d)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * When each author last got a reply from any of the user's configs, within
+ * the cooldown window
+ */
+export async function loadRecentAuthorReplies(
+  supabaseAdmin: any,
+  userId: string,
+  cooldownDays: number
+): Promise<Map<string, string>> {
+  const recentReplies = new Map<string, string>();
+  if (cooldownDays <= 0) return recentReplies;
+
+  const { data: configs, error: configError } = await supabaseAdmin
+    .from('website_configs')
+    .select('id')
+    .eq('user_id', userId);
+
+  if (configError || !configs || configs.length === 0) {
+    if (configError) {
+      console.error(
+        '[AUTHOR_FILTER] Failed to load user configs:',
+        configError
+      );
+    }
+    return recentReplies;
+  }
+
+  const since = new Date(
+    Date.now() - cooldownDays * 24 * 60 * 60 * 1000
+  ).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('posted_reddit_discussions')
+    .select('post_author, created_at')
+    .in(
+      'website_config_id',
+      configs.map((config: { id: string }) => config.id)
+    )
+    .not('post_author', 'is', null)
+    .gte('created_at', since)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('[AUTHOR_FILTER] Failed to load recent replies:', error);
+    return recentReplies;
+  }
+
+  for (const row of data || []) {
+    const author = normalizeAuthorName(row.post_author);
+    if (!recentReplies.has(author)) recentReplies.set(author, row.created_at);
+  }
+
+  return recentReplies;
+}
+
+/**
+ * Split discussions into those whose authors pass the config's filters and
+ * those rejected, checking the cooldown against the user's reply history
+ */
+export async function applyAuthorFilter<T extends AuthorFilterCandidate>(
+  supabaseAdmin: any,
+  discussions: T[],
+  settings: AuthorFilterSettings,
+  userId: string
+): Promise<{
+  passed: T[];
+  rejected: AuthorRejection<T>[];
+  counts: Partial<Record<AuthorRejectionReason, number>>;
+}> {
+  const recentReplies =
+    discussions.length > 0
+      ? await loadRecentAuthorReplies(
+          supabaseAdmin,
+          userId,
+          settings.cooldownDays
+        )
+      : new Map<string, string>();
+
+  const passed: T[] = [];
+  const rejected: AuthorRejection<T>[] = [];
+  const counts: Partial<Record<AuthorRejectionReason, number>> = {};
+
+  for (const discussion of discussions) {
+    const rejection = getAuthorRejection(discussion, settings, recentReplies);
+    if (!rejection) {
+      passed.push(discussion);
+      continue;
+    }
+
+    rejected.push({ discussion, ...rejection });
+    counts[rejection.reason] = (counts[rejection.reason] || 0) + 1;
+  }
+
+  return { passed, rejected, counts };
+}
@@ -3,6 +3,7 @@ import { searchMultipleSubredditsWithPagination } from './redditService';
 import { generateRedditSearchQueries } from './benoService';
 import { normalizeProductContext } from './redditReplyPrompt';
 import { getWebsiteConfigSubreddits } from './websiteConfigCollections';
+import { buildSearchQuerySet } from './searchQueryRotation';
 
 export interface AutoPosterConfig {
   id: string;
@@ -36,6 +37,8 @@ export class AutoPoster {
     currentWebsiteConfig: null
   };
   private onStatusUpdate?: (status: AutoPosterStatus) => void;
+  // Position in the config's query set; each cycle searches the next query
+  private queryIndex = 0;
 
   constructor(userId: string, onStatusUpdate?: (status: AutoPosterStatus) => void) {
     this.userId = userId;
@@ -52,6 +55,7 @@ export class AutoPoster {
     }
 
     try {
+      this.queryIndex = 0;
       this.status = {
         isRunning: true,
         nextPostTime: new Date(Date.now() + intervalMinutes * 60 * 1000),
@@ -118,11 +122,18 @@ export class AutoPoster {
       this.status.lastPostResult = 'Searching for discussions...';
       this.updateStatus();
 
-      // Generate search queries based on website config
-      const queries = generateRedditSearchQueries(
-        this.status.currentWebsiteConfig.description,
-        this.status.currentWebsiteConfig.customer_segments
-      );
+      // Rotate through the config's query set, falling back to queries built
+      // from the description when it has no keywords or segments
+      const querySet = buildSearchQuerySet(this.status.currentWebsiteConfig);
+      const queries =
+        querySet.length > 0
+          ? querySet
+          : generateRedditSearchQueries(
+              this.status.currentWebsiteConfig.description,
+              this.status.currentWebsiteConfig.customer_segments
+            );
+      const query = queries[this.queryIndex % queries.length];
+      this.queryIndex += 1;
       const configuredSubreddits = getWebsiteConfigSubreddits(
         this.status.currentWebsiteConfig
       );
@@ -135,7 +146,7 @@ export class AutoPoster {
 
       // Search for relevant discussions using pagination
       const discussions = await searchMultipleSubredditsWithPagination(
-        queries[0], // Use the first query
+        query,
         this.userId,
         configuredSubreddits,
         10,
@@ -0,0 +1,457 @@
+import {
+  RedditSearchTime,
+  buildRedditSearchQuery,
+  hasRedditOAuthCredentials,
+  searchRedditDiscussions,
+} from './redditService';
+import { WebsiteConfig, filterRelevantDiscussions } from './relevanceFiltering';
+import { applyEligibilityGate } from './discussionEligibility';
+import { recordDiscussionFilterRejections } from './discussionFilterAudit';
+import { getMonthlyCommentQuotaState } from './commentQuota';
+import { applyAuthorFilter } from './authorFilters';
+import {
+  collapseDuplicateDiscussions,
+  findRepliedDuplicates,
+  getDuplicateColumns,
+} from './discussionSimilarity';
+import {
+  decodeWebsiteConfigCollections,
+  getWebsiteConfigAllowedLanguages,
+  getWebsiteConfigAuthorFilterSettings,
+  getWebsiteConfigEligibilitySettings,
+  getWebsiteConfigListingModes,
+  getWebsiteConfigSearchQueries,
+  getWebsiteConfigSubreddits,
+  isCommentDiscoveryEnabled,
+  isTargetKeywordRequired,
+} from './websiteConfigCollections';
+
+export const BACKFILL_WINDOWS = [7, 30, 90] as const;
+export type BackfillWindowDays = (typeof BACKFILL_WINDOWS)[number];
+
+export type BackfillJobStatus =
+  | 'pending'
+  | 'running'
+  | 'paused'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type BackfillCandidateStatus =
+  | 'pending_review'
+  | 'approved'
+  | 'dismissed'
+  | 'posted';
+
+export interface BackfillCursor {
+  subredditIndex: number;
+  after: string | null;
+  page: number;
+}
+
+export interface BackfillJob {
+  id: string;
+  website_config_id: string;
+  user_id: string;
+  window_days: BackfillWindowDays;
+  status: BackfillJobStatus;
+  subreddits: string[];
+  cursor: Partial<BackfillCursor>;
+  searched_count: number;
+  scored_count: number;
+  candidates_found: number;
+  stop_reason: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+const PAGE_SIZE = 50;
+// Reddit search stops returning useful results after a handful of pages
+const MAX_PAGES_PER_SUBREDDIT = 5;
+const DEFAULT_TIME_BUDGET_MS = 45 * 1000;
+// A running job not touched for this long is assumed to have died mid-step
+const STALE_RUNNING_MS = 2 * 60 * 1000;
+
+// Reddit's `t` filter is coarse, so results are also cut at the exact window
+const SEARCH_TIME_BY_WINDOW: Record<BackfillWindowDays, RedditSearchTime> = {
+  7: 'week',
+  30: 'month',
+  90: 'year',
+};
+
+export function isBackfillWindow(value: unknown): value is BackfillWindowDays {
+  return BACKFILL_WINDOWS.includes(value as BackfillWindowDays);
+}
+
+/**
+ * Website config row with its encoded collections unpacked, as the scorer and
+ * the reply generator expect it
+ */
+export function toScoringConfig(config: any): WebsiteConfig {
+  const decoded = decodeWebsiteConfigCollections(
+    config.business_context_terms || []
+  );
+  return {
+    ...config,
+    website_url: config.website_url || '',
+    website_description: config.website_description || '',
+    target_keywords: config.target_keywords || [],
+    negative_keywords: config.negative_keywords || [],
+    customer_segments: config.customer_segments || [],
+    business_context_terms: decoded.businessContextTerms,
+    target_subreddits: getWebsiteConfigSubreddits(config),
+    listing_modes: getWebsiteConfigListingModes(config),
+    comment_discovery: isCommentDiscoveryEnabled(config),
+    require_target_keyword: isTargetKeywordRequired(config),
+    eligibility_settings: getWebsiteConfigEligibilitySettings(config),
+    search_queries: getWebsiteConfigSearchQueries(config),
+    allowed_languages: getWebsiteConfigAllowedLanguages(config),
+    author_filter_settings: getWebsiteConfigAuthorFilterSettings(config),
+  };
+}
+
+async function saveJob(
+  supabaseAdmin: any,
+  job: BackfillJob,
+  changes: Partial<BackfillJob>
+): Promise<BackfillJob> {
+  const updated = { ...job, ...changes, updated_at: new Date().toISOString() };
+  const { error } = await supabaseAdmin
+    .from('backfill_jobs')
+    .update({ ...changes, updated_at: updated.updated_at })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error(`[BACKFILL] Failed to save job ${job.id}:`, error);
+  }
+  return updated;
+}
+
+/**
+ * Create a backfill job for a config. Only one unfinished job is allowed per
+ * config; returns null when one already exists.
+ */
+export async function createBackfillJob(
+  supabaseAdmin: any,
+  config: any,
+  userId: string,
+  windowDays: BackfillWindowDays
+): Promise<BackfillJob | null> {
+  const { data: activeJob } = await supabaseAdmin
+    .from('backfill_jobs')
+    .select('id')
+    .eq('website_config_id', config.id)
+    .in('status', ['pending', 'running', 'paused'])
+    .maybeSingle();
+
+  if (activeJob) return null;
+
+  const { data, error } = await supabaseAdmin
+    .from('backfill_jobs')
+    .insert({
+      website_config_id: config.id,
+      user_id: userId,
+      window_days: windowDays,
+      status: 'pending',
+      subreddits: getWebsiteConfigSubreddits(config),
+      cursor: { subredditIndex: 0, after: null, page: 0 },
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create backfill job: ${error.message}`);
+  }
+  return data;
+}
+
+/**
+ * Advance a backfill job until it finishes or the time budget runs out.
+ * Progress is saved after every search page, so a job interrupted by a
+ * timeout or error picks up from the same page on the next call. The job
+ * stops early once it has queued as many candidates as the plan's remaining
+ * monthly comments.
+ */
+export async function runBackfillJob(
+  supabaseAdmin: any,
+  jobId: string,
+  timeBudgetMs: number = DEFAULT_TIME_BUDGET_MS
+): Promise<BackfillJob> {
+  const startedAt = Date.now();
+  const { data: loadedJob, error: jobError } = await supabaseAdmin
+    .from('backfill_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !loadedJob) {
+    throw new Error(`Backfill job ${jobId} not found`);
+  }
+
+  let job: BackfillJob = loadedJob;
+  if (job.status === 'completed' || job.status === 'cancelled') {
+    return job;
+  }
+  if (
+    job.status === 'running' &&
+    Date.now() - new Date(job.updated_at).getTime() < STALE_RUNNING_MS
+  ) {
+    console.log(`[BACKFILL] Job ${job.id} is already running`);
+    return job;
+  }
+
+  if (!hasRedditOAuthCredentials()) {
+    return saveJob(supabaseAdmin, job, {
+      status: 'failed',
+      error: 'Backfill needs Reddit OAuth credentials for search',
+    });
+  }
+
+  const { data: configRow } = await supabaseAdmin
+    .from('website_configs')
+    .select('*')
+    .eq('id', job.website_config_id)
+    .maybeSingle();
+
+  if (!configRow) {
+    return saveJob(supabaseAdmin, job, {
+      status: 'failed',
+      error: 'Website config no longer exists',
+    });
+  }
+
+  const config = toScoringConfig(configRow);
+  const query = buildRedditSearchQuery([
+    ...config.target_keywords!,
+    ...config.customer_segments,
+  ]);
+  const cutoffUtc = Date.now() / 1000 - job.window_days * 24 * 60 * 60;
+  // The eligibility age rule would drop most of the window, so widen it
+  const eligibilitySettings = {
+    ...getWebsiteConfigEligibilitySettings(configRow),
+    maxAgeHours: job.window_days * 24,
+  };
+  const authorFilterSettings = getWebsiteConfigAuthorFilterSettings(configRow);
+
+  job = await saveJob(supabaseAdmin, job, { status: 'running', error: null });
+
+  try {
+    while (Date.now() - startedAt < timeBudgetMs) {
+      const cursor: BackfillCursor = {
+        subredditIndex: job.cursor.subredditIndex || 0,
+        after: job.cursor.after || null,
+        page: job.cursor.page || 0,
+      };
+
+      if (cursor.subredditIndex >= job.subreddits.length) {
+        return saveJob(supabaseAdmin, job, {
+          status: 'completed',
+          stop_reason: 'searched_all_subreddits',
+          completed_at: new Date().toISOString(),
+        });
+      }
+
+      const quota = await getMonthlyCommentQuotaState(
+        supabaseAdmin,
+        job.user_id
+      );
+      const { count: queuedCount } = await supabaseAdmin
+        .from('backfill_candidates')
+        .select('id', { count: 'exact', head: true })
+        .eq('website_config_id', job.website_config_id)
+        .in('status', ['pending_review', 'approved']);
+      const remainingSlots = quota.limit - quota.used - (queuedCount || 0);
+
+      if (remainingSlots <= 0) {
+        return saveJob(supabaseAdmin, job, {
+          status: 'completed',
+          stop_reason: 'comment_quota',
+          completed_at: new Date().toISOString(),
+        });
+      }
+
+      const subreddit = job.subreddits[cursor.subredditIndex];
+      const page = await searchRedditDiscussions(query, subreddit, {
+        sort: 'new',
+        time: SEARCH_TIME_BY_WINDOW[job.window_days],
+        limit: PAGE_SIZE,
+        after: cursor.after,
+      });
+      const inWindow = page.items.filter(
+        (discussion) => discussion.created_utc >= cutoffUtc
+      );
+
+      const { data: postedRows } = await supabaseAdmin
+        .from('posted_reddit_discussions')
+        .select('reddit_post_id')
+        .eq('website_config_id', job.website_config_id)
+        .in(
+          'reddit_post_id',
+          inWindow.map((discussion) => discussion.id)
+        );
+      const postedIds = (postedRows || []).map(
+        (row: any) => row.reddit_post_id
+      );
+
+      // Skip copies of discussions already replied to or already queued, and
+      // keep one per crosspost or near-duplicate group within the page
+      const [repliedDuplicates, queuedDuplicates] = await Promise.all([
+        findRepliedDuplicates(supabaseAdmin, job.website_config_id, inWindow),
+        findRepliedDuplicates(
+          supabaseAdmin,
+          job.website_config_id,
+          inWindow,
+          'backfill_candidates'
+        ),
+      ]);
+      const { kept: uniqueInWindow } = collapseDuplicateDiscussions(
+        inWindow.filter(
+          (discussion) =>
+            !repliedDuplicates.has(discussion.id) &&
+            !queuedDuplicates.has(discussion.id)
+        )
+      );
+
+      const eligibility = applyEligibilityGate(
+        uniqueInWindow,
+        eligibilitySettings
+      );
+      const authorFilter = await applyAuthorFilter(
+        supabaseAdmin,
+        eligibility.eligible,
+        authorFilterSettings,
+        job.user_id
+      );
+      await recordDiscussionFilterRejections(supabaseAdmin, {
+        websiteConfigId: job.website_config_id,
+        userId: job.user_id,
+        stage: 'author',
+        rejections: authorFilter.rejected.map(
+          ({ discussion, reason, detail }) => ({
+            discussionId: discussion.id,
+            subreddit: discussion.subreddit,
+            title: discussion.title,
+            reason,
+            detail,
+          })
+        ),
+      });
+
+      const relevant = await filterRelevantDiscussions(
+        authorFilter.passed,
+        config,
+        postedIds,
+        (keywordRejections) =>
+          recordDiscussionFilterRejections(supabaseAdmin, {
+            websiteConfigId: job.website_config_id,
+            userId: job.user_id,
+            stage: 'keyword',
+            rejections: keywordRejections.map(
+              ({ discussion, reason, detail }) => ({
+                discussionId: discussion.id,
+                subreddit: discussion.subreddit,
+                title: discussion.title,
+                reason,
+                detail,
+              })
+            ),
+          }),
+        (languageRejections) =>
+          recordDiscussionFilterRejections(supabaseAdmin, {
+            websiteConfigId: job.website_config_id,
+            userId: job.user_id,
+            stage: 'language',
+            rejections: languageRejections.map(
+              ({ discussion, reason, detail }) => ({
+                discussionId: discussion.id,
+                subreddit: discussion.subreddit,
+                title: discussion.title,
+                reason,
+                detail,
+              })
+            ),
+          }),
+        (lexicalRejections) =>
+          recordDiscussionFilterRejections(supabaseAdmin, {
+            websiteConfigId: job.website_config_id,
+            userId: job.user_id,
+            stage: 'lexical',
+            rejections: lexicalRejections.map(
+              ({ discussion, reason, detail }) => ({
+                discussionId: discussion.id,
+                subreddit: discussion.subreddit,
+                title: discussion.title,
+                reason,
+                detail,
+              })
+            ),
+          })
+      );
+
+      const toQueue = relevant.slice(0, remainingSlots);
+      if (toQueue.length > 0) {
+        const { error: insertError } = await supabaseAdmin
+          .from('backfill_candidates')
+          .upsert(
+            toQueue.map(({ discussion, scores }) => ({
+              job_id: job.id,
+              website_config_id: job.website_config_id,
+              reddit_post_id: discussion.id,
+              subreddit: discussion.subreddit,
+              post_title: discussion.title,
+              post_author: discussion.author || null,
+              post_url: discussion.url,
+              post_content: (discussion.content || '').slice(0, 4000),
+              post_created_utc: discussion.created_utc,
+              relevance_score: Math.round(scores.finalScore),
+              scores,
+              language: scores.language,
+              ...getDuplicateColumns(discussion),
+            })),
+            {
+              onConflict: 'website_config_id,reddit_post_id',
+              ignoreDuplicates: true,
+            }
+          );
+        if (insertError) {
+          throw new Error(
+            `Failed to store backfill candidates: ${insertError.message}`
+          );
+        }
+      }
+
+      // Sorted by new, so a page reaching past the window ends the subreddit
+      const finishedSubreddit =
+        !page.after ||
+        inWindow.length < page.items.length ||
+        cursor.page + 1 >= MAX_PAGES_PER_SUBREDDIT;
+
+      console.log(
+        `[BACKFILL] Job ${job.id} r/${subreddit} page ${cursor.page + 1}: ${inWindow.length} in window, ${relevant.length} relevant, ${toQueue.length} queued`
+      );
+
+      job = await saveJob(supabaseAdmin, job, {
+        searched_count: job.searched_count + inWindow.length,
+        scored_count: job.scored_count + authorFilter.passed.length,
+        candidates_found: job.candidates_found + toQueue.length,
+        cursor: finishedSubreddit
+          ? { subredditIndex: cursor.subredditIndex + 1, after: null, page: 0 }
+          : {
+              subredditIndex: cursor.subredditIndex,
+              after: page.after || null,
+              page: cursor.page + 1,
+            },
+      });
+    }
+
+    return saveJob(supabaseAdmin, job, { status: 'paused' });
+  } catch (error) {
+    console.error(`[BACKFILL] Job ${job.id} failed:`, error);
+    return saveJob(supabaseAdmin, job, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -45,6 +45,13 @@ export async function createProduct(
 
 // Removed publishReply function - replaced with custom Reddit posting logic
 
+// Filler words that make useless queries on their own ("with", "that")
+const QUERY_STOPWORDS = new Set(
+  'about also been best both each from have helps into just like make makes more most much only other over same some such than that their them then there these they this those very what when where which while will with without your yours'.split(
+    ' '
+  )
+);
+
 /**
  * Generate Reddit search queries based on product description and customer segments
  */
@@ -56,8 +63,8 @@ export function generateRedditSearchQueries(
   
   // Extract key terms from description
   const descriptionWords = description.toLowerCase()
-    .split(/\s+/)
-    .filter(word => word.length > 3)
+    .split(/[^a-z0-9'-]+/)
+    .filter(word => word.length > 3 && !QUERY_STOPWORDS.has(word))
     .slice(0, 5); // Take first 5 meaningful words
   
   // Generate queries combining description terms with customer segments
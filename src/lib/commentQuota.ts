@@ -0,0 +1,48 @@
+import { getPlanLimits } from '@/utils/planLimits';
+
+export interface MonthlyCommentQuotaState {
+  used: number;
+  limit: number;
+  limitReached: boolean;
+}
+
+/**
+ * Comments posted this calendar month (UTC) across all of a user's website
+ * configs, against the plan's monthly limit.
+ */
+export async function getMonthlyCommentQuotaState(
+  supabaseAdmin: any,
+  userId: string
+): Promise<MonthlyCommentQuotaState> {
+  const { data: userRow } = await supabaseAdmin
+    .from('users')
+    .select('subscription_status')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const limits = getPlanLimits(userRow?.subscription_status);
+  const monthStart = new Date();
+  monthStart.setUTCDate(1);
+  monthStart.setUTCHours(0, 0, 0, 0);
+
+  const { count, error } = await supabaseAdmin
+    .from('posted_reddit_discussions')
+    .select('id, website_configs!inner(user_id)', {
+      count: 'exact',
+      head: true,
+    })
+    .eq('website_configs.user_id', userId)
+    .gte('created_at', monthStart.toISOString());
+
+  if (error) {
+    throw new Error(`Failed to check monthly comment usage: ${error.message}`);
+  }
+
+  const used = count || 0;
+
+  return {
+    used,
+    limit: limits.monthlyCommentLimit,
+    limitReached: used >= limits.monthlyCommentLimit,
+  };
+}
@@ -0,0 +1,138 @@
+export interface EligibilitySettings {
+  // Posts older than this are skipped; null disables the age rule
+  maxAgeHours: number | null;
+  skipLocked: boolean;
+  skipArchived: boolean;
+  skipRemoved: boolean;
+  skipNsfw: boolean;
+  skipStickied: boolean;
+}
+
+export type EligibilityRejectionReason =
+  | 'too_old'
+  | 'locked'
+  | 'archived'
+  | 'removed'
+  | 'nsfw'
+  | 'stickied';
+
+export interface EligibilityCandidate {
+  id: string;
+  title?: string;
+  subreddit?: string;
+  author?: string;
+  content?: string;
+  created_utc?: number;
+  locked?: boolean;
+  archived?: boolean;
+  removed?: boolean;
+  over_18?: boolean;
+  stickied?: boolean;
+}
+
+export interface EligibilityRejection<T extends EligibilityCandidate> {
+  discussion: T;
+  reason: EligibilityRejectionReason;
+  detail?: string;
+}
+
+export const DEFAULT_ELIGIBILITY_SETTINGS: EligibilitySettings = {
+  maxAgeHours: 168,
+  skipLocked: true,
+  skipArchived: true,
+  skipRemoved: true,
+  skipNsfw: true,
+  skipStickied: true,
+};
+
+const REMOVED_MARKERS = ['[removed]', '[deleted]'];
+
+/**
+ * Fill in defaults for settings stored on a website config
+ */
+export function resolveEligibilitySettings(
+  settings?: Partial<EligibilitySettings> | null
+): EligibilitySettings {
+  return { ...DEFAULT_ELIGIBILITY_SETTINGS, ...(settings || {}) };
+}
+
+function isRemovedDiscussion(discussion: EligibilityCandidate): boolean {
+  return Boolean(
+    discussion.removed ||
+      REMOVED_MARKERS.includes((discussion.author || '').trim()) ||
+      REMOVED_MARKERS.includes((discussion.content || '').trim()) ||
+      REMOVED_MARKERS.includes((discussion.title || '').trim())
+  );
+}
+
+/**
+ * Return why a discussion can't be replied to, or null when it is eligible
+ */
+export function getEligibilityRejection(
+  discussion: EligibilityCandidate,
+  settings: EligibilitySettings,
+  now: Date = new Date()
+): { reason: EligibilityRejectionReason; detail?: string } | null {
+  if (settings.skipRemoved && isRemovedDiscussion(discussion)) {
+    return { reason: 'removed' };
+  }
+
+  if (settings.skipLocked && discussion.locked) {
+    return { reason: 'locked' };
+  }
+
+  if (settings.skipArchived && discussion.archived) {
+    return { reason: 'archived' };
+  }
+
+  if (settings.skipStickied && discussion.stickied) {
+    return { reason: 'stickied' };
+  }
+
+  if (settings.skipNsfw && discussion.over_18) {
+    return { reason: 'nsfw' };
+  }
+
+  if (settings.maxAgeHours !== null && discussion.created_utc) {
+    const ageHours =
+      (now.getTime() - discussion.created_utc * 1000) / (60 * 60 * 1000);
+    if (ageHours > settings.maxAgeHours) {
+      return {
+        reason: 'too_old',
+        detail: `${Math.round(ageHours)}h old (limit ${settings.maxAgeHours}h)`,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split discussions into those worth scoring and those the gate rejected
+ */
+export function applyEligibilityGate<T extends EligibilityCandidate>(
+  discussions: T[],
+  settings: EligibilitySettings,
+  now: Date = new Date()
+): {
+  eligible: T[];
+  rejected: EligibilityRejection<T>[];
+  counts: Partial<Record<EligibilityRejectionReason, number>>;
+} {
+  const eligible: T[] = [];
+  const rejected: EligibilityRejection<T>[] = [];
+  const counts: Partial<Record<EligibilityRejectionReason, number>> = {};
+
+  for (const discussion of discussions) {
+    const rejection = getEligibilityRejection(discussion, settings, now);
+    if (!rejection) {
+      eligible.push(discussion);
+      continue;
+    }
+
+    rejected.push({ discussion, ...rejection });
+    counts[rejection.reason] = (counts[rejection.reason] || 0) + 1;
+  }
+
+  return { eligible, rejected, counts };
+}
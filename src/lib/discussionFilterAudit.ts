@@ -0,0 +1,123 @@
+export const DISCUSSION_FILTER_STAGES = [
+  'eligibility',
+  'keyword',
+  'duplicate',
+  'language',
+  'author',
+  'lexical',
+] as const;
+
+export type DiscussionFilterStage = (typeof DISCUSSION_FILTER_STAGES)[number];
+
+export interface DiscussionFilterRejectionRow {
+  reddit_post_id: string;
+  subreddit: string | null;
+  post_title: string | null;
+  stage: DiscussionFilterStage;
+  reason: string;
+  detail: string | null;
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface DiscussionFilterRejectionSummary {
+  stage: DiscussionFilterStage;
+  reason: string;
+  count: number;
+}
+
+export function isDiscussionFilterStage(
+  value: unknown
+): value is DiscussionFilterStage {
+  return DISCUSSION_FILTER_STAGES.includes(value as DiscussionFilterStage);
+}
+
+export interface DiscussionFilterRejectionRecord {
+  discussionId: string;
+  subreddit?: string;
+  title?: string;
+  reason: string;
+  detail?: string;
+}
+
+/**
+ * Audit records for the rejections any pre-scoring filter returns
+ */
+export function toFilterRejectionRecords(
+  rejections: {
+    discussion: { id: string; subreddit?: string; title?: string };
+    reason: string;
+    detail?: string;
+  }[]
+): DiscussionFilterRejectionRecord[] {
+  return rejections.map(({ discussion, reason, detail }) => ({
+    discussionId: discussion.id,
+    subreddit: discussion.subreddit,
+    title: discussion.title,
+    reason,
+    detail,
+  }));
+}
+
+/**
+ * Record why discussions were dropped before scoring. One row is kept per
+ * config, post and stage; later runs refresh the reason and timestamp.
+ */
+export async function recordDiscussionFilterRejections(
+  supabaseAdmin: any,
+  {
+    websiteConfigId,
+    userId,
+    stage,
+    rejections,
+  }: {
+    websiteConfigId: string;
+    userId?: string | null;
+    stage: DiscussionFilterStage;
+    rejections: DiscussionFilterRejectionRecord[];
+  }
+): Promise<void> {
+  if (!websiteConfigId || rejections.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('discussion_filter_rejections')
+    .upsert(
+      rejections.map((rejection) => ({
+        website_config_id: websiteConfigId,
+        user_id: userId || null,
+        reddit_post_id: rejection.discussionId,
+        subreddit: rejection.subreddit || null,
+        post_title: rejection.title ? rejection.title.slice(0, 300) : null,
+        stage,
+        reason: rejection.reason,
+        detail: rejection.detail || null,
+        last_seen_at: now,
+      })),
+      { onConflict: 'website_config_id,reddit_post_id,stage' }
+    );
+
+  if (error) {
+    console.error(
+      `[FILTER_AUDIT] Failed to record ${rejections.length} ${stage} rejections:`,
+      error
+    );
+  }
+}
+
+/**
+ * Rejection counts by stage and reason, most frequent first
+ */
+export function summarizeFilterRejections(
+  rows: Pick<DiscussionFilterRejectionRow, 'stage' | 'reason'>[]
+): DiscussionFilterRejectionSummary[] {
+  const counts = new Map<string, DiscussionFilterRejectionSummary>();
+  for (const { stage, reason } of rows) {
+    const key = `${stage}:${reason}`;
+    const summary = counts.get(key) || { stage, reason, count: 0 };
+    summary.count += 1;
+    counts.set(key, summary);
+  }
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
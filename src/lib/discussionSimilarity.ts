@@ -0,0 +1,235 @@
+import { RedditDiscussion } from './redditService';
+
+type SimilarityCandidate = Pick<RedditDiscussion, 'id' | 'title'> &
+  Partial<Pick<RedditDiscussion, 'content' | 'crosspost_parent'>>;
+
+export interface DiscussionFingerprint {
+  // Crosspost root: the original post's id, shared by all of its crossposts
+  groupKey: string;
+  // 64-bit simhash of title and body as hex, null when the text is too short
+  contentHash: string | null;
+}
+
+export interface DuplicateDiscussion<T> {
+  discussion: T;
+  duplicateOf: string;
+  reason: 'crosspost' | 'near_duplicate';
+}
+
+// Bits that may differ for two texts to count as the same discussion
+export const NEAR_DUPLICATE_MAX_DISTANCE = 3;
+// Shorter texts have too few shingles for the hash to be meaningful
+const MIN_HASH_WORDS = 6;
+// How far back posted replies are compared by content
+const REPLIED_HASH_LOOKBACK_DAYS = 90;
+const REPLIED_HASH_LOOKBACK_LIMIT = 2000;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// FNV-1a with a seed, so two passes give independent 32-bit halves
+export function hash32(text: string, seed: number): number {
+  let hash = (2166136261 ^ seed) >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Simhash over word pairs of the title and body. Small edits such as a
+ * reworded sentence or an added "[crosspost]" flip only a few bits.
+ */
+export function computeContentHash(title: string, body = ''): string | null {
+  const words = tokenize(`${title} ${body}`);
+  if (words.length < MIN_HASH_WORDS) return null;
+
+  const weights = new Array(64).fill(0);
+  for (let i = 0; i < words.length - 1; i++) {
+    const shingle = `${words[i]} ${words[i + 1]}`;
+    const halves = [hash32(shingle, 0), hash32(shingle, 0x9e3779b9)];
+    for (let bit = 0; bit < 64; bit++) {
+      const isSet = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += isSet ? 1 : -1;
+    }
+  }
+
+  let hex = '';
+  for (let nibble = 0; nibble < 16; nibble++) {
+    let value = 0;
+    for (let bit = 0; bit < 4; bit++) {
+      if (weights[nibble * 4 + bit] > 0) value |= 1 << bit;
+    }
+    hex += value.toString(16);
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
+
+export function fingerprintDiscussion(
+  discussion: SimilarityCandidate
+): DiscussionFingerprint {
+  return {
+    groupKey: discussion.crosspost_parent
+      ? discussion.crosspost_parent.replace(/^t3_/, '')
+      : discussion.id,
+    contentHash: computeContentHash(discussion.title, discussion.content),
+  };
+}
+
+function isSameDiscussion(
+  a: DiscussionFingerprint,
+  b: DiscussionFingerprint
+): DuplicateDiscussion<unknown>['reason'] | null {
+  if (a.groupKey === b.groupKey) return 'crosspost';
+  if (
+    a.contentHash &&
+    b.contentHash &&
+    hammingDistance(a.contentHash, b.contentHash) <= NEAR_DUPLICATE_MAX_DISTANCE
+  ) {
+    return 'near_duplicate';
+  }
+  return null;
+}
+
+/**
+ * Keep one discussion per crosspost group or near-duplicate cluster. The
+ * first occurrence wins, so callers should pass candidates in preference
+ * order.
+ */
+export function collapseDuplicateDiscussions<T extends SimilarityCandidate>(
+  discussions: T[]
+): { kept: T[]; duplicates: DuplicateDiscussion<T>[] } {
+  const kept: { discussion: T; fingerprint: DiscussionFingerprint }[] = [];
+  const duplicates: DuplicateDiscussion<T>[] = [];
+
+  for (const discussion of discussions) {
+    const fingerprint = fingerprintDiscussion(discussion);
+    let match: DuplicateDiscussion<T> | null = null;
+    for (const existing of kept) {
+      const reason = isSameDiscussion(fingerprint, existing.fingerprint);
+      if (reason) {
+        match = { discussion, duplicateOf: existing.discussion.id, reason };
+        break;
+      }
+    }
+
+    if (match) {
+      duplicates.push(match);
+    } else {
+      kept.push({ discussion, fingerprint });
+    }
+  }
+
+  return { kept: kept.map((entry) => entry.discussion), duplicates };
+}
+
+/**
+ * Columns stored with a posted reply or queued candidate so later copies of
+ * the same discussion can be recognised
+ */
+export function getDuplicateColumns(discussion: SimilarityCandidate): {
+  duplicate_group_key: string;
+  content_hash: string | null;
+} {
+  const fingerprint = fingerprintDiscussion(discussion);
+  return {
+    duplicate_group_key: fingerprint.groupKey,
+    content_hash: fingerprint.contentHash,
+  };
+}
+
+/**
+ * Discussions that belong to a group the config already has a reply in,
+ * either as a crosspost of a replied post or as a near-duplicate of one.
+ * Returns the duplicate ids mapped to the replied post id.
+ */
+export async function findRepliedDuplicates(
+  supabaseAdmin: any,
+  websiteConfigId: string,
+  discussions: SimilarityCandidate[],
+  table:
+    | 'posted_reddit_discussions'
+    | 'backfill_candidates' = 'posted_reddit_discussions'
+): Promise<Map<string, string>> {
+  const duplicates = new Map<string, string>();
+  if (discussions.length === 0) return duplicates;
+
+  const fingerprints = discussions.map((discussion) => ({
+    id: discussion.id,
+    fingerprint: fingerprintDiscussion(discussion),
+  }));
+  const groupKeys = Array.from(
+    new Set(fingerprints.map(({ fingerprint }) => fingerprint.groupKey))
+  );
+  const since = new Date(
+    Date.now() - REPLIED_HASH_LOOKBACK_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+
+  // Rows written before grouping existed have no group key; their own post
+  // id is their group.
+  const [byGroup, byHash] = await Promise.all([
+    supabaseAdmin
+      .from(table)
+      .select('reddit_post_id, duplicate_group_key, content_hash')
+      .eq('website_config_id', websiteConfigId)
+      .or(
+        `duplicate_group_key.in.(${groupKeys.join(',')}),reddit_post_id.in.(${groupKeys.join(',')})`
+      ),
+    supabaseAdmin
+      .from(table)
+      .select('reddit_post_id, duplicate_group_key, content_hash')
+      .eq('website_config_id', websiteConfigId)
+      .not('content_hash', 'is', null)
+      .gte('created_at', since)
+      // Busy configs can exceed the cap; keep the most recent replies
+      .order('created_at', { ascending: false })
+      .limit(REPLIED_HASH_LOOKBACK_LIMIT),
+  ]);
+
+  if (byGroup.error || byHash.error) {
+    console.error(
+      '[DUPLICATE_DETECTION] Failed to load replied discussions:',
+      byGroup.error || byHash.error
+    );
+    return duplicates;
+  }
+
+  const replied = [...(byGroup.data || []), ...(byHash.data || [])].map(
+    (row: any) => ({
+      postId: row.reddit_post_id as string,
+      fingerprint: {
+        groupKey: row.duplicate_group_key || row.reddit_post_id,
+        contentHash: row.content_hash,
+      },
+    })
+  );
+
+  for (const { id, fingerprint } of fingerprints) {
+    const match = replied.find(
+      (row) =>
+        row.postId !== id && isSameDiscussion(fingerprint, row.fingerprint)
+    );
+    if (match) duplicates.set(id, match.postId);
+  }
+
+  return duplicates;
+}
@@ -0,0 +1,362 @@
+/**
+ * Keyword expressions for target_keywords and negative_keywords.
+ *
+ *   invoic*                      word, * matches any word characters
+ *   "project management"         phrase
+ *   crm AND (startup OR smb)     boolean operators, upper case only
+ *   pricing NOT enterprise       NOT (or a leading -) excludes a term
+ *   title:"looking for"          match the title only (body: for the body)
+ *
+ * Adjacent terms without an operator must all match (implicit AND), so a
+ * plain "scheduling app" keyword needs both words somewhere in the post.
+ *
+ * Negative keywords always filter. Target keywords only filter when the
+ * config opts in (see isTargetKeywordRequired); otherwise they are scoring
+ * hints. See docs/keyword-filters.md.
+ */
+
+export type KeywordField = 'any' | 'title' | 'body';
+
+export type KeywordNode =
+  | { type: 'term'; value: string; field: KeywordField; pattern: RegExp }
+  | { type: 'and' | 'or'; children: KeywordNode[] }
+  | { type: 'not'; child: KeywordNode };
+
+export interface KeywordQuery {
+  source: string;
+  node: KeywordNode;
+}
+
+export type KeywordQueryParseResult =
+  | { ok: true; query: KeywordQuery }
+  | { ok: false; error: string };
+
+export interface KeywordMatchText {
+  title: string;
+  body: string;
+}
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' }
+  | { type: 'field'; field: KeywordField }
+  | { type: 'term'; value: string; phrase: boolean };
+
+class KeywordQueryError extends Error {}
+
+const OPERATORS: Record<string, Token['type']> = {
+  AND: 'and',
+  OR: 'or',
+  NOT: 'not',
+};
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    const char = input[index];
+
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen' });
+      index += 1;
+    } else if (
+      char === '-' &&
+      index + 1 < input.length &&
+      !/\s/.test(input[index + 1])
+    ) {
+      tokens.push({ type: 'not' });
+      index += 1;
+    } else if (char === '"') {
+      const end = input.indexOf('"', index + 1);
+      if (end === -1) throw new KeywordQueryError('Unclosed quote');
+      const value = input.slice(index + 1, end).trim();
+      if (!value) throw new KeywordQueryError('Empty phrase');
+      tokens.push({ type: 'term', value, phrase: true });
+      index = end + 1;
+    } else {
+      let end = index;
+      while (end < input.length && !/[\s()"]/.test(input[end])) end += 1;
+      const word = input.slice(index, end);
+      const fieldMatch = word.match(/^(title|body):$/i);
+
+      if (fieldMatch) {
+        tokens.push({
+          type: 'field',
+          field: fieldMatch[1].toLowerCase() as KeywordField,
+        });
+      } else if (/^(title|body):./i.test(word)) {
+        const separator = word.indexOf(':');
+        tokens.push({
+          type: 'field',
+          field: word.slice(0, separator).toLowerCase() as KeywordField,
+        });
+        tokens.push({
+          type: 'term',
+          value: word.slice(separator + 1),
+          phrase: false,
+        });
+      } else if (OPERATORS[word]) {
+        tokens.push({ type: OPERATORS[word] } as Token);
+      } else {
+        tokens.push({ type: 'term', value: word, phrase: false });
+      }
+      index = end;
+    }
+  }
+
+  return tokens;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function buildTermPattern(value: string): RegExp {
+  const words = value
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => escapeRegExp(word).replace(/\*/g, '\\w*'));
+
+  if (words.length === 0 || words.every((word) => word === '\\w*')) {
+    throw new KeywordQueryError(
+      `"${value}" needs at least one letter or digit`
+    );
+  }
+
+  return new RegExp(`(?:^|\\W)${words.join('\\W+')}(?=\\W|$)`, 'i');
+}
+
+function makeTerm(value: string, field: KeywordField): KeywordNode {
+  return { type: 'term', value, field, pattern: buildTermPattern(value) };
+}
+
+function applyField(node: KeywordNode, field: KeywordField): KeywordNode {
+  if (node.type === 'term') {
+    return node.field === 'any' ? { ...node, field } : node;
+  }
+  if (node.type === 'not') {
+    return { type: 'not', child: applyField(node.child, field) };
+  }
+  return {
+    type: node.type,
+    children: node.children.map((child) => applyField(child, field)),
+  };
+}
+
+class Parser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): KeywordNode {
+    if (this.tokens.length === 0)
+      throw new KeywordQueryError('Empty expression');
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new KeywordQueryError(
+        next.type === 'rparen' ? 'Unexpected ")"' : 'Unexpected token'
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private parseOr(): KeywordNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.position += 1;
+      children.push(this.parseAnd('OR'));
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(after?: string): KeywordNode {
+    const children = [this.parseNot(after)];
+
+    for (;;) {
+      const next = this.peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') break;
+      if (next.type === 'and') {
+        this.position += 1;
+        children.push(this.parseNot('AND'));
+      } else {
+        children.push(this.parseNot());
+      }
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseNot(after?: string): KeywordNode {
+    if (this.peek()?.type === 'not') {
+      this.position += 1;
+      return { type: 'not', child: this.parseNot('NOT') };
+    }
+    return this.parsePrimary(after);
+  }
+
+  private parsePrimary(after?: string): KeywordNode {
+    const token = this.peek();
+    if (!token) {
+      throw new KeywordQueryError(
+        after ? `Missing term after ${after}` : 'Empty expression'
+      );
+    }
+
+    this.position += 1;
+
+    if (token.type === 'field') {
+      return applyField(this.parsePrimary(`${token.field}:`), token.field);
+    }
+
+    if (token.type === 'lparen') {
+      const node = this.parseOr();
+      if (this.peek()?.type !== 'rparen')
+        throw new KeywordQueryError('Unmatched "("');
+      this.position += 1;
+      return node;
+    }
+
+    if (token.type === 'term') {
+      return makeTerm(token.value, 'any');
+    }
+
+    if (token.type === 'rparen') throw new KeywordQueryError('Unexpected ")"');
+    throw new KeywordQueryError(
+      `Missing term before ${token.type.toUpperCase()}`
+    );
+  }
+}
+
+/**
+ * Parse a keyword expression. Errors are returned, not thrown, so the config
+ * UI can show them next to the keyword.
+ */
+export function parseKeywordQuery(input: string): KeywordQueryParseResult {
+  try {
+    const node = new Parser(tokenize(input.trim())).parse();
+    return { ok: true, query: { source: input, node } };
+  } catch (error) {
+    if (error instanceof KeywordQueryError) {
+      return { ok: false, error: error.message };
+    }
+    throw error;
+  }
+}
+
+function matchesNode(node: KeywordNode, text: KeywordMatchText): boolean {
+  switch (node.type) {
+    case 'term':
+      if (node.field === 'title') return node.pattern.test(text.title);
+      if (node.field === 'body') return node.pattern.test(text.body);
+      return node.pattern.test(text.title) || node.pattern.test(text.body);
+    case 'and':
+      return node.children.every((child) => matchesNode(child, text));
+    case 'or':
+      return node.children.some((child) => matchesNode(child, text));
+    case 'not':
+      return !matchesNode(node.child, text);
+  }
+}
+
+export function matchesKeywordQuery(
+  query: KeywordQuery,
+  text: KeywordMatchText
+): boolean {
+  return matchesNode(query.node, text);
+}
+
+export type KeywordFilterReason = 'negative_keyword' | 'no_target_keyword';
+
+export interface KeywordFilterRejection<T> {
+  discussion: T;
+  reason: KeywordFilterReason;
+  detail?: string;
+}
+
+interface KeywordFilterCandidate {
+  title: string;
+  content?: string;
+  description?: string;
+}
+
+function compileKeywordList(keywords: string[] = []) {
+  const queries: KeywordQuery[] = [];
+  const invalid: { keyword: string; error: string }[] = [];
+
+  for (const keyword of keywords) {
+    if (!keyword?.trim()) continue;
+    const result = parseKeywordQuery(keyword);
+    if (result.ok) {
+      queries.push(result.query);
+    } else {
+      invalid.push({ keyword, error: result.error });
+    }
+  }
+
+  return { queries, invalid };
+}
+
+/**
+ * Deterministic pre-filter run before any LLM scoring. A discussion is dropped
+ * when it matches a negative keyword, or when target keywords are configured
+ * and none of them match. Keywords that fail to parse are skipped.
+ */
+export function applyKeywordPrefilter<T extends KeywordFilterCandidate>(
+  discussions: T[],
+  {
+    targetKeywords = [],
+    negativeKeywords = [],
+  }: { targetKeywords?: string[]; negativeKeywords?: string[] }
+): {
+  passed: T[];
+  rejected: KeywordFilterRejection<T>[];
+  invalid: { keyword: string; error: string }[];
+} {
+  const targets = compileKeywordList(targetKeywords);
+  const negatives = compileKeywordList(negativeKeywords);
+  const passed: T[] = [];
+  const rejected: KeywordFilterRejection<T>[] = [];
+
+  for (const discussion of discussions) {
+    const text = {
+      title: discussion.title || '',
+      body: discussion.content || discussion.description || '',
+    };
+
+    const negativeMatch = negatives.queries.find((query) =>
+      matchesKeywordQuery(query, text)
+    );
+    if (negativeMatch) {
+      rejected.push({
+        discussion,
+        reason: 'negative_keyword',
+        detail: negativeMatch.source,
+      });
+      continue;
+    }
+
+    if (
+      targets.queries.length > 0 &&
+      !targets.queries.some((query) => matchesKeywordQuery(query, text))
+    ) {
+      rejected.push({ discussion, reason: 'no_target_keyword' });
+      continue;
+    }
+
+    passed.push(discussion);
+  }
+
+  return {
+    passed,
+    rejected,
+    invalid: [...targets.invalid, ...negatives.invalid],
+  };
+}
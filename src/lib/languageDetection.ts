@@ -0,0 +1,170 @@
+/**
+ * Lightweight language detection for Reddit posts. Non-Latin scripts are
+ * identified by their Unicode ranges; Latin-script languages by counting
+ * common function words, which is reliable for anything longer than a
+ * sentence or two.
+ */
+
+export const SUPPORTED_LANGUAGES = {
+  en: 'English',
+  es: 'Spanish',
+  pt: 'Portuguese',
+  fr: 'French',
+  de: 'German',
+  it: 'Italian',
+  nl: 'Dutch',
+  ru: 'Russian',
+  ja: 'Japanese',
+  ko: 'Korean',
+  zh: 'Chinese',
+  ar: 'Arabic',
+  hi: 'Hindi',
+} as const;
+
+export type LanguageCode = keyof typeof SUPPORTED_LANGUAGES;
+
+// Returned when a post is too short or too mixed to tell
+export const UNKNOWN_LANGUAGE = 'unknown';
+
+export type DetectedLanguage = LanguageCode | typeof UNKNOWN_LANGUAGE;
+
+export const DEFAULT_ALLOWED_LANGUAGES: LanguageCode[] = ['en'];
+
+const SCRIPT_PATTERNS: [LanguageCode, RegExp][] = [
+  // Kana first: Japanese text also uses Chinese characters
+  ['ja', /[\u3040-\u30ff]/g],
+  ['ko', /[\uac00-\ud7af]/g],
+  ['zh', /[\u4e00-\u9fff]/g],
+  ['ru', /[\u0400-\u04ff]/g],
+  ['ar', /[\u0600-\u06ff]/g],
+  ['hi', /[\u0900-\u097f]/g],
+];
+
+const wordSet = (words: string) => new Set(words.split(' '));
+
+const STOPWORDS: Partial<Record<LanguageCode, Set<string>>> = {
+  en: wordSet(
+    'the and is are was to of in for that it with on this my have but not you be can how what i do'
+  ),
+  es: wordSet(
+    'el la los las y es son que de en para con por una un mi pero no como lo se del al'
+  ),
+  pt: wordSet(
+    'o os as e é são que de em para com por uma um meu mas não como do da no na'
+  ),
+  fr: wordSet(
+    'le la les et est sont que de en pour avec une un mon mais pas comme je du des il'
+  ),
+  de: wordSet(
+    'der die das und ist sind dass zu in für mit ein eine mein aber nicht wie ich auf den'
+  ),
+  it: wordSet(
+    'il lo la gli le e è sono che di in per con una un mio ma non come del della'
+  ),
+  nl: wordSet(
+    'de het een en is zijn dat van in voor met mijn maar niet hoe ik op te'
+  ),
+};
+
+// Below this many stopword hits a Latin-script guess is a coin flip
+const MIN_STOPWORD_HITS = 3;
+// Share of letters a non-Latin script needs before it decides the language
+const MIN_SCRIPT_SHARE = 0.3;
+
+export function isLanguageCode(value: unknown): value is LanguageCode {
+  return (
+    typeof value === 'string' &&
+    Object.prototype.hasOwnProperty.call(SUPPORTED_LANGUAGES, value)
+  );
+}
+
+export function detectLanguage(text: string): DetectedLanguage {
+  const latinLetters = (text.match(/[a-zA-Z\u00c0-\u024f]/g) || []).length;
+
+  for (const [language, pattern] of SCRIPT_PATTERNS) {
+    const scriptLetters = (text.match(pattern) || []).length;
+    if (
+      scriptLetters > 0 &&
+      scriptLetters / (scriptLetters + latinLetters) >= MIN_SCRIPT_SHARE
+    ) {
+      return language;
+    }
+  }
+
+  const words = text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' ')
+    .split(/[^a-z\u00c0-\u024f]+/)
+    .filter(Boolean);
+
+  let best: LanguageCode | null = null;
+  let bestHits = 0;
+  let runnerUpHits = 0;
+  for (const language of Object.keys(STOPWORDS) as LanguageCode[]) {
+    const stopwords = STOPWORDS[language]!;
+    const hits = words.filter((word) => stopwords.has(word)).length;
+    if (hits > bestHits) {
+      runnerUpHits = bestHits;
+      best = language;
+      bestHits = hits;
+    } else if (hits > runnerUpHits) {
+      runnerUpHits = hits;
+    }
+  }
+
+  if (!best || bestHits < MIN_STOPWORD_HITS || bestHits === runnerUpHits) {
+    return UNKNOWN_LANGUAGE;
+  }
+  return best;
+}
+
+export function detectDiscussionLanguage(discussion: {
+  title?: string;
+  content?: string;
+}): DetectedLanguage {
+  return detectLanguage(
+    `${discussion.title || ''}\n${discussion.content || ''}`
+  );
+}
+
+export interface LanguageRejection<T> {
+  discussion: T;
+  reason: 'language_not_allowed';
+  detail: string;
+}
+
+/**
+ * Split discussions by whether their language is enabled for the config.
+ * Posts whose language can't be told are kept and scored as before.
+ */
+export function applyLanguageFilter<
+  T extends { id: string; title?: string; content?: string },
+>(
+  discussions: T[],
+  allowedLanguages: string[]
+): {
+  passed: T[];
+  rejected: LanguageRejection<T>[];
+  languages: Map<string, DetectedLanguage>;
+} {
+  const passed: T[] = [];
+  const rejected: LanguageRejection<T>[] = [];
+  const languages = new Map<string, DetectedLanguage>();
+
+  for (const discussion of discussions) {
+    const language = detectDiscussionLanguage(discussion);
+    languages.set(discussion.id, language);
+
+    if (language === UNKNOWN_LANGUAGE || allowedLanguages.includes(language)) {
+      passed.push(discussion);
+    } else {
+      rejected.push({
+        discussion,
+        reason: 'language_not_allowed',
+        detail: `Written in ${SUPPORTED_LANGUAGES[language]}`,
+      });
+    }
+  }
+
+  return { passed, rejected, languages };
+}
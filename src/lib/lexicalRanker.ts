@@ -0,0 +1,244 @@
+/**
+ * Local BM25 ranking of candidates against a config's own text, so only the
+ * most promising discussions are sent to the LLM for scoring.
+ *
+ * The query is built from the config: target keywords weigh most, then
+ * customer segments and business context terms, then the description.
+ * Document frequencies come from the candidates being ranked.
+ */
+
+import {
+  DetectedLanguage,
+  UNKNOWN_LANGUAGE,
+  detectLanguage,
+} from './languageDetection';
+
+export interface LexicalRankerConfig {
+  target_keywords?: string[];
+  keywords?: string[];
+  customer_segments?: string[];
+  business_context_terms?: string[];
+  website_description?: string;
+  description?: string;
+}
+
+interface LexicalCandidate {
+  id: string;
+  title: string;
+  content?: string;
+}
+
+export interface LexicalRejection<T> {
+  discussion: T;
+  reason: 'below_lexical_floor' | 'outside_top_candidates';
+  detail: string;
+}
+
+// At most this many uncached candidates per run go to the LLM
+export const LEXICAL_PRERANK_MAX_CANDIDATES = 20;
+// Candidates scoring below this (0-100) share almost nothing with the config
+export const LEXICAL_PRERANK_MIN_SCORE = 5;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Title words count this many times in a document
+const TITLE_WEIGHT = 2;
+// A full score means matching this many of the strongest query terms
+const SCORE_BOUND_TERMS = 8;
+
+const QUERY_FIELD_WEIGHTS = {
+  keywords: 3,
+  segments: 2,
+  context: 2,
+  description: 1,
+};
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by can do for from has have how i if in is it ' +
+    'its me my no not of on or our so that the their them then there these ' +
+    'they this to up us was we what when which who why will with you your'
+  ).split(' ')
+);
+
+// Anything but letters, their combining marks and digits, in any script.
+// Built at runtime: the es5 target rejects the u flag on a literal.
+const NON_WORD_PATTERN = new RegExp('[^\\p{L}\\p{M}\\p{N}\\s]', 'gu');
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/https?:\/\/\S+/g, ' ')
+    .replace(/\b(AND|OR|NOT)\b/g, ' ')
+    .replace(/\b(title|body):/gi, ' ')
+    .toLowerCase()
+    .replace(NON_WORD_PATTERN, ' ')
+    .split(/\s+/)
+    .filter((token) => token.length > 1 && !STOPWORDS.has(token))
+    .map((token) =>
+      // Fold simple plurals so "invoices" matches "invoice"
+      token.length > 3 && token.endsWith('s') && !token.endsWith('ss')
+        ? token.slice(0, -1)
+        : token
+    );
+}
+
+function buildQueryWeights(config: LexicalRankerConfig): Map<string, number> {
+  const weights = new Map<string, number>();
+  const add = (texts: (string | undefined)[], weight: number) => {
+    for (const token of tokenize(texts.filter(Boolean).join(' '))) {
+      weights.set(token, (weights.get(token) || 0) + weight);
+    }
+  };
+
+  add(
+    config.target_keywords || config.keywords || [],
+    QUERY_FIELD_WEIGHTS.keywords
+  );
+  add(config.customer_segments || [], QUERY_FIELD_WEIGHTS.segments);
+  add(config.business_context_terms || [], QUERY_FIELD_WEIGHTS.context);
+  add(
+    [config.website_description || config.description],
+    QUERY_FIELD_WEIGHTS.description
+  );
+  return weights;
+}
+
+/**
+ * The language the config's text is written in, English when it can't be
+ * told
+ */
+export function detectLexicalQueryLanguage(
+  config: LexicalRankerConfig
+): DetectedLanguage {
+  const language = detectLanguage(
+    [
+      ...(config.target_keywords || config.keywords || []),
+      ...(config.customer_segments || []),
+      ...(config.business_context_terms || []),
+      config.website_description || config.description || '',
+    ].join('\n')
+  );
+  return language === UNKNOWN_LANGUAGE ? 'en' : language;
+}
+
+/**
+ * Lexical relevance of each candidate on a 0-100 scale, keyed by id. 100
+ * means the post contains the strongest query terms several times over.
+ */
+export function computeLexicalScores<T extends LexicalCandidate>(
+  candidates: T[],
+  config: LexicalRankerConfig
+): Map<string, number> {
+  const scores = new Map<string, number>();
+  const queryWeights = buildQueryWeights(config);
+  if (candidates.length === 0) return scores;
+
+  const documents = candidates.map((candidate) => {
+    const titleTokens = tokenize(candidate.title || '');
+    const tokens = tokenize(candidate.content || '');
+    for (let i = 0; i < TITLE_WEIGHT; i++) tokens.push(...titleTokens);
+
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) || 0) + 1);
+    }
+    return { id: candidate.id, length: tokens.length, frequencies };
+  });
+
+  const averageLength =
+    documents.reduce((sum, document) => sum + document.length, 0) /
+      documents.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const document of documents) {
+    document.frequencies.forEach((_, token) => {
+      if (queryWeights.has(token)) {
+        documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1);
+      }
+    });
+  }
+
+  const idf = (token: string) => {
+    const frequency = documentFrequency.get(token) || 0;
+    return Math.log(
+      1 + (documents.length - frequency + 0.5) / (frequency + 0.5)
+    );
+  };
+
+  // Best possible score: the strongest query terms that any candidate uses,
+  // each at saturation
+  const bound = Array.from(documentFrequency.keys())
+    .map((token) => queryWeights.get(token)! * idf(token) * (BM25_K1 + 1))
+    .sort((a, b) => b - a)
+    .slice(0, SCORE_BOUND_TERMS)
+    .reduce((sum, value) => sum + value, 0);
+
+  for (const document of documents) {
+    let raw = 0;
+    document.frequencies.forEach((frequency, token) => {
+      const weight = queryWeights.get(token);
+      if (!weight) return;
+      raw +=
+        (weight * idf(token) * frequency * (BM25_K1 + 1)) /
+        (frequency +
+          BM25_K1 * (1 - BM25_B + (BM25_B * document.length) / averageLength));
+    });
+    scores.set(
+      document.id,
+      bound > 0 ? Math.min(100, Math.round((100 * raw) / bound)) : 0
+    );
+  }
+  return scores;
+}
+
+/**
+ * Split candidates into the ones worth an LLM call and the rest: those at
+ * or above the floor, best first, up to maxCandidates. Posts detected in
+ * another language than queryLanguage share few words with the config
+ * whatever their topic, so only the maxCandidates cap applies to them.
+ */
+export function applyLexicalPrerank<T extends LexicalCandidate>(
+  candidates: T[],
+  scores: Map<string, number>,
+  {
+    maxCandidates = LEXICAL_PRERANK_MAX_CANDIDATES,
+    minScore = LEXICAL_PRERANK_MIN_SCORE,
+    languages,
+    queryLanguage = 'en',
+  }: {
+    maxCandidates?: number;
+    minScore?: number;
+    languages?: Map<string, DetectedLanguage>;
+    queryLanguage?: DetectedLanguage;
+  } = {}
+): { passed: T[]; rejected: LexicalRejection<T>[] } {
+  const isOtherLanguage = (discussion: T) => {
+    const language = languages?.get(discussion.id) || UNKNOWN_LANGUAGE;
+    return language !== UNKNOWN_LANGUAGE && language !== queryLanguage;
+  };
+
+  const ranked = candidates
+    .slice()
+    .sort((a, b) => (scores.get(b.id) || 0) - (scores.get(a.id) || 0));
+  const passed: T[] = [];
+  const rejected: LexicalRejection<T>[] = [];
+
+  for (const discussion of ranked) {
+    const score = scores.get(discussion.id) || 0;
+    if (score < minScore && !isOtherLanguage(discussion)) {
+      rejected.push({
+        discussion,
+        reason: 'below_lexical_floor',
+        detail: `Lexical score ${score} is below ${minScore}`,
+      });
+    } else if (passed.length >= maxCandidates) {
+      rejected.push({
+        discussion,
+        reason: 'outside_top_candidates',
+        detail: `Lexical score ${score} is outside the top ${maxCandidates}`,
+      });
+    } else {
+      passed.push(discussion);
+    }
+  }
+  return { passed, rejected };
+}
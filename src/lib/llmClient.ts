@@ -0,0 +1,419 @@
+import { apiKeyManager } from '../utils/apiKeyManager';
+import { sleep } from '../utils/retry';
+
+export type LlmProvider = 'groq' | 'gemini' | 'openai-compatible';
+
+/**
+ * What a completion is for. Each task can run on its own provider and
+ * model, e.g. a small fast model for scoring and a larger one for replies.
+ */
+export type LlmTask =
+  | 'scoring'
+  | 'reply'
+  | 'description'
+  | 'segments'
+  | 'queries';
+
+export interface LlmCompletionRequest {
+  prompt: string;
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+  topP?: number;
+  // Pool keys are acquired and released on behalf of this user
+  userId?: string;
+  maxAttempts?: number;
+}
+
+export interface LlmCompletion {
+  text: string;
+  provider: LlmProvider;
+  model: string;
+}
+
+export interface LlmClient {
+  readonly provider: LlmProvider;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+/**
+ * Request options for a task. `client` and `model` replace the task's
+ * configured provider and model, e.g. to score with a mock client offline.
+ */
+export type LlmTaskOptions = Omit<LlmCompletionRequest, 'prompt' | 'model'> & {
+  client?: LlmClient;
+  model?: string;
+};
+
+export interface LlmModelConfig {
+  provider: LlmProvider;
+  model: string;
+}
+
+export class LlmError extends Error {
+  constructor(
+    message: string,
+    public provider: LlmProvider,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'LlmError';
+  }
+}
+
+const LLM_PROVIDERS: LlmProvider[] = ['groq', 'gemini', 'openai-compatible'];
+
+const DEFAULT_MODELS: Record<LlmProvider, string> = {
+  groq: process.env.LLM_GROQ_MODEL || 'llama-3.1-8b-instant',
+  gemini: process.env.LLM_GEMINI_MODEL || 'gemini-1.5-flash',
+  'openai-compatible': process.env.LLM_OPENAI_COMPATIBLE_MODEL || 'llama3.1',
+};
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 2000;
+
+function isLlmProvider(value: unknown): value is LlmProvider {
+  return LLM_PROVIDERS.includes(value as LlmProvider);
+}
+
+/**
+ * Provider and model for a task, from LLM_<TASK>_PROVIDER and
+ * LLM_<TASK>_MODEL, falling back to LLM_PROVIDER and the provider's
+ * default model
+ */
+export function getLlmModelConfig(task: LlmTask): LlmModelConfig {
+  const prefix = `LLM_${task.toUpperCase()}`;
+  const configured =
+    process.env[`${prefix}_PROVIDER`] || process.env.LLM_PROVIDER;
+  const provider = isLlmProvider(configured) ? configured : 'groq';
+
+  return {
+    provider,
+    model: process.env[`${prefix}_MODEL`] || DEFAULT_MODELS[provider],
+  };
+}
+
+interface LlmKeySource {
+  // null when no key is available; '' when the endpoint needs none
+  acquire(userId: string): Promise<string | null>;
+  release(key: string, userId: string): void;
+  reportError(key: string, error: Error, userId: string): Promise<void>;
+}
+
+// Keys from the api_keys table, shared with the rest of the app
+function pooledKeys(provider: 'groq' | 'gemini'): LlmKeySource {
+  return {
+    async acquire(userId) {
+      await apiKeyManager.releaseExpiredRateLimitedKeys();
+      return apiKeyManager.acquireApiKey(userId, provider);
+    },
+    release(key, userId) {
+      // Release waits before freeing the key; no need to hold the caller
+      apiKeyManager.releaseApiKey(key, userId);
+    },
+    reportError(key, error, userId) {
+      return apiKeyManager.handleApiKeyError(key, error, userId);
+    },
+  };
+}
+
+function staticKey(key: string | undefined): LlmKeySource {
+  return {
+    acquire: async () => key || '',
+    release: () => undefined,
+    reportError: async () => undefined,
+  };
+}
+
+function parseRetryAfterMs(
+  retryAfterHeader: string | null,
+  message: string
+): number | undefined {
+  const headerSeconds = Number(retryAfterHeader);
+  if (retryAfterHeader && Number.isFinite(headerSeconds)) {
+    return headerSeconds * 1000;
+  }
+  const match = message.match(/Please try again in ([\d.]+)s/);
+  return match ? (parseFloat(match[1]) + 0.5) * 1000 : undefined;
+}
+
+async function toLlmError(
+  provider: LlmProvider,
+  response: Response
+): Promise<LlmError> {
+  const body = await response.text();
+  let message = body.substring(0, 500);
+  try {
+    const json = JSON.parse(body);
+    message =
+      json?.error?.message ||
+      (typeof json?.error === 'string' ? json.error : message);
+  } catch {
+    // Not JSON; keep the raw body
+  }
+
+  return new LlmError(
+    `${provider} ${response.status}: ${message}`,
+    provider,
+    response.status,
+    parseRetryAfterMs(response.headers.get('retry-after'), message)
+  );
+}
+
+function isAuthError(error: any): boolean {
+  return (
+    error instanceof LlmError && (error.status === 401 || error.status === 403)
+  );
+}
+
+// Rate limits, server errors, bad keys and network failures can succeed on
+// another attempt; other errors, such as a prompt too large for the model,
+// can't. Tokens-per-minute overruns go back to the caller, which can shrink
+// the prompt instead of sending the same one again.
+function isRetryable(error: any): boolean {
+  if (!(error instanceof LlmError) || error.status === undefined) return true;
+  if (error.message.includes('tokens per minute (TPM)')) return false;
+  return error.status === 429 || error.status >= 500 || isAuthError(error);
+}
+
+/**
+ * Send a request with a fresh key per attempt, reporting failed keys to the
+ * pool and waiting as long as the provider asks between attempts. This is
+ * the only retry layer for provider errors; callers should not retry them.
+ * A rejected key is never tried again: an auth failure is retried only when
+ * the pool hands out another key.
+ */
+async function withKeyRetries(
+  provider: LlmProvider,
+  keys: LlmKeySource,
+  request: LlmCompletionRequest,
+  send: (key: string) => Promise<string>
+): Promise<LlmCompletion> {
+  const userId = request.userId || 'system';
+  const maxAttempts = request.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+  const rejectedKeys = new Set<string>();
+  let lastError: any = null;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const key = await keys.acquire(userId);
+    if (key === null) {
+      throw new LlmError(`No available ${provider} API keys`, provider, 503);
+    }
+    if (rejectedKeys.has(key)) {
+      keys.release(key, userId);
+      break;
+    }
+
+    try {
+      const text = await send(key);
+      keys.release(key, userId);
+      return { text, provider, model: request.model };
+    } catch (error: any) {
+      lastError = error;
+      // Only auth and rate-limit failures say anything about the key itself
+      if (
+        isAuthError(error) ||
+        (error instanceof LlmError && error.status === 429)
+      ) {
+        await keys.reportError(key, error, userId);
+      }
+      if (isAuthError(error)) rejectedKeys.add(key);
+      keys.release(key, userId);
+
+      if (!isRetryable(error) || attempt === maxAttempts) break;
+
+      // Another key can go out straight away after an auth failure
+      const waitMs = isAuthError(error)
+        ? 0
+        : error instanceof LlmError && error.retryAfterMs !== undefined
+          ? error.retryAfterMs
+          : DEFAULT_RETRY_DELAY_MS * attempt;
+      console.warn(
+        `[LLM] ${provider} attempt ${attempt}/${maxAttempts} failed (${error.message}); retrying in ${Math.ceil(waitMs / 1000)}s`
+      );
+      await sleep(waitMs);
+    }
+  }
+
+  throw lastError instanceof LlmError
+    ? lastError
+    : new LlmError(
+        `${provider} request failed: ${lastError?.message || 'Unknown error'}`,
+        provider
+      );
+}
+
+/**
+ * Chat completions API, as served by Groq, OpenAI and local servers such as
+ * Ollama or llama.cpp
+ */
+export class OpenAiCompatibleLlmClient implements LlmClient {
+  constructor(
+    readonly provider: LlmProvider,
+    private baseUrl: string,
+    private keys: LlmKeySource
+  ) {}
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    return withKeyRetries(this.provider, this.keys, request, async (key) => {
+      const response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(key ? { Authorization: `Bearer ${key}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: [{ role: 'user', content: request.prompt }],
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? 500,
+          ...(request.topP !== undefined ? { top_p: request.topP } : {}),
+        }),
+      });
+
+      if (!response.ok) throw await toLlmError(this.provider, response);
+
+      const data = await response.json();
+      const text = data?.choices?.[0]?.message?.content;
+      if (typeof text !== 'string' || !text) {
+        throw new LlmError(
+          `Unexpected response format from ${this.provider}`,
+          this.provider
+        );
+      }
+      return text;
+    });
+  }
+}
+
+export class GeminiLlmClient implements LlmClient {
+  readonly provider = 'gemini';
+
+  constructor(private keys: LlmKeySource) {}
+
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    return withKeyRetries(this.provider, this.keys, request, async (key) => {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${request.model}:generateContent`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'x-goog-api-key': key,
+          },
+          body: JSON.stringify({
+            contents: [{ role: 'user', parts: [{ text: request.prompt }] }],
+            generationConfig: {
+              temperature: request.temperature ?? 0.7,
+              maxOutputTokens: request.maxTokens ?? 500,
+              ...(request.topP !== undefined ? { topP: request.topP } : {}),
+            },
+          }),
+        }
+      );
+
+      if (!response.ok) throw await toLlmError(this.provider, response);
+
+      const data = await response.json();
+      const text = (data?.candidates?.[0]?.content?.parts || [])
+        .map((part: { text?: string }) => part.text || '')
+        .join('');
+      if (!text) {
+        throw new LlmError(
+          `Unexpected response format from gemini (${data?.candidates?.[0]?.finishReason || 'no candidates'})`,
+          this.provider
+        );
+      }
+      return text;
+    });
+  }
+}
+
+const clients: Partial<Record<LlmProvider, LlmClient>> = {};
+
+export function getLlmClient(provider: LlmProvider): LlmClient {
+  if (!clients[provider]) {
+    clients[provider] =
+      provider === 'gemini'
+        ? new GeminiLlmClient(pooledKeys('gemini'))
+        : provider === 'groq'
+          ? new OpenAiCompatibleLlmClient(
+              'groq',
+              'https://api.groq.com/openai/v1',
+              pooledKeys('groq')
+            )
+          : new OpenAiCompatibleLlmClient(
+              'openai-compatible',
+              (
+                process.env.LLM_OPENAI_COMPATIBLE_BASE_URL ||
+                'http://localhost:11434/v1'
+              ).replace(/\/$/, ''),
+              staticKey(process.env.LLM_OPENAI_COMPATIBLE_API_KEY)
+            );
+  }
+  return clients[provider]!;
+}
+
+/**
+ * Run a prompt on the provider and model configured for `task`. Throws
+ * LlmError once retries are used up.
+ */
+export async function completeLlmTask(
+  task: LlmTask,
+  prompt: string,
+  options: LlmTaskOptions = {}
+): Promise<LlmCompletion> {
+  const { client, model, ...request } = options;
+  const config = getLlmModelConfig(task);
+  return (client || getLlmClient(config.provider)).complete({
+    ...request,
+    prompt,
+    model: model || config.model,
+  });
+}
+
+/**
+ * completeLlmTask for callers that want an error string instead of a throw
+ */
+export async function generateLlmText(
+  task: LlmTask,
+  prompt: string,
+  options: LlmTaskOptions = {}
+): Promise<{ text: string; error?: string }> {
+  try {
+    const { text } = await completeLlmTask(task, prompt, options);
+    return { text };
+  } catch (error: any) {
+    console.error(`[LLM] ${task} generation failed:`, error);
+    return {
+      text: '',
+      error: `Text generation failed: ${error?.message || 'Unknown error'}`,
+    };
+  }
+}
+
+/**
+ * Parse the JSON object or array in a model response, tolerating markdown
+ * code fences and text around it. Returns null when there is none.
+ */
+export function extractLlmJson(text: string): any | null {
+  const unfenced = text
+    .replace(/```(?:json)?\s*/g, '')
+    .replace(/```/g, '')
+    .trim();
+
+  for (const candidate of [
+    unfenced,
+    unfenced.match(/\{[\s\S]*\}/)?.[0],
+    unfenced.match(/\[[\s\S]*\]/)?.[0],
+  ]) {
+    if (!candidate) continue;
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return null;
+}
@@ -0,0 +1,497 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  LlmCompletion,
+  LlmTask,
+  LlmTaskOptions,
+  completeLlmTask,
+  extractLlmJson,
+} from './llmClient';
+
+export type LlmFieldSchema = { optional?: boolean } & (
+  | { type: 'boolean' }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'string'; minLength?: number; maxLength?: number; pattern?: RegExp }
+  | {
+      type: 'string[]';
+      minItems?: number;
+      maxItems?: number;
+      itemPattern?: RegExp;
+    }
+);
+
+/**
+ * Declared shape of a model response. `parse` takes the raw response text
+ * and returns the validated value or what was wrong with it.
+ */
+export interface LlmOutputSchema<T> {
+  name: string;
+  // Used in the repair prompt, e.g. "a JSON object with ..."
+  description: string;
+  parse(text: string): { value: T } | { errors: string[] };
+}
+
+export interface ScoringOutput {
+  intentScore: number;
+  contextMatchScore: number;
+  qualityScore: number;
+  finalScore: number;
+  reasoning: string;
+  engagementScore?: number;
+}
+
+export type BatchScoringOutput = (ScoringOutput & { id: string })[];
+
+// The standalone relevance-score endpoint's format
+export interface RelevanceScoreOutput {
+  intentScore: number;
+  contextMatchScore: number;
+  qualityScore: number;
+  engagementScore: number;
+  finalScore: number;
+  filteringReason?: string | null;
+}
+
+export interface PostAnalysisOutput {
+  isRelevant: boolean;
+  confidence: number;
+  keywordMatches: string[];
+  reasoning: string;
+}
+
+export interface ReplyOutput {
+  reply: string;
+  confidence: number;
+  tone_used?: string;
+  character_count?: number;
+  keywords_used?: string[];
+}
+
+export class LlmOutputError extends Error {
+  constructor(
+    public schema: string,
+    public errors: string[],
+    public completion: LlmCompletion
+  ) {
+    super(
+      `${completion.provider}/${completion.model} returned invalid ${schema} output: ${errors.join('; ')}`
+    );
+    this.name = 'LlmOutputError';
+  }
+}
+
+function describeField(name: string, field: LlmFieldSchema): string {
+  let detail: string = field.type;
+  if (field.type === 'number' && (field.min ?? field.max) !== undefined) {
+    detail += ` ${field.min ?? '-∞'}-${field.max ?? '∞'}`;
+  }
+  if (field.type === 'string' && field.maxLength !== undefined) {
+    detail += ` up to ${field.maxLength} chars`;
+  }
+  return `"${name}" (${detail}${field.optional ? ', optional' : ''})`;
+}
+
+function validateField(
+  path: string,
+  value: unknown,
+  field: LlmFieldSchema
+): string[] {
+  if (value === undefined || value === null) {
+    return field.optional ? [] : [`${path} is missing`];
+  }
+
+  switch (field.type) {
+    case 'boolean':
+      return typeof value === 'boolean'
+        ? []
+        : [`${path} must be true or false, got ${JSON.stringify(value)}`];
+
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        return [`${path} must be a number, got ${JSON.stringify(value)}`];
+      }
+      if (
+        (field.min !== undefined && value < field.min) ||
+        (field.max !== undefined && value > field.max)
+      ) {
+        return [
+          `${path} must be between ${field.min ?? '-∞'} and ${field.max ?? '∞'}, got ${value}`,
+        ];
+      }
+      return [];
+
+    case 'string':
+      if (typeof value !== 'string') {
+        return [`${path} must be a string`];
+      }
+      if (value.trim().length < (field.minLength ?? 0)) {
+        return [`${path} must be at least ${field.minLength} characters`];
+      }
+      if (field.maxLength !== undefined && value.length > field.maxLength) {
+        return [
+          `${path} must be at most ${field.maxLength} characters, got ${value.length}`,
+        ];
+      }
+      if (field.pattern && !field.pattern.test(value)) {
+        return [`${path} has an invalid format: ${JSON.stringify(value)}`];
+      }
+      return [];
+
+    case 'string[]': {
+      if (!Array.isArray(value)) {
+        return [`${path} must be an array of strings`];
+      }
+      const errors: string[] = [];
+      if (field.minItems !== undefined && value.length < field.minItems) {
+        errors.push(`${path} must have at least ${field.minItems} items`);
+      }
+      if (field.maxItems !== undefined && value.length > field.maxItems) {
+        errors.push(`${path} must have at most ${field.maxItems} items`);
+      }
+      value.forEach((item, index) => {
+        if (typeof item !== 'string') {
+          errors.push(`${path}[${index}] must be a string`);
+        } else if (field.itemPattern && !field.itemPattern.test(item)) {
+          errors.push(
+            `${path}[${index}] has an invalid format: ${JSON.stringify(item)}`
+          );
+        }
+      });
+      return errors;
+    }
+  }
+}
+
+/**
+ * Schema for a JSON object response with the given fields
+ */
+export function objectOutputSchema<T>(
+  name: string,
+  fields: Record<keyof T, LlmFieldSchema>
+): LlmOutputSchema<T> {
+  const entries = Object.entries(fields) as [string, LlmFieldSchema][];
+
+  return {
+    name,
+    description: `a JSON object with ${entries
+      .map(([key, field]) => describeField(key, field))
+      .join(', ')}`,
+    parse(text) {
+      const json = extractLlmJson(text);
+      if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        return { errors: ['response is not a JSON object'] };
+      }
+
+      const errors = entries.flatMap(([key, field]) =>
+        validateField(key, json[key], field)
+      );
+      return errors.length > 0 ? { errors } : { value: json as T };
+    },
+  };
+}
+
+/**
+ * Schema for a JSON array of strings
+ */
+export function stringArrayOutputSchema(
+  name: string,
+  field: Omit<Extract<LlmFieldSchema, { type: 'string[]' }>, 'type'>
+): LlmOutputSchema<string[]> {
+  return {
+    name,
+    description: `a JSON array of ${field.minItems ?? 0}-${field.maxItems ?? 'any number of'} strings`,
+    parse(text) {
+      const json = extractLlmJson(text);
+      if (!Array.isArray(json)) {
+        return { errors: ['response is not a JSON array'] };
+      }
+
+      const errors = validateField('response', json, {
+        ...field,
+        type: 'string[]',
+      });
+      return errors.length > 0 ? { errors } : { value: json };
+    },
+  };
+}
+
+/**
+ * Schema for a plain-text response, checked after trimming
+ */
+export function textOutputSchema(
+  name: string,
+  { minLength = 1, maxLength }: { minLength?: number; maxLength?: number }
+): LlmOutputSchema<string> {
+  return {
+    name,
+    description: `plain text of ${minLength}-${maxLength ?? 'any number of'} characters, with no labels or markdown`,
+    parse(text) {
+      const value = text.trim();
+      const errors = validateField('response', value, {
+        type: 'string',
+        minLength,
+        maxLength,
+      });
+      return errors.length > 0 ? { errors } : { value };
+    },
+  };
+}
+
+const SCORE_FIELD: LlmFieldSchema = { type: 'number', min: 0, max: 100 };
+
+const SCORING_FIELDS: Record<keyof ScoringOutput, LlmFieldSchema> = {
+  intentScore: SCORE_FIELD,
+  contextMatchScore: SCORE_FIELD,
+  qualityScore: SCORE_FIELD,
+  finalScore: SCORE_FIELD,
+  reasoning: { type: 'string', minLength: 1, maxLength: 1000 },
+  engagementScore: { ...SCORE_FIELD, optional: true },
+};
+
+export const SCORING_OUTPUT_SCHEMA = objectOutputSchema<ScoringOutput>(
+  'scoring',
+  SCORING_FIELDS
+);
+
+export const RELEVANCE_SCORE_OUTPUT_SCHEMA =
+  objectOutputSchema<RelevanceScoreOutput>('relevance_score', {
+    intentScore: SCORE_FIELD,
+    contextMatchScore: SCORE_FIELD,
+    qualityScore: SCORE_FIELD,
+    engagementScore: SCORE_FIELD,
+    finalScore: SCORE_FIELD,
+    filteringReason: { type: 'string', maxLength: 1000, optional: true },
+  });
+
+export const POST_ANALYSIS_OUTPUT_SCHEMA =
+  objectOutputSchema<PostAnalysisOutput>('post_analysis', {
+    isRelevant: { type: 'boolean' },
+    confidence: { type: 'number', min: 0, max: 1 },
+    keywordMatches: { type: 'string[]' },
+    reasoning: { type: 'string', minLength: 1, maxLength: 2000 },
+  });
+
+/**
+ * Schema for a batch scoring response: a JSON array with exactly one
+ * scoring object for each requested discussion id
+ */
+export function batchScoringOutputSchema(
+  ids: string[]
+): LlmOutputSchema<BatchScoringOutput> {
+  const entries = Object.entries(SCORING_FIELDS) as [string, LlmFieldSchema][];
+
+  return {
+    name: 'batch_scoring',
+    description: `a JSON array of ${ids.length} objects, one for each discussion id (${ids.join(', ')}), each with "id" (string), ${entries
+      .map(([key, field]) => describeField(key, field))
+      .join(', ')}`,
+    parse(text) {
+      const json = extractLlmJson(text);
+      // Some models wrap the array in an object despite the instructions
+      const items = Array.isArray(json) ? json : json?.scores;
+      if (!Array.isArray(items)) {
+        return { errors: ['response is not a JSON array'] };
+      }
+
+      const errors: string[] = [];
+      const seen = new Set<string>();
+      items.forEach((item: any, index: number) => {
+        if (!item || typeof item !== 'object' || Array.isArray(item)) {
+          errors.push(`[${index}] is not an object`);
+          return;
+        }
+        const id = String(item.id ?? '');
+        if (!ids.includes(id)) {
+          errors.push(
+            `[${index}].id ${JSON.stringify(item.id)} is not one of the requested ids`
+          );
+        } else if (seen.has(id)) {
+          errors.push(`[${index}].id ${id} appears more than once`);
+        }
+        seen.add(id);
+        errors.push(
+          ...entries.flatMap(([key, field]) =>
+            validateField(`[${index}].${key}`, item[key], field)
+          )
+        );
+      });
+
+      const missing = ids.filter((id) => !seen.has(id));
+      if (missing.length > 0) {
+        errors.push(`missing scores for ${missing.join(', ')}`);
+      }
+      return errors.length > 0
+        ? { errors }
+        : {
+            value: items.map((item: any) => ({ ...item, id: String(item.id) })),
+          };
+    },
+  };
+}
+
+// Replies are asked to stay under maxLength; twice that is clearly ignoring
+// the instruction
+export function replyOutputSchema(
+  maxLength: number
+): LlmOutputSchema<ReplyOutput> {
+  return objectOutputSchema<ReplyOutput>('reply', {
+    reply: { type: 'string', minLength: 1, maxLength: maxLength * 2 },
+    confidence: { type: 'number', min: 0, max: 1 },
+    tone_used: { type: 'string', optional: true },
+    character_count: { type: 'number', min: 0, optional: true },
+    keywords_used: { type: 'string[]', optional: true },
+  });
+}
+
+export const DESCRIPTION_OUTPUT_SCHEMA = textOutputSchema('description', {
+  minLength: 40,
+  maxLength: 1200,
+});
+
+export const SEGMENT_SUBREDDITS_OUTPUT_SCHEMA = stringArrayOutputSchema(
+  'segment_subreddits',
+  { minItems: 1, maxItems: 30, itemPattern: /^(r\/)?[A-Za-z0-9_]{2,21}$/ }
+);
+
+interface LlmOutputValidationCounts {
+  validated: number;
+  failed: number;
+  repaired: number;
+  unrepaired: number;
+}
+
+// Keyed by "provider/model", then schema name
+const validationCounts = new Map<
+  string,
+  Map<string, LlmOutputValidationCounts>
+>();
+
+function countValidation(
+  completion: LlmCompletion,
+  schema: string,
+  outcome: 'valid' | 'repaired' | 'unrepaired'
+): void {
+  const modelKey = `${completion.provider}/${completion.model}`;
+  if (!validationCounts.has(modelKey)) {
+    validationCounts.set(modelKey, new Map());
+  }
+  const bySchema = validationCounts.get(modelKey)!;
+  const counts = bySchema.get(schema) || {
+    validated: 0,
+    failed: 0,
+    repaired: 0,
+    unrepaired: 0,
+  };
+
+  counts.validated += 1;
+  if (outcome !== 'valid') counts.failed += 1;
+  if (outcome === 'repaired') counts.repaired += 1;
+  if (outcome === 'unrepaired') counts.unrepaired += 1;
+  bySchema.set(schema, counts);
+}
+
+/**
+ * Validation outcomes per model and schema since this instance started
+ */
+export function getLlmOutputValidationMetrics(): Record<
+  string,
+  Record<string, LlmOutputValidationCounts>
+> {
+  const metrics: Record<string, Record<string, LlmOutputValidationCounts>> = {};
+  validationCounts.forEach((bySchema, modelKey) => {
+    metrics[modelKey] = {};
+    bySchema.forEach((counts, schema) => {
+      metrics[modelKey][schema] = { ...counts };
+    });
+  });
+  return metrics;
+}
+
+async function recordValidationFailure(
+  task: LlmTask,
+  schema: string,
+  completion: LlmCompletion,
+  stage: 'initial' | 'repair',
+  errors: string[]
+): Promise<void> {
+  try {
+    const supabaseAdmin = createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+    );
+    const { error } = await supabaseAdmin
+      .from('llm_output_validation_failures')
+      .insert({
+        task,
+        schema_name: schema,
+        provider: completion.provider,
+        model: completion.model,
+        stage,
+        errors,
+        response_excerpt: completion.text.slice(0, 1000),
+      });
+    if (error) throw error;
+  } catch (error) {
+    console.error('[LLM_OUTPUT] Failed to record validation failure:', error);
+  }
+}
+
+function buildRepairPrompt(
+  prompt: string,
+  schema: LlmOutputSchema<unknown>,
+  text: string,
+  errors: string[]
+): string {
+  return `${prompt}
+
+=== YOUR PREVIOUS RESPONSE ===
+${text.slice(0, 2000)}
+
+That response was rejected because:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Respond again with ONLY ${schema.description}, fixing the problems above.`;
+}
+
+/**
+ * Run a task and validate the response against `schema`. An invalid
+ * response gets one repair re-prompt listing what was wrong; if that is
+ * invalid too, LlmOutputError is thrown.
+ */
+export async function completeLlmTaskWithSchema<T>(
+  task: LlmTask,
+  prompt: string,
+  schema: LlmOutputSchema<T>,
+  options: LlmTaskOptions = {}
+): Promise<{ value: T; completion: LlmCompletion; repaired: boolean }> {
+  // Injected clients (mocks, offline evals) aren't production traffic
+  const record = options.client
+    ? async () => undefined
+    : recordValidationFailure;
+
+  const completion = await completeLlmTask(task, prompt, options);
+  const parsed = schema.parse(completion.text);
+  if ('value' in parsed) {
+    countValidation(completion, schema.name, 'valid');
+    return { value: parsed.value, completion, repaired: false };
+  }
+
+  console.warn(
+    `[LLM_OUTPUT] Invalid ${schema.name} output from ${completion.provider}/${completion.model}, re-prompting: ${parsed.errors.join('; ')}`
+  );
+  await record(task, schema.name, completion, 'initial', parsed.errors);
+
+  const repair = await completeLlmTask(
+    task,
+    buildRepairPrompt(prompt, schema, completion.text, parsed.errors),
+    options
+  );
+  const repairedParse = schema.parse(repair.text);
+  if ('value' in repairedParse) {
+    countValidation(completion, schema.name, 'repaired');
+    return { value: repairedParse.value, completion: repair, repaired: true };
+  }
+
+  countValidation(completion, schema.name, 'unrepaired');
+  await record(task, schema.name, repair, 'repair', repairedParse.errors);
+  throw new LlmOutputError(schema.name, repairedParse.errors, repair);
+}
@@ -1,5 +1,9 @@
 import { createClient } from '@supabase/supabase-js';
 
+// Queue priority cutoffs on the 0-100 relevance scale
+const HIGH_PRIORITY_SCORE = 80;
+const MEDIUM_PRIORITY_SCORE = 60;
+
 export interface QueuedPost {
   id: string;
   config_id: string;
@@ -13,6 +17,7 @@ export interface QueuedPost {
   context_match_score?: number;
   quality_score?: number;
   engagement_score?: number;
+  lexical_score?: number | null;
   priority: number;
   queued_at: string;
   attempts: number;
@@ -44,6 +49,7 @@ export class PostQueueService {
         contextMatchScore: number;
         qualityScore: number;
         engagementScore: number;
+        lexicalScore?: number;
       };
     }>
   ): Promise<{ success: boolean; queued: number; duplicates: number; errors: number }> {
@@ -55,8 +61,13 @@ export class PostQueueService {
 
     for (const { discussion, scores } of relevantDiscussions) {
       try {
-        // Calculate priority based on relevance score
-        const priority = scores.finalScore >= 8 ? 1 : scores.finalScore >= 6 ? 2 : 3;
+        // Calculate priority based on relevance score (0-100)
+        const priority =
+          scores.finalScore >= HIGH_PRIORITY_SCORE
+            ? 1
+            : scores.finalScore >= MEDIUM_PRIORITY_SCORE
+              ? 2
+              : 3;
 
         const { error } = await this.supabase
           .from('queued_reddit_posts')
@@ -72,6 +83,7 @@ export class PostQueueService {
             context_match_score: scores.contextMatchScore,
             quality_score: scores.qualityScore,
             engagement_score: scores.engagementScore,
+            lexical_score: scores.lexicalScore ?? null,
             priority: priority,
             post_status: 'queued'
           });
@@ -0,0 +1,43 @@
+/**
+ * Pick the least recently used discussion-poster account that is out of
+ * cooldown. Also returns every active account so callers can report why none
+ * was available.
+ */
+export async function pickAvailableRedditAccount(
+  supabaseAdmin: any,
+  now: Date = new Date()
+): Promise<{ account: any | null; accounts: any[] }> {
+  const { data: availableAccounts } = await supabaseAdmin
+    .from('reddit_accounts')
+    .select('*')
+    .eq('is_validated', true)
+    .eq('is_discussion_poster', true)
+    .eq('status', 'active')
+    .order('last_used_at', { ascending: true, nullsFirst: true });
+
+  // Filter accounts that are actually available (not in cooldown).
+  const availableAccountsFiltered =
+    availableAccounts?.filter((account: any) => {
+      if (account.is_available) return true;
+
+      if (account.current_cooldown_until) {
+        return now >= new Date(account.current_cooldown_until);
+      }
+
+      if (account.last_used_at) {
+        const lastUsed = new Date(account.last_used_at);
+        const cooldownMinutes = account.cooldown_minutes || 30;
+        const cooldownExpiry = new Date(
+          lastUsed.getTime() + cooldownMinutes * 60 * 1000
+        );
+        return now >= cooldownExpiry;
+      }
+
+      return false;
+    }) || [];
+
+  return {
+    account: availableAccountsFiltered[0] || null,
+    accounts: availableAccounts || [],
+  };
+}
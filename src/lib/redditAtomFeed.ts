@@ -0,0 +1,115 @@
+import type { RedditDiscussion } from './redditService';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+/**
+ * Decode character references in one pass, so an escaped ampersand is never
+ * read as the start of another entity. Unknown names are left as they are.
+ */
+function decodeEntities(text: string): string {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name[0] !== '#') return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+      const code =
+        name[1] === 'x' || name[1] === 'X'
+          ? parseInt(name.slice(2), 16)
+          : Number(name.slice(1));
+      return Number.isFinite(code) ? String.fromCharCode(code) : entity;
+    }
+  );
+}
+
+/**
+ * Text of an XML element. CDATA sections are taken as they are; everything
+ * else is entity decoded.
+ */
+function decodeXmlText(text: string): string {
+  return text
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) =>
+      part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part)
+    )
+    .join('');
+}
+
+function getAtomTag(entry: string, tag: string): string | null {
+  const match = entry.match(new RegExp(`<${tag}[^>]*>([\\s\\S]*?)<\\/${tag}>`));
+  return match ? match[1] : null;
+}
+
+/**
+ * Parse a Reddit Atom feed (`/r/<subreddit>/<sort>/.rss`) into discussions.
+ * Feeds carry no score or comment counts, so those are reported as 0.
+ */
+export function parseRedditAtomFeed(
+  feedText: string,
+  subreddit: string
+): RedditDiscussion[] {
+  const discussions: RedditDiscussion[] = [];
+  const entries = feedText.split(/<entry[\s>]/).slice(1);
+
+  for (const entryText of entries) {
+    const endIndex = entryText.indexOf('</entry>');
+    const entry = endIndex > -1 ? entryText.substring(0, endIndex) : entryText;
+
+    const title = decodeXmlText(getAtomTag(entry, 'title') || '').trim();
+    const url = entry.match(/<link[^>]*href="([^"]*)"/)?.[1] || '';
+    const fullname = (getAtomTag(entry, 'id') || '').trim();
+    const id = fullname.startsWith('t3_')
+      ? fullname.slice(3)
+      : url.match(/\/comments\/([a-z0-9]+)/i)?.[1];
+
+    if (!id || !title) continue;
+
+    // Content is HTML carried as XML text: the post body sits in the "md"
+    // div, followed by a "submitted by ... [link] [comments]" footer. The
+    // XML layer is decoded here and the HTML text layer once the tags are
+    // stripped.
+    const contentHtml = decodeXmlText(getAtomTag(entry, 'content') || '');
+    const bodyHtml =
+      contentHtml.match(
+        /<div class="md">([\s\S]*?)<\/div>\s*<!-- SC_ON -->/
+      )?.[1] || '';
+    const content = decodeEntities(bodyHtml.replace(/<[^>]*>/g, ' '))
+      .replace(/\s+/g, ' ')
+      .trim();
+    const linkHref = decodeEntities(
+      contentHtml.match(/<a href="([^"]*)">\[link\]<\/a>/)?.[1] || ''
+    );
+
+    const authorName =
+      entry.match(/<author>[\s\S]*?<name>([^<]*)<\/name>/)?.[1] || '';
+    const published =
+      getAtomTag(entry, 'published') || getAtomTag(entry, 'updated');
+    const publishedMs = published ? Date.parse(published.trim()) : NaN;
+
+    discussions.push({
+      id,
+      title,
+      content,
+      description: content || title,
+      url,
+      subreddit: entry.match(/<category[^>]*term="([^"]*)"/)?.[1] || subreddit,
+      author: authorName.replace(/^\/u\//, '').trim() || 'unknown',
+      score: 0,
+      num_comments: 0,
+      created_utc: Number.isFinite(publishedMs)
+        ? publishedMs / 1000
+        : Date.now() / 1000,
+      raw_comment: content || title,
+      is_self: !linkHref || linkHref.includes(`/comments/${id}`),
+      fullname: `t3_${id}`,
+      kind: 'submission',
+    });
+  }
+
+  return discussions;
+}
@@ -0,0 +1,150 @@
+import { RedditDiscussion, fetchRedditThreadComments } from './redditService';
+
+export interface CommentDiscoveryOptions {
+  // Deepest reply level to consider; top-level comments are depth 0
+  maxDepth: number;
+  minLength: number;
+  maxThreads: number;
+  maxCandidatesPerThread: number;
+  // Only keep comments that ask something ("what tool do you use for X?")
+  questionsOnly: boolean;
+}
+
+export const DEFAULT_COMMENT_DISCOVERY_OPTIONS: CommentDiscoveryOptions = {
+  maxDepth: 3,
+  minLength: 30,
+  maxThreads: 3,
+  maxCandidatesPerThread: 10,
+  questionsOnly: true,
+};
+
+const IGNORED_COMMENT_AUTHORS = ['automoderator', '[deleted]'];
+const REMOVED_COMMENT_BODIES = ['[deleted]', '[removed]'];
+const QUESTION_PATTERN =
+  /\?|\b(any(one)? (recommend|suggest)|looking for|what do you use|how do (you|i)|is there (a|an|any))\b/i;
+
+function isQualifyingComment(
+  commentData: any,
+  depth: number,
+  options: CommentDiscoveryOptions
+): boolean {
+  const body = (commentData.body || '').trim();
+  const author = (commentData.author || '').toLowerCase();
+  if (!body || REMOVED_COMMENT_BODIES.includes(body)) return false;
+  if (IGNORED_COMMENT_AUTHORS.includes(author)) return false;
+  if (commentData.stickied || commentData.distinguished === 'moderator')
+    return false;
+  if (depth > options.maxDepth || body.length < options.minLength) return false;
+  if (options.questionsOnly && !QUESTION_PATTERN.test(body)) return false;
+  return true;
+}
+
+function mapCommentToCandidate(
+  commentData: any,
+  thread: RedditDiscussion,
+  parentPermalink: string,
+  depth: number
+): RedditDiscussion {
+  return {
+    id: commentData.id,
+    title: thread.title,
+    content: commentData.body,
+    description: commentData.body,
+    url: `https://reddit.com${commentData.permalink}`,
+    subreddit: commentData.subreddit || thread.subreddit,
+    author: commentData.author,
+    score: commentData.score || 0,
+    num_comments: 0,
+    created_utc: commentData.created_utc,
+    raw_comment: commentData.body,
+    is_self: true,
+    fullname: commentData.name || `t1_${commentData.id}`,
+    kind: 'comment',
+    thread_id: thread.id,
+    thread_title: thread.title,
+    parent_permalink: parentPermalink,
+    depth,
+    locked: Boolean(commentData.locked || thread.locked),
+    archived: Boolean(commentData.archived || thread.archived),
+    over_18: thread.over_18,
+  };
+}
+
+/**
+ * Walk a thread's comment listing and turn qualifying comments into
+ * scoreable candidates. `more` stubs are skipped rather than expanded.
+ */
+export function extractCommentCandidates(
+  thread: RedditDiscussion,
+  commentListing: any,
+  options: CommentDiscoveryOptions = DEFAULT_COMMENT_DISCOVERY_OPTIONS
+): RedditDiscussion[] {
+  const candidates: RedditDiscussion[] = [];
+
+  const walk = (children: any[], parentPermalink: string, depth: number) => {
+    for (const child of children || []) {
+      if (candidates.length >= options.maxCandidatesPerThread) return;
+      if (child?.kind !== 't1' || !child.data) continue;
+
+      const commentData = child.data;
+      if (isQualifyingComment(commentData, depth, options)) {
+        candidates.push(
+          mapCommentToCandidate(commentData, thread, parentPermalink, depth)
+        );
+      }
+
+      if (depth < options.maxDepth && commentData.replies?.data?.children) {
+        walk(
+          commentData.replies.data.children,
+          `https://reddit.com${commentData.permalink}`,
+          depth + 1
+        );
+      }
+    }
+  };
+
+  walk(commentListing?.data?.children || [], thread.url, 0);
+  return candidates;
+}
+
+/**
+ * Fetch the busiest of the given threads and return their qualifying comments
+ * as candidates for filterRelevantDiscussions.
+ */
+export async function discoverCommentCandidates(
+  threads: RedditDiscussion[],
+  options: CommentDiscoveryOptions = DEFAULT_COMMENT_DISCOVERY_OPTIONS
+): Promise<RedditDiscussion[]> {
+  const threadsWithComments = threads
+    .filter((thread) => thread.kind !== 'comment' && thread.num_comments > 0)
+    .sort((a, b) => b.num_comments - a.num_comments)
+    .slice(0, options.maxThreads);
+
+  const candidates: RedditDiscussion[] = [];
+
+  for (const thread of threadsWithComments) {
+    try {
+      const [, commentListing] = await fetchRedditThreadComments(
+        thread.subreddit,
+        thread.id,
+        { depth: options.maxDepth + 1 }
+      );
+      const threadCandidates = extractCommentCandidates(
+        thread,
+        commentListing,
+        options
+      );
+      console.log(
+        `[COMMENT_DISCOVERY] ${threadCandidates.length} comment candidates in thread ${thread.id} (r/${thread.subreddit})`
+      );
+      candidates.push(...threadCandidates);
+    } catch (error) {
+      console.warn(
+        `[COMMENT_DISCOVERY] Failed to walk comments for thread ${thread.id}:`,
+        error
+      );
+    }
+  }
+
+  return candidates;
+}
@@ -0,0 +1,276 @@
+/**
+ * Who a Reddit request is billed to: the app's OAuth client, one of the
+ * posting accounts, or unauthenticated traffic (public JSON, RSS and HTML,
+ * direct or through the proxy worker).
+ */
+export type RedditCredential = 'app' | 'anonymous' | `account:${string}`;
+
+export const REDDIT_APP_USER_AGENT = 'RedditOutreach/1.0 (Discussion Search)';
+
+// Reddit allows 100 requests a minute per OAuth client and far fewer
+// without one; the X-Ratelimit headers take over once a response has them.
+const DEFAULT_REQUESTS_PER_WINDOW: Record<'oauth' | 'anonymous', number> = {
+  oauth: Number(process.env.REDDIT_OAUTH_REQUESTS_PER_MINUTE) || 100,
+  anonymous: Number(process.env.REDDIT_ANONYMOUS_REQUESTS_PER_MINUTE) || 10,
+};
+const DEFAULT_WINDOW_MS = 60 * 1000;
+// Longest a caller is held waiting for the budget before the request fails
+const MAX_WAIT_MS = Number(process.env.REDDIT_RATE_LIMIT_MAX_WAIT_MS) || 15000;
+
+interface BudgetState {
+  limit: number;
+  remaining: number;
+  resetAt: number;
+  // Whether the numbers came from Reddit's headers or the local default
+  fromHeaders: boolean;
+  queued: number;
+  requests: number;
+  throttled: number;
+  lastStatus: number | null;
+}
+
+export interface RedditRateLimitBudget {
+  credential: RedditCredential;
+  limit: number;
+  remaining: number;
+  resetAt: string;
+  fromHeaders: boolean;
+  queued: number;
+  requests: number;
+  throttled: number;
+  lastStatus: number | null;
+}
+
+export interface RedditRateLimitState {
+  // Budgets live in memory, so they only cover this instance since it
+  // started
+  scope: 'instance';
+  since: string;
+  budgets: RedditRateLimitBudget[];
+}
+
+export class RedditRateLimitError extends Error {
+  constructor(
+    public credential: RedditCredential,
+    public retryAfterMs: number
+  ) {
+    super(
+      `Reddit rate limit exhausted for ${credential}; retry in ${Math.ceil(retryAfterMs / 1000)}s`
+    );
+    this.name = 'RedditRateLimitError';
+  }
+}
+
+function parseHeaderNumber(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Single entry point for Reddit HTTP traffic. Keeps a request budget per
+ * credential in this instance, updated from X-Ratelimit-Remaining and
+ * X-Ratelimit-Reset, and holds callers until the window resets when the
+ * budget runs out.
+ */
+export class RedditHttpClient {
+  private static instance: RedditHttpClient;
+  private budgets = new Map<RedditCredential, BudgetState>();
+  private createdAt = new Date().toISOString();
+
+  static getInstance(): RedditHttpClient {
+    if (!RedditHttpClient.instance) {
+      RedditHttpClient.instance = new RedditHttpClient();
+    }
+    return RedditHttpClient.instance;
+  }
+
+  static accountCredential(accountId: string): RedditCredential {
+    return `account:${accountId}`;
+  }
+
+  private getBudget(credential: RedditCredential): BudgetState {
+    const now = Date.now();
+    let budget = this.budgets.get(credential);
+
+    if (!budget) {
+      const limit =
+        DEFAULT_REQUESTS_PER_WINDOW[
+          credential === 'anonymous' ? 'anonymous' : 'oauth'
+        ];
+      budget = {
+        limit,
+        remaining: limit,
+        resetAt: now + DEFAULT_WINDOW_MS,
+        fromHeaders: false,
+        queued: 0,
+        requests: 0,
+        throttled: 0,
+        lastStatus: null,
+      };
+      this.budgets.set(credential, budget);
+    } else if (budget.resetAt <= now) {
+      budget.remaining = budget.limit;
+      budget.resetAt = now + DEFAULT_WINDOW_MS;
+      budget.fromHeaders = false;
+    }
+
+    return budget;
+  }
+
+  /**
+   * Take one request from the credential's budget, waiting for the window
+   * to reset when it is empty. Throws RedditRateLimitError when the reset
+   * is further away than callers are allowed to wait.
+   */
+  async acquire(credential: RedditCredential): Promise<void> {
+    for (;;) {
+      const budget = this.getBudget(credential);
+      if (budget.remaining > 0) {
+        budget.remaining -= 1;
+        budget.requests += 1;
+        return;
+      }
+
+      const waitMs = budget.resetAt - Date.now();
+      if (waitMs > MAX_WAIT_MS) {
+        budget.throttled += 1;
+        throw new RedditRateLimitError(credential, waitMs);
+      }
+
+      console.warn(
+        `[REDDIT_HTTP] Budget for ${credential} exhausted; waiting ${Math.ceil(waitMs / 1000)}s for reset`
+      );
+      budget.queued += 1;
+      await new Promise((resolve) => setTimeout(resolve, waitMs + 50));
+      budget.queued -= 1;
+    }
+  }
+
+  /**
+   * Update a budget from Reddit's rate-limit headers. A 429 empties the
+   * budget until the reset Reddit reports, or a minute when it reports none.
+   */
+  recordRateLimit(
+    credential: RedditCredential,
+    {
+      remaining,
+      resetSeconds,
+      used,
+      status,
+    }: {
+      remaining?: number | null;
+      resetSeconds?: number | null;
+      used?: number | null;
+      status?: number;
+    }
+  ): void {
+    const budget = this.getBudget(credential);
+    if (status !== undefined) budget.lastStatus = status;
+
+    if (remaining !== null && remaining !== undefined) {
+      budget.remaining = Math.floor(remaining);
+      budget.fromHeaders = true;
+      if (used !== null && used !== undefined) {
+        budget.limit = Math.floor(remaining + used);
+      }
+    }
+    if (resetSeconds !== null && resetSeconds !== undefined) {
+      budget.resetAt = Date.now() + resetSeconds * 1000;
+    }
+
+    if (status === 429) {
+      budget.remaining = 0;
+      if (resetSeconds === null || resetSeconds === undefined) {
+        budget.resetAt = Date.now() + DEFAULT_WINDOW_MS;
+      }
+    }
+  }
+
+  /**
+   * Copy the rate-limit state snoowrap tracks for its own requests, so
+   * posting accounts share the budget with direct calls
+   */
+  recordSnoowrapState(
+    credential: RedditCredential,
+    requester: { ratelimitRemaining?: number; ratelimitExpiration?: number }
+  ): void {
+    if (typeof requester.ratelimitRemaining !== 'number') return;
+    this.recordRateLimit(credential, {
+      remaining: requester.ratelimitRemaining,
+      resetSeconds:
+        typeof requester.ratelimitExpiration === 'number'
+          ? Math.max(0, (requester.ratelimitExpiration - Date.now()) / 1000)
+          : null,
+    });
+  }
+
+  /**
+   * Run a snoowrap call against the credential's budget. snoowrap sends its
+   * own requests, so the budget is taken up front and synced afterwards.
+   */
+  async withSnoowrap<T>(
+    credential: RedditCredential,
+    requester: { ratelimitRemaining?: number; ratelimitExpiration?: number },
+    run: () => Promise<T>
+  ): Promise<T> {
+    await this.acquire(credential);
+    try {
+      return await run();
+    } finally {
+      this.recordSnoowrapState(credential, requester);
+    }
+  }
+
+  /**
+   * fetch() for Reddit URLs, billed to `credential`
+   */
+  async fetch(
+    url: string,
+    init: RequestInit = {},
+    credential: RedditCredential = 'anonymous'
+  ): Promise<Response> {
+    await this.acquire(credential);
+    const response = await fetch(url, init);
+
+    const retryAfter = parseHeaderNumber(response.headers.get('retry-after'));
+    this.recordRateLimit(credential, {
+      remaining: parseHeaderNumber(
+        response.headers.get('x-ratelimit-remaining')
+      ),
+      used: parseHeaderNumber(response.headers.get('x-ratelimit-used')),
+      resetSeconds:
+        parseHeaderNumber(response.headers.get('x-ratelimit-reset')) ??
+        (response.status === 429 ? retryAfter : null),
+      status: response.status,
+    });
+
+    if (response.status === 429) {
+      console.warn(`[REDDIT_HTTP] 429 from Reddit for ${credential}: ${url}`);
+    }
+
+    return response;
+  }
+
+  getBudgetState(): RedditRateLimitState {
+    return {
+      scope: 'instance',
+      since: this.createdAt,
+      budgets: Array.from(this.budgets.entries()).map(
+        ([credential, budget]) => ({
+          credential,
+          limit: budget.limit,
+          remaining: budget.remaining,
+          resetAt: new Date(budget.resetAt).toISOString(),
+          fromHeaders: budget.fromHeaders,
+          queued: budget.queued,
+          requests: budget.requests,
+          throttled: budget.throttled,
+          lastStatus: budget.lastStatus,
+        })
+      ),
+    };
+  }
+}
+
+export const redditHttpClient = RedditHttpClient.getInstance();
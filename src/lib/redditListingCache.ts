@@ -0,0 +1,287 @@
+import { createDefaultListingStore } from './redditListingStore';
+
+const DEFAULT_TTL_MS =
+  Number(process.env.REDDIT_LISTING_CACHE_TTL_MS) || 60 * 1000;
+const MAX_ENTRIES = 500;
+// An instance fetching a page holds its lock this long at most; others wait
+// for the page a little less, then fetch it themselves
+const LOCK_TTL_MS = 15 * 1000;
+const LOCK_WAIT_MS = 10 * 1000;
+const LOCK_POLL_MS = 300;
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+/**
+ * Listing storage shared between instances. Every call may fail; the cache
+ * then falls back to fetching on its own.
+ */
+export interface SharedListingStore {
+  name: string;
+  get(key: string): Promise<CacheEntry | null>;
+  set(key: string, value: unknown, ttlMs: number): Promise<void>;
+  // True when this instance now holds the key's fetch lock
+  tryLock(key: string, ttlMs: number): Promise<boolean>;
+  unlock(key: string): Promise<void>;
+}
+
+export interface RedditListingCacheMetrics {
+  hits: number;
+  misses: number;
+  coalesced: number;
+  // Pages another instance had already stored, or stored while we waited
+  sharedHits: number;
+  sharedCoalesced: number;
+  sharedErrors: number;
+  evictions: number;
+  entries: number;
+  inFlight: number;
+  hitRate: number;
+  ttlMs: number;
+  sharedStore: string | null;
+  // The counts only cover this instance since it started; the pages in the
+  // shared store are reused by every instance
+  scope: 'instance';
+  since: string;
+}
+
+/**
+ * Cache of raw subreddit listings, shared by every website config. Pages are
+ * kept in this instance's memory and in a shared store, so a page fetched by
+ * the cron route on one instance answers the proxy route on another.
+ *
+ * Concurrent requests for the same page wait on a single fetch: within an
+ * instance through the in-flight promise, across instances through a short
+ * lock in the shared store. Without a store (no service credentials) the
+ * cache falls back to this instance alone.
+ */
+export class RedditListingCache {
+  private static instance: RedditListingCache;
+  private entries = new Map<string, CacheEntry>();
+  private inFlight = new Map<string, Promise<unknown>>();
+  private metrics = {
+    hits: 0,
+    misses: 0,
+    coalesced: 0,
+    sharedHits: 0,
+    sharedCoalesced: 0,
+    sharedErrors: 0,
+    evictions: 0,
+  };
+  private createdAt = new Date().toISOString();
+
+  constructor(
+    private ttlMs: number = DEFAULT_TTL_MS,
+    private store: SharedListingStore | null = null
+  ) {}
+
+  static getInstance(): RedditListingCache {
+    if (!RedditListingCache.instance) {
+      RedditListingCache.instance = new RedditListingCache(
+        DEFAULT_TTL_MS,
+        createDefaultListingStore()
+      );
+    }
+    return RedditListingCache.instance;
+  }
+
+  /**
+   * Cache key for one listing page. `limit` is included because a page
+   * fetched with a smaller limit cannot answer a larger request.
+   */
+  static buildKey(
+    subreddit: string,
+    listingMode: string,
+    pageToken?: string | null,
+    limit?: number
+  ): string {
+    return [
+      subreddit.toLowerCase(),
+      listingMode,
+      pageToken || 'first',
+      limit ?? '',
+    ].join('|');
+  }
+
+  /**
+   * Return the cached value for `key`, joining an in-flight fetch when one
+   * exists, then trying the shared store, and calling `fetcher` otherwise.
+   * Failed fetches are not cached.
+   */
+  async getOrFetch<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    ttlMs: number = this.ttlMs
+  ): Promise<T> {
+    const cached = this.entries.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      this.metrics.hits += 1;
+      return cached.value as T;
+    }
+
+    if (cached) {
+      this.entries.delete(key);
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      this.metrics.coalesced += 1;
+      return pending as Promise<T>;
+    }
+
+    const request = this.fetchShared(key, fetcher, ttlMs)
+      .then(({ value, expiresAt }) => {
+        this.set(key, value, expiresAt);
+        return value as T;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Read the page from the shared store, or fetch it while holding its lock.
+   * When another instance holds the lock, wait for its page to land; if it
+   * never does, fetch anyway rather than fail the caller.
+   */
+  private async fetchShared<T>(
+    key: string,
+    fetcher: () => Promise<T>,
+    ttlMs: number
+  ): Promise<CacheEntry> {
+    const store = this.store;
+    let holdsLock = false;
+
+    if (store) {
+      const stored = await this.readShared(store, key);
+      if (stored) {
+        this.metrics.sharedHits += 1;
+        return stored;
+      }
+
+      try {
+        holdsLock = await store.tryLock(key, LOCK_TTL_MS);
+        if (!holdsLock) {
+          const landed = await this.waitForShared(store, key);
+          if (landed) {
+            this.metrics.sharedCoalesced += 1;
+            return landed;
+          }
+          console.warn(
+            `[LISTING_CACHE] Gave up waiting for ${key} from another instance; fetching it here`
+          );
+        }
+      } catch (error) {
+        this.recordSharedError('lock', key, error);
+      }
+    }
+
+    try {
+      // The page may have landed between the first read and the lock
+      const stored = holdsLock ? await this.readShared(store!, key) : null;
+      if (stored) {
+        this.metrics.sharedHits += 1;
+        return stored;
+      }
+
+      this.metrics.misses += 1;
+      const value = await fetcher();
+      if (store) {
+        await store
+          .set(key, value, ttlMs)
+          .catch((error) => this.recordSharedError('write', key, error));
+      }
+      return { value, expiresAt: Date.now() + ttlMs };
+    } finally {
+      if (holdsLock) {
+        await store!
+          .unlock(key)
+          .catch((error) => this.recordSharedError('unlock', key, error));
+      }
+    }
+  }
+
+  private async readShared(
+    store: SharedListingStore,
+    key: string
+  ): Promise<CacheEntry | null> {
+    try {
+      return await store.get(key);
+    } catch (error) {
+      this.recordSharedError('read', key, error);
+      return null;
+    }
+  }
+
+  private async waitForShared(
+    store: SharedListingStore,
+    key: string
+  ): Promise<CacheEntry | null> {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    while (Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, LOCK_POLL_MS));
+      const stored = await this.readShared(store, key);
+      if (stored) return stored;
+    }
+    return null;
+  }
+
+  private recordSharedError(
+    operation: string,
+    key: string,
+    error: unknown
+  ): void {
+    this.metrics.sharedErrors += 1;
+    console.error(
+      `[LISTING_CACHE] Shared store ${operation} failed for ${key}:`,
+      error
+    );
+  }
+
+  invalidate(key: string): void {
+    this.entries.delete(key);
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  getMetrics(): RedditListingCacheMetrics {
+    const reused =
+      this.metrics.hits +
+      this.metrics.coalesced +
+      this.metrics.sharedHits +
+      this.metrics.sharedCoalesced;
+    const lookups = reused + this.metrics.misses;
+    return {
+      ...this.metrics,
+      entries: this.entries.size,
+      inFlight: this.inFlight.size,
+      hitRate: lookups > 0 ? reused / lookups : 0,
+      ttlMs: this.ttlMs,
+      sharedStore: this.store?.name || null,
+      scope: 'instance',
+      since: this.createdAt,
+    };
+  }
+
+  private set(key: string, value: unknown, expiresAt: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt });
+
+    // Maps iterate in insertion order, so the first key is the oldest entry
+    while (this.entries.size > MAX_ENTRIES) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+      this.metrics.evictions += 1;
+    }
+  }
+}
+
+export const redditListingCache = RedditListingCache.getInstance();
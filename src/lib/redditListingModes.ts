@@ -0,0 +1,167 @@
+export const REDDIT_TOP_WINDOWS = [
+  'hour',
+  'day',
+  'week',
+  'month',
+  'year',
+  'all',
+] as const;
+
+export type RedditTopWindow = (typeof REDDIT_TOP_WINDOWS)[number];
+
+export type RedditListingMode =
+  | 'hot'
+  | 'new'
+  | 'rising'
+  | `top:${RedditTopWindow}`;
+
+export const DEFAULT_LISTING_MODE: RedditListingMode = 'hot';
+
+export const LISTING_MODE_OPTIONS: {
+  value: RedditListingMode;
+  label: string;
+  description: string;
+}[] = [
+  { value: 'hot', label: 'Hot', description: 'What is trending right now' },
+  { value: 'new', label: 'New', description: 'Fresh questions first' },
+  { value: 'rising', label: 'Rising', description: 'Posts gaining traction' },
+  { value: 'top:day', label: 'Top (day)', description: 'Best of the last day' },
+  {
+    value: 'top:week',
+    label: 'Top (week)',
+    description: 'Evergreen threads from the last week',
+  },
+  {
+    value: 'top:month',
+    label: 'Top (month)',
+    description: 'Evergreen threads from the last month',
+  },
+];
+
+/**
+ * Normalize user or URL style input ("new", "top:week", "top?t=week") to a
+ * listing mode. Returns null for anything Reddit does not support.
+ */
+export function normalizeListingMode(
+  value: string | null | undefined
+): RedditListingMode | null {
+  const normalized = (value || '').trim().toLowerCase();
+  if (!normalized) return null;
+
+  if (normalized === 'hot' || normalized === 'new' || normalized === 'rising') {
+    return normalized;
+  }
+
+  const topMatch = normalized.match(/^top(?:[:?](?:t=)?([a-z]+))?$/);
+  if (topMatch) {
+    const window = (topMatch[1] || 'week') as RedditTopWindow;
+    return REDDIT_TOP_WINDOWS.includes(window) ? `top:${window}` : null;
+  }
+
+  return null;
+}
+
+/**
+ * Split a listing mode into the listing path segment and the optional `t`
+ * time window used by the top listing.
+ */
+export function parseListingMode(mode: string | null | undefined): {
+  sort: string;
+  time: RedditTopWindow | null;
+} {
+  const normalized = normalizeListingMode(mode) || DEFAULT_LISTING_MODE;
+  const [sort, time] = normalized.split(':');
+  return { sort, time: (time as RedditTopWindow) || null };
+}
+
+/**
+ * Pick which configured listing mode to fetch next. Modes that have never
+ * been fetched go first, then the least recently fetched one, so every mode
+ * gets its turn across runs.
+ */
+export function pickNextListingMode(
+  listingModes: string[],
+  states: { listing_mode?: string | null; last_fetched: string }[]
+): string {
+  if (listingModes.length <= 1) {
+    return listingModes[0] || DEFAULT_LISTING_MODE;
+  }
+
+  const lastFetchedByMode = new Map(
+    states.map((state) => [
+      state.listing_mode || DEFAULT_LISTING_MODE,
+      new Date(state.last_fetched).getTime(),
+    ])
+  );
+
+  return listingModes.reduce((best, mode) => {
+    const modeFetched = lastFetchedByMode.get(mode) ?? 0;
+    const bestFetched = lastFetchedByMode.get(best) ?? 0;
+    return modeFetched < bestFetched ? mode : best;
+  });
+}
+
+// Search pagination is stored next to listing pagination under its own key
+const SEARCH_PAGINATION_PREFIX = 'search:';
+
+/**
+ * The search sort and time window closest to a listing mode. Search has no
+ * rising sort, so rising maps to hot posts from the last day.
+ */
+export function listingModeToSearchSort(mode: string | null | undefined): {
+  sort: 'hot' | 'new' | 'top';
+  time: RedditTopWindow;
+} {
+  const { sort, time } = parseListingMode(mode);
+  if (sort === 'top') return { sort: 'top', time: time || 'week' };
+  if (sort === 'rising') return { sort: 'hot', time: 'day' };
+  return { sort: sort === 'new' ? 'new' : 'hot', time: 'week' };
+}
+
+/**
+ * The `listing_mode` key that search pagination for a mode is stored under
+ */
+export function getSearchPaginationKey(mode: string): string {
+  return `${SEARCH_PAGINATION_PREFIX}${mode}`;
+}
+
+/**
+ * Normalize a pagination key: a listing mode, or one prefixed for search
+ */
+export function normalizePaginationKey(
+  value: string | null | undefined
+): string | null {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized.startsWith(SEARCH_PAGINATION_PREFIX)) {
+    const mode = normalizeListingMode(
+      normalized.slice(SEARCH_PAGINATION_PREFIX.length)
+    );
+    return mode ? getSearchPaginationKey(mode) : null;
+  }
+  return normalizeListingMode(normalized);
+}
+
+/**
+ * Listing modes of stored pagination states for one source. Search states
+ * come back under their mode so both sources rotate modes the same way.
+ */
+export function getSourcePaginationStates<
+  T extends { listing_mode?: string | null },
+>(states: T[], source: 'listing' | 'search'): T[] {
+  return states
+    .filter(
+      (state) =>
+        (state.listing_mode || '').startsWith(SEARCH_PAGINATION_PREFIX) ===
+        (source === 'search')
+    )
+    .map((state) =>
+      source === 'search'
+        ? {
+            ...state,
+            listing_mode: state.listing_mode!.slice(
+              SEARCH_PAGINATION_PREFIX.length
+            ),
+          }
+        : state
+    );
+}
@@ -0,0 +1,114 @@
+import { createClient } from '@supabase/supabase-js';
+import type { SharedListingStore } from './redditListingCache';
+
+// Expired rows are deleted every this many writes from one instance
+const PRUNE_EVERY_WRITES = 50;
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Listing store in Supabase, shared by every instance of the deployment.
+ * Locks are rows in reddit_listing_cache_locks: inserting one takes a free
+ * key, and an expired one is taken over by a conditional update, so exactly
+ * one instance wins either way.
+ */
+export function createSupabaseListingStore(
+  supabaseAdmin: any
+): SharedListingStore {
+  const owner = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  let writes = 0;
+
+  return {
+    name: 'supabase',
+
+    async get(key) {
+      const { data, error } = await supabaseAdmin
+        .from('reddit_listing_cache')
+        .select('payload, expires_at')
+        .eq('cache_key', key)
+        .gt('expires_at', new Date().toISOString())
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+      return { value: data.payload, expiresAt: Date.parse(data.expires_at) };
+    },
+
+    async set(key, value, ttlMs) {
+      const now = Date.now();
+      const { error } = await supabaseAdmin.from('reddit_listing_cache').upsert(
+        {
+          cache_key: key,
+          payload: value,
+          expires_at: new Date(now + ttlMs).toISOString(),
+          stored_at: new Date(now).toISOString(),
+        },
+        { onConflict: 'cache_key' }
+      );
+      if (error) throw error;
+
+      writes += 1;
+      if (writes % PRUNE_EVERY_WRITES === 0) {
+        const { error: pruneError } = await supabaseAdmin
+          .from('reddit_listing_cache')
+          .delete()
+          .lt('expires_at', new Date(now).toISOString());
+        if (pruneError) {
+          console.error(
+            '[LISTING_CACHE] Failed to prune expired listings:',
+            pruneError
+          );
+        }
+      }
+    },
+
+    async tryLock(key, ttlMs) {
+      const now = new Date();
+      const lockedUntil = new Date(now.getTime() + ttlMs).toISOString();
+
+      const { error } = await supabaseAdmin
+        .from('reddit_listing_cache_locks')
+        .insert({ cache_key: key, locked_until: lockedUntil, owner });
+      if (!error) return true;
+      if (error.code !== UNIQUE_VIOLATION) throw error;
+
+      // Someone holds or held the lock; take it over only once it expired
+      const { data, error: takeoverError } = await supabaseAdmin
+        .from('reddit_listing_cache_locks')
+        .update({ locked_until: lockedUntil, owner })
+        .eq('cache_key', key)
+        .lt('locked_until', now.toISOString())
+        .select('cache_key');
+      if (takeoverError) throw takeoverError;
+      return (data || []).length > 0;
+    },
+
+    async unlock(key) {
+      const { error } = await supabaseAdmin
+        .from('reddit_listing_cache_locks')
+        .delete()
+        .eq('cache_key', key)
+        .eq('owner', owner);
+      if (error) throw error;
+    },
+  };
+}
+
+/**
+ * The Supabase store when the service credentials are configured, otherwise
+ * none, leaving the cache to this instance's memory
+ */
+export function createDefaultListingStore(): SharedListingStore | null {
+  if (
+    !process.env.NEXT_PUBLIC_SUPABASE_URL ||
+    !process.env.SUPABASE_SERVICE_ROLE_KEY
+  ) {
+    return null;
+  }
+
+  return createSupabaseListingStore(
+    createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_ROLE_KEY
+    )
+  );
+}
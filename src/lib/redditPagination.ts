@@ -1,4 +1,10 @@
 // Client-side version - use API endpoints instead of direct Supabase
+import {
+  DEFAULT_LISTING_MODE,
+  parseListingMode,
+  getSourcePaginationStates,
+  pickNextListingMode,
+} from './redditListingModes';
 
 export interface PaginationState {
   subreddit: string;
@@ -6,6 +12,11 @@ export interface PaginationState {
   before: string | null;
   last_fetched: string;
   total_fetched: number;
+  listing_mode?: string;
+  auto_poster_config_id?: string;
+  pages_processed?: number;
+  last_reset_at?: string;
+  should_reset?: boolean;
 }
 
 export class RedditPaginationManager {
@@ -22,12 +33,15 @@ export class RedditPaginationManager {
   }
 
   /**
-   * Get pagination state for a subreddit
+   * Get pagination state for a subreddit listing mode
    */
-  async getPaginationState(subreddit: string): Promise<PaginationState | null> {
+  async getPaginationState(
+    subreddit: string,
+    listingMode: string = DEFAULT_LISTING_MODE
+  ): Promise<PaginationState | null> {
     try {
       const response = await fetch(
-        `/api/reddit/pagination?action=get&subreddit=${subreddit}${this.getConfigQueryParam()}`
+        `/api/reddit/pagination?action=get&subreddit=${subreddit}&listingMode=${encodeURIComponent(listingMode)}${this.getConfigQueryParam()}`
       );
       if (response.ok) {
         const data = await response.json();
@@ -46,18 +60,21 @@ export class RedditPaginationManager {
     subreddit: string, 
     after: string | null, 
     before: string | null = null,
-    incrementFetched: number = 0
+    incrementFetched: number = 0,
+    listingMode: string = DEFAULT_LISTING_MODE
   ): Promise<boolean> {
     try {
       const response = await fetch('/api/reddit/pagination', {
-        method: 'PUT',
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          action: 'update',
           userId: this.userId,
           subreddit,
           after,
           before,
           incrementFetched,
+          listingMode,
           configId: this.configId,
         })
       });
@@ -71,12 +88,20 @@ export class RedditPaginationManager {
   /**
    * Reset pagination state for a subreddit (start from beginning)
    */
-  async resetPaginationState(subreddit: string): Promise<boolean> {
+  async resetPaginationState(
+    subreddit: string,
+    listingMode?: string
+  ): Promise<boolean> {
     try {
       const response = await fetch('/api/reddit/pagination', {
-        method: 'DELETE',
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId: this.userId, subreddit, configId: this.configId })
+        body: JSON.stringify({
+          action: 'reset',
+          subreddit,
+          listingMode,
+          configId: this.configId,
+        }),
       });
       return response.ok;
     } catch (error) {
@@ -85,6 +110,23 @@ export class RedditPaginationManager {
     }
   }
 
+  /**
+   * Reset pagination for every subreddit (of this config, when set)
+   */
+  async resetAllPaginationStates(): Promise<boolean> {
+    try {
+      const response = await fetch('/api/reddit/pagination', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action: 'reset_all', configId: this.configId }),
+      });
+      return response.ok;
+    } catch (error) {
+      console.error('Error in resetAllPaginationStates:', error);
+      return false;
+    }
+  }
+
   /**
    * Get all pagination states for user
    */
@@ -103,6 +145,29 @@ export class RedditPaginationManager {
     return [];
   }
 
+  /**
+   * Pick the listing mode to fetch next for a subreddit, rotating separately
+   * for listing fetches and searches
+   */
+  async pickListingMode(
+    subreddit: string,
+    listingModes: string[],
+    source: 'listing' | 'search' = 'listing'
+  ): Promise<string> {
+    if (listingModes.length <= 1) {
+      return pickNextListingMode(listingModes, []);
+    }
+
+    const states = await this.getAllPaginationStates();
+    return pickNextListingMode(
+      listingModes,
+      getSourcePaginationStates(
+        states.filter((state) => state.subreddit === subreddit),
+        source
+      )
+    );
+  }
+
   /**
    * Clean up old pagination states (older than 7 days)
    */
@@ -163,19 +228,25 @@ export function extractPaginationTokens(redditResponse: any): {
 }
 
 /**
- * Build Reddit URL with pagination parameters
+ * Build Reddit URL with pagination parameters.
+ * `listingMode` accepts hot, new, rising or top:<window>.
  */
 export function buildRedditUrlWithPagination(
   subreddit: string,
   limit: number = 10,
   after?: string | null,
   before?: string | null,
-  sort: string = 'hot'
+  listingMode: string = 'hot'
 ): string {
+  const { sort, time } = parseListingMode(listingMode);
   const baseUrl = `https://old.reddit.com/r/${subreddit}/${sort}.json`;
   const params = new URLSearchParams();
   
   params.append('limit', limit.toString());
+
+  if (time) {
+    params.append('t', time);
+  }
   
   if (after) {
     params.append('after', after);
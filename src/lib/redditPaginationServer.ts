@@ -2,6 +2,12 @@
 // Uses direct Supabase access instead of HTTP API calls
 
 import { createClient } from '@supabase/supabase-js';
+import {
+  DEFAULT_LISTING_MODE,
+  parseListingMode,
+  getSourcePaginationStates,
+  pickNextListingMode,
+} from './redditListingModes';
 
 export interface PaginationState {
   subreddit: string;
@@ -10,6 +16,7 @@ export interface PaginationState {
   last_fetched: string;
   total_fetched: number;
   auto_poster_config_id?: string;
+  listing_mode?: string;
   pages_processed?: number;
   last_reset_at?: string;
   should_reset?: boolean;
@@ -49,15 +56,19 @@ export class RedditPaginationManagerServer {
   }
 
   /**
-   * Get pagination state for a subreddit
+   * Get pagination state for a subreddit listing mode
    */
-  async getPaginationState(subreddit: string): Promise<PaginationState | null> {
+  async getPaginationState(
+    subreddit: string,
+    listingMode: string = DEFAULT_LISTING_MODE
+  ): Promise<PaginationState | null> {
     try {
       let query = this.supabase
         .from('reddit_pagination_state')
         .select('*')
         .eq('user_id', this.userId)
-        .eq('subreddit', subreddit);
+        .eq('subreddit', subreddit)
+        .eq('listing_mode', listingMode);
 
       // If configId is provided, filter by it for per-config pagination
       if (this.configId) {
@@ -90,15 +101,20 @@ export class RedditPaginationManagerServer {
     after: string | null,
     before: string | null = null,
     incrementFetched: number = 0,
-    isReset: boolean = false
+    isReset: boolean = false,
+    listingMode: string = DEFAULT_LISTING_MODE
   ): Promise<boolean> {
     try {
       // First, try to get existing state
-      const existingState = await this.getPaginationState(subreddit);
+      const existingState = await this.getPaginationState(
+        subreddit,
+        listingMode
+      );
 
       const updateData = {
         user_id: this.userId,
         subreddit,
+        listing_mode: listingMode,
         after,
         before,
         last_fetched: new Date().toISOString(),
@@ -112,9 +128,9 @@ export class RedditPaginationManagerServer {
       const { error } = await this.supabase
         .from('reddit_pagination_state')
         .upsert(updateData, {
-          onConflict: this.configId
-            ? 'user_id,subreddit,auto_poster_config_id'
-            : 'user_id,subreddit'
+          // The key treats a missing config as a value, so this also
+          // matches rows without one
+          onConflict: 'user_id,subreddit,auto_poster_config_id,listing_mode'
         });
 
       if (error) {
@@ -123,7 +139,7 @@ export class RedditPaginationManagerServer {
       }
 
       const resetInfo = isReset ? ' (RESET TO PAGE 1)' : '';
-      console.log(`[PAGINATION_SERVER] Updated pagination for r/${subreddit}: after=${after}, page=${updateData.pages_processed}, fetched=${incrementFetched}${resetInfo}`);
+      console.log(`[PAGINATION_SERVER] Updated pagination for r/${subreddit} (${listingMode}): after=${after}, page=${updateData.pages_processed}, fetched=${incrementFetched}${resetInfo}`);
       return true;
     } catch (error) {
       console.error('[PAGINATION_SERVER] Error in updatePaginationState:', error);
@@ -136,28 +152,64 @@ export class RedditPaginationManagerServer {
    */
   async getSmartPaginationUrl(
     subreddit: string,
-    limit: number = 10
+    limit: number = 10,
+    listingMode: string = DEFAULT_LISTING_MODE
   ): Promise<{ url: string; isReset: boolean; state: PaginationState | null }> {
-    const state = await this.getPaginationState(subreddit);
+    const state = await this.getPaginationState(subreddit, listingMode);
     const shouldReset = this.shouldResetPagination(state);
 
     if (shouldReset) {
-      console.log(`[PAGINATION_SERVER] Starting fresh from page 1 for r/${subreddit}`);
+      console.log(`[PAGINATION_SERVER] Starting fresh from page 1 for r/${subreddit} (${listingMode})`);
       return {
-        url: buildRedditUrlWithPagination(subreddit, limit),
+        url: buildRedditUrlWithPagination(
+          subreddit,
+          limit,
+          null,
+          null,
+          listingMode
+        ),
         isReset: true,
         state
       };
     }
 
-    console.log(`[PAGINATION_SERVER] Continuing pagination for r/${subreddit} with after=${state?.after}`);
+    console.log(`[PAGINATION_SERVER] Continuing pagination for r/${subreddit} (${listingMode}) with after=${state?.after}`);
     return {
-      url: buildRedditUrlWithPagination(subreddit, limit, state?.after),
+      url: buildRedditUrlWithPagination(
+        subreddit,
+        limit,
+        state?.after,
+        null,
+        listingMode
+      ),
       isReset: false,
       state
     };
   }
 
+  /**
+   * Pick the listing mode to fetch next for a subreddit, rotating separately
+   * for listing fetches and searches
+   */
+  async pickListingMode(
+    subreddit: string,
+    listingModes: string[],
+    source: 'listing' | 'search' = 'listing'
+  ): Promise<string> {
+    if (listingModes.length <= 1) {
+      return pickNextListingMode(listingModes, []);
+    }
+
+    const states = await this.getAllPaginationStates();
+    return pickNextListingMode(
+      listingModes,
+      getSourcePaginationStates(
+        states.filter((state) => state.subreddit === subreddit),
+        source
+      )
+    );
+  }
+
   /**
    * Check if post IDs have already been processed
    */
@@ -189,9 +241,13 @@ export class RedditPaginationManagerServer {
   }
 
   /**
-   * Reset pagination state for a subreddit (start from beginning)
+   * Reset pagination state for a subreddit (start from beginning).
+   * Resets every listing mode unless one is given.
    */
-  async resetPaginationState(subreddit: string): Promise<boolean> {
+  async resetPaginationState(
+    subreddit: string,
+    listingMode?: string
+  ): Promise<boolean> {
     try {
       let query = this.supabase
         .from('reddit_pagination_state')
@@ -203,6 +259,10 @@ export class RedditPaginationManagerServer {
         query = query.eq('auto_poster_config_id', this.configId);
       }
 
+      if (listingMode) {
+        query = query.eq('listing_mode', listingMode);
+      }
+
       const { error } = await query;
 
       if (error) {
@@ -219,7 +279,42 @@ export class RedditPaginationManagerServer {
   }
 
   /**
-   * Get all pagination states for user
+   * Reset pagination for every subreddit of the user, or of the config when
+   * the manager was created with one. Returns how many states were cleared.
+   */
+  async resetAllPaginationStates(): Promise<number | null> {
+    try {
+      let query = this.supabase
+        .from('reddit_pagination_state')
+        .delete({ count: 'exact' })
+        .eq('user_id', this.userId);
+
+      if (this.configId) {
+        query = query.eq('auto_poster_config_id', this.configId);
+      }
+
+      const { error, count } = await query;
+
+      if (error) {
+        console.error('[PAGINATION_SERVER] Error resetting all states:', error);
+        return null;
+      }
+
+      console.log(
+        `[PAGINATION_SERVER] Reset ${count || 0} pagination states${this.configId ? ` for config ${this.configId}` : ''}`
+      );
+      return count || 0;
+    } catch (error) {
+      console.error(
+        '[PAGINATION_SERVER] Error in resetAllPaginationStates:',
+        error
+      );
+      return null;
+    }
+  }
+
+  /**
+   * Get all pagination states for user, most recently fetched first
    */
   async getAllPaginationStates(): Promise<PaginationState[]> {
     try {
@@ -232,7 +327,9 @@ export class RedditPaginationManagerServer {
         query = query.eq('auto_poster_config_id', this.configId);
       }
 
-      const { data, error } = await query;
+      const { data, error } = await query.order('last_fetched', {
+        ascending: false,
+      });
 
       if (error) {
         console.error('[PAGINATION_SERVER] Error getting all states:', error);
@@ -261,20 +358,26 @@ export function extractPaginationTokens(redditResponse: any): {
 }
 
 /**
- * Build Reddit URL with pagination parameters
+ * Build Reddit URL with pagination parameters.
+ * `listingMode` accepts hot, new, rising or top:<window>.
  */
 export function buildRedditUrlWithPagination(
   subreddit: string,
   limit: number = 10,
   after?: string | null,
   before?: string | null,
-  sort: string = 'hot'
+  listingMode: string = 'hot'
 ): string {
+  const { sort, time } = parseListingMode(listingMode);
   const baseUrl = `https://old.reddit.com/r/${subreddit}/${sort}.json`;
   const params = new URLSearchParams();
 
   params.append('limit', limit.toString());
 
+  if (time) {
+    params.append('t', time);
+  }
+
   if (after) {
     params.append('after', after);
   }
@@ -1,3 +1,5 @@
+import { SUPPORTED_LANGUAGES, isLanguageCode } from './languageDetection';
+
 export interface WebsiteReplyContext {
   name?: string;
   website_name?: string;
@@ -30,6 +32,9 @@ export interface BridgeReplyPromptInput {
   websiteConfig?: WebsiteReplyContext;
   outputFormat: 'json' | 'text';
   includeLink?: boolean;
+  promotionPolicy?: string;
+  // Language code of the post; non-English posts get a reply in that language
+  language?: string;
 }
 
 const FORBIDDEN_REPLY_OPENING_PATTERNS = [
@@ -113,7 +118,7 @@ export function buildBridgeReplyPrompt(input: BridgeReplyPromptInput): string {
 JSON response structure:
 {
   "reply": string,
-  "confidence": number,
+  "confidence": number between 0 and 1,
   "tone_used": string,
   "character_count": number,
   "keywords_used": [string]
@@ -121,6 +126,14 @@ JSON response structure:
       : 'Return only the final Reddit reply text. No markdown wrapper, no labels, no extra commentary.';
 
   const linkInstructions = '- MANDATORY: DO NOT include any URLs, links, https:// strings, or "search for it on Google" instructions. Just mention the brand name naturally in the sentence.';
+  const disclosureInstructions =
+    input.promotionPolicy === 'disclosure_required'
+      ? `\n- MANDATORY: This subreddit's rules require disclosure. When you mention ${context.productName}, add "(disclosure: I'm affiliated with ${context.productName})" right after the name.`
+      : '';
+  const languageInstructions =
+    input.language && input.language !== 'en' && isLanguageCode(input.language)
+      ? `\n- MANDATORY: The post is written in ${SUPPORTED_LANGUAGES[input.language]}. Write the entire reply in ${SUPPORTED_LANGUAGES[input.language]}, keeping ${context.productName} as is.`
+      : '';
 
   return `
 You write Reddit replies for a managed posting network. The goal is value-first product discovery: solve the OP's problem first, then recommend the product only when it genuinely fits.
@@ -175,7 +188,7 @@ STYLE RULES:
 - MANDATORY: Keep the total reply to exactly 3 sentences. Be extremely punchy. Sentence 1: Context/Hook. Sentence 2: Product Bridge. Sentence 3: Secondary Tip.
 - Do not fabricate personal experience, product ownership, or customer status. Do not say "I use this", "I found this", "I built this", "I recently stumbled upon", or "I was in your shoes" unless that fact is explicitly provided in the input.
 - Make the product bridge feel like a useful discovery/comparison, not a sales pitch. Prefer phrasing like "worth checking", "one thing I'd compare", "this may fit because...", or "it lines up with the problem because...".
-${linkInstructions}
+${linkInstructions}${disclosureInstructions}${languageInstructions}
 - Put the secondary unrelated helpful tip at the end, e.g. "Also, try r/[subreddit] for..." or "Also, search [phrase] before you pick a tool."
 - If the product is not a real fit for the post, give the free helpful advice and make the product mention very light or omit it.
 
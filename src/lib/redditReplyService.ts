@@ -6,6 +6,8 @@ interface RedditPost {
   score: number;
   url: string;
   permalink: string;
+  // t1_ fullname when replying to a comment instead of the submission
+  fullname?: string;
 }
 
 interface AIReplyResponse {
@@ -37,6 +39,10 @@ interface RedditReplyOptions {
   accountId: string;
   userId?: string;
   includeLink?: boolean;
+  // Subreddit self-promotion stance; 'disclosure_required' adds a disclosure
+  promotionPolicy?: string;
+  // Language code of the post; replies are written in it when not English
+  language?: string;
 }
 
 interface RedditReplyResult {
@@ -82,6 +88,8 @@ export class RedditReplyService {
           keywords: options.keywords || [],
           websiteConfig: options.websiteConfig || {},
           includeLink: options.includeLink,
+          promotionPolicy: options.promotionPolicy,
+          language: options.language,
         }),
       });
 
@@ -134,7 +142,7 @@ export class RedditReplyService {
         body: JSON.stringify({
           userId,
           accountId,
-          postId: post.id,
+          postId: post.fullname || post.id,
           comment,
           subreddit: post.subreddit,
         }),
@@ -1,7 +1,30 @@
 // Custom Reddit service to replace Beno discussions API
+import { createClient } from '@supabase/supabase-js';
 import { filterRelevantDiscussions, WebsiteConfig } from './relevanceFiltering';
 import { DuplicatePostPrevention } from './duplicatePostPrevention';
 import { RedditPaginationManager, buildRedditUrlWithPagination, extractPaginationTokens } from './redditPagination';
+import {
+  DEFAULT_LISTING_MODE,
+  getSearchPaginationKey,
+  listingModeToSearchSort,
+  parseListingMode,
+} from './redditListingModes';
+import { RedditListingCache, redditListingCache } from './redditListingCache';
+import { parseRedditAtomFeed } from './redditAtomFeed';
+import { REDDIT_APP_USER_AGENT, redditHttpClient } from './redditHttpClient';
+import {
+  getWebsiteConfigEligibilitySettings,
+  getWebsiteConfigListingModes,
+} from './websiteConfigCollections';
+import { applyEligibilityGate } from './discussionEligibility';
+import {
+  DiscussionFilterStage,
+  recordDiscussionFilterRejections,
+  toFilterRejectionRecords,
+} from './discussionFilterAudit';
+import { KeywordFilterRejection } from './keywordQuery';
+import { LanguageRejection } from './languageDetection';
+import { LexicalRejection } from './lexicalRanker';
 
 export interface RedditDiscussion {
   id: string;
@@ -16,6 +39,22 @@ export interface RedditDiscussion {
   created_utc: number;
   raw_comment: string;
   is_self?: boolean;
+  // Thing to reply to: t3_<id> for submissions, t1_<id> for comments
+  fullname?: string;
+  kind?: 'submission' | 'comment';
+  // Eligibility flags, when the source provides them
+  locked?: boolean;
+  archived?: boolean;
+  removed?: boolean;
+  over_18?: boolean;
+  stickied?: boolean;
+  // t3_ fullname of the original when this post is a crosspost
+  crosspost_parent?: string;
+  // Comment candidates only
+  thread_id?: string;
+  thread_title?: string;
+  parent_permalink?: string;
+  depth?: number;
 }
 
 export interface RedditDiscussionsResponse {
@@ -23,6 +62,75 @@ export interface RedditDiscussionsResponse {
   total: number;
 }
 
+export type RedditDiscussionSource = 'listing' | 'search';
+export type RedditSearchSort = 'relevance' | 'hot' | 'top' | 'new' | 'comments';
+export type RedditSearchTime = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export interface RedditSearchOptions {
+  sort?: RedditSearchSort;
+  time?: RedditSearchTime;
+  limit?: number;
+  after?: string | null;
+}
+
+export interface RedditSearchResponse extends RedditDiscussionsResponse {
+  after: string | null;
+  before: string | null;
+}
+
+const REDDIT_OAUTH_TOKEN_URL = 'https://www.reddit.com/api/v1/access_token';
+const REDDIT_OAUTH_API_BASE = 'https://oauth.reddit.com';
+// Reddit rejects search queries longer than 512 characters.
+const REDDIT_SEARCH_QUERY_MAX_LENGTH = 512;
+
+let cachedAppToken: { token: string; expiresAt: number } | null = null;
+
+export type RedditFetchSource = 'json' | 'atom' | 'html';
+
+const REDDIT_FETCH_SOURCES: RedditFetchSource[] = ['json', 'atom', 'html'];
+export const DEFAULT_REDDIT_FETCH_ORDER: RedditFetchSource[] = ['json', 'atom', 'html'];
+
+const REDDIT_PROXY_WORKER_URL =
+  process.env.REDDIT_PROXY_WORKER_URL || 'https://redditprxy.devappshowcase.workers.dev/';
+
+/**
+ * Wrap a Reddit URL in the Cloudflare proxy worker
+ */
+export function buildRedditProxyUrl(redditUrl: string): string {
+  return `${REDDIT_PROXY_WORKER_URL}?url=${encodeURIComponent(redditUrl)}`;
+}
+
+/**
+ * Resolve the order in which listing sources are tried: an explicit order,
+ * then REDDIT_FETCH_ORDER (e.g. "json,atom,html"), then the default.
+ * Unknown sources are dropped.
+ */
+export function getRedditFetchOrder(
+  order?: string[] | string | null
+): RedditFetchSource[] {
+  const requested = order ?? process.env.REDDIT_FETCH_ORDER ?? null;
+  const values = Array.isArray(requested)
+    ? requested
+    : (requested || '').split(',');
+  const resolved = values
+    .map((value) => value.trim().toLowerCase())
+    .filter(
+      (value, index, self): value is RedditFetchSource =>
+        REDDIT_FETCH_SOURCES.includes(value as RedditFetchSource) &&
+        self.indexOf(value) === index
+    );
+
+  return resolved.length > 0 ? resolved : DEFAULT_REDDIT_FETCH_ORDER;
+}
+
+function matchesQuery(discussion: RedditDiscussion, query: string): boolean {
+  const queryLower = query.toLowerCase();
+  return (
+    discussion.title.toLowerCase().includes(queryLower) ||
+    discussion.content.toLowerCase().includes(queryLower)
+  );
+}
+
 const userAgents = [
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36',
   'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:122.0) Gecko/20100101 Firefox/122.0',
@@ -47,110 +155,500 @@ export function generateUserAgent(config?: { enabled?: boolean; type?: string; c
   return userAgents[Math.floor(Math.random() * userAgents.length)];
 }
 
+/**
+ * Map a Reddit listing child (`t3` thing data) to a RedditDiscussion
+ */
+export function mapRedditPostToDiscussion(postData: any): RedditDiscussion {
+  return {
+    id: postData.id,
+    title: postData.title,
+    content: postData.selftext || '',
+    description: postData.selftext || postData.title,
+    url: `https://reddit.com${postData.permalink}`,
+    subreddit: postData.subreddit,
+    author: postData.author,
+    score: postData.score,
+    num_comments: postData.num_comments,
+    created_utc: postData.created_utc,
+    raw_comment: postData.selftext || postData.title,
+    is_self: postData.is_self || false,
+    fullname: postData.name || `t3_${postData.id}`,
+    kind: 'submission',
+    locked: Boolean(postData.locked),
+    archived: Boolean(postData.archived),
+    removed: Boolean(postData.removed_by_category || postData.banned_by),
+    over_18: Boolean(postData.over_18),
+    stickied: Boolean(postData.stickied),
+    crosspost_parent: postData.crosspost_parent || undefined,
+  };
+}
+
+/**
+ * Whether the app's Reddit OAuth credentials are available (server only)
+ */
+export function hasRedditOAuthCredentials(): boolean {
+  return Boolean(
+    process.env.REDDIT_CLIENT_ID && process.env.REDDIT_CLIENT_SECRET
+  );
+}
+
+/**
+ * Get an app access token, using the refresh token when one is configured and
+ * the application-only grant otherwise. Tokens are cached until shortly before
+ * they expire.
+ */
+async function getRedditAppAccessToken(): Promise<string> {
+  if (cachedAppToken && cachedAppToken.expiresAt > Date.now() + 60 * 1000) {
+    return cachedAppToken.token;
+  }
+
+  if (!hasRedditOAuthCredentials()) {
+    throw new Error('Reddit OAuth credentials are not configured');
+  }
+
+  const basicAuth = Buffer.from(
+    `${process.env.REDDIT_CLIENT_ID}:${process.env.REDDIT_CLIENT_SECRET}`
+  ).toString('base64');
+  const body = process.env.REDDIT_REFRESH_TOKEN
+    ? new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: process.env.REDDIT_REFRESH_TOKEN,
+      })
+    : new URLSearchParams({ grant_type: 'client_credentials' });
+
+  const response = await redditHttpClient.fetch(
+    REDDIT_OAUTH_TOKEN_URL,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${basicAuth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': REDDIT_APP_USER_AGENT,
+      },
+      body: body.toString(),
+    },
+    'app'
+  );
+
+  if (!response.ok) {
+    throw new Error(`Reddit OAuth token request failed: ${response.status}`);
+  }
+
+  const data = await response.json();
+  if (!data?.access_token) {
+    throw new Error('Reddit OAuth token response did not include a token');
+  }
+
+  cachedAppToken = {
+    token: data.access_token,
+    expiresAt: Date.now() + (data.expires_in || 3600) * 1000,
+  };
+
+  return cachedAppToken.token;
+}
+
+/**
+ * Build a Reddit search query that matches any of the given terms.
+ * Multi-word terms are quoted so they match as phrases.
+ */
+export function buildRedditSearchQuery(terms: string[]): string {
+  const parts: string[] = [];
+  let length = 0;
+
+  for (const term of terms) {
+    const cleaned = term.replace(/"/g, '').trim();
+    if (!cleaned) continue;
+
+    const part = /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+    const addedLength = parts.length === 0 ? part.length : part.length + 4;
+    if (length + addedLength > REDDIT_SEARCH_QUERY_MAX_LENGTH) break;
+
+    parts.push(part);
+    length += addedLength;
+  }
+
+  return parts.join(' OR ');
+}
+
+/**
+ * Search a subreddit through the authenticated Reddit search endpoint.
+ * Server only: requires REDDIT_CLIENT_ID and REDDIT_CLIENT_SECRET.
+ */
+export async function searchRedditDiscussions(
+  query: string,
+  subreddit: string,
+  options: RedditSearchOptions = {}
+): Promise<RedditSearchResponse> {
+  const { sort = 'new', time = 'week', limit = 25, after = null } = options;
+  const token = await getRedditAppAccessToken();
+
+  const params = new URLSearchParams({
+    q: query.substring(0, REDDIT_SEARCH_QUERY_MAX_LENGTH),
+    restrict_sr: '1',
+    sort,
+    t: time,
+    limit: limit.toString(),
+    type: 'link',
+    raw_json: '1',
+  });
+  if (after) {
+    params.append('after', after);
+  }
+
+  const url = `${REDDIT_OAUTH_API_BASE}/r/${encodeURIComponent(subreddit)}/search?${params.toString()}`;
+  console.log(`[REDDIT_SERVICE] Searching r/${subreddit} via OAuth: q="${query}", sort=${sort}, t=${time}`);
+
+  const response = await redditHttpClient.fetch(
+    url,
+    {
+      headers: {
+        Authorization: `Bearer ${token}`,
+        'User-Agent': REDDIT_APP_USER_AGENT,
+        Accept: 'application/json',
+      },
+    },
+    'app'
+  );
+
+  if (response.status === 401) {
+    // Token revoked or expired early; force a fresh one on the next call
+    cachedAppToken = null;
+  }
+
+  if (!response.ok) {
+    throw new Error(`Reddit search failed for r/${subreddit}: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const items: RedditDiscussion[] = (data?.data?.children || [])
+    .filter((post: any) => post?.data?.id && post?.data?.title)
+    .map((post: any) => mapRedditPostToDiscussion(post.data));
+
+  console.log(`[REDDIT_SERVICE] OAuth search returned ${items.length} discussions from r/${subreddit}`);
+
+  return {
+    items,
+    total: items.length,
+    after: data?.data?.after || null,
+    before: data?.data?.before || null,
+  };
+}
+
+/**
+ * GET a Reddit API path (e.g. `/r/foo/comments/abc`). Uses the OAuth API when
+ * credentials are configured and the public JSON through the Cloudflare proxy
+ * otherwise.
+ */
+async function fetchRedditApi(
+  path: string,
+  params: URLSearchParams
+): Promise<Response> {
+  if (typeof window === 'undefined' && hasRedditOAuthCredentials()) {
+    const token = await getRedditAppAccessToken();
+    const response = await redditHttpClient.fetch(
+      `${REDDIT_OAUTH_API_BASE}${path}?${params.toString()}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'User-Agent': REDDIT_APP_USER_AGENT,
+          Accept: 'application/json',
+        },
+      },
+      'app'
+    );
+
+    if (response.status === 401) {
+      cachedAppToken = null;
+    }
+    return response;
+  }
+
+  const redditUrl = `https://old.reddit.com${path}.json?${params.toString()}`;
+  return redditHttpClient.fetch(buildRedditProxyUrl(redditUrl), {
+    headers: {
+      'User-Agent': getRandomUserAgent(),
+      Accept: 'application/json',
+    },
+  });
+}
+
+/**
+ * Fetch the comment tree of a thread as Reddit's raw `[submission, comments]`
+ * listing pair.
+ */
+export async function fetchRedditThreadComments(
+  subreddit: string,
+  threadId: string,
+  options: { limit?: number; depth?: number } = {}
+): Promise<any[]> {
+  const { limit = 100, depth = 4 } = options;
+  const params = new URLSearchParams({
+    limit: limit.toString(),
+    depth: depth.toString(),
+    sort: 'new',
+    raw_json: '1',
+  });
+  const response = await fetchRedditApi(
+    `/r/${encodeURIComponent(subreddit)}/comments/${threadId}`,
+    params
+  );
+
+  if (!response.ok) {
+    throw new Error(
+      `Failed to fetch comments for ${threadId} in r/${subreddit}: ${response.status}`
+    );
+  }
+
+  const data = await response.json();
+  return Array.isArray(data) ? data : [];
+}
+
+export interface RedditSubredditInfo {
+  name: string;
+  title: string;
+  description: string;
+  subscribers: number;
+  activeUsers: number | null;
+  over18: boolean;
+  subredditType: string;
+  createdUtc: number;
+}
+
+/**
+ * Search subreddits by name and description
+ */
+export async function searchRedditSubreddits(
+  query: string,
+  limit: number = 10
+): Promise<RedditSubredditInfo[]> {
+  const params = new URLSearchParams({
+    q: query.substring(0, REDDIT_SEARCH_QUERY_MAX_LENGTH),
+    limit: limit.toString(),
+    include_over_18: 'false',
+    raw_json: '1',
+  });
+  const response = await fetchRedditApi('/subreddits/search', params);
+
+  if (!response.ok) {
+    throw new Error(
+      `Subreddit search failed for "${query}": ${response.status}`
+    );
+  }
+
+  const data = await response.json();
+  return (data?.data?.children || [])
+    .filter((child: any) => child?.data?.display_name)
+    .map((child: any) => ({
+      name: child.data.display_name,
+      title: child.data.title || '',
+      description: child.data.public_description || '',
+      subscribers: child.data.subscribers || 0,
+      activeUsers:
+        child.data.active_user_count ?? child.data.accounts_active ?? null,
+      over18: Boolean(child.data.over18),
+      subredditType: child.data.subreddit_type || 'public',
+      createdUtc: child.data.created_utc || 0,
+    }));
+}
+
+export interface RedditSubredditRule {
+  shortName: string;
+  description: string;
+  kind: string;
+}
+
+/**
+ * Fetch a subreddit's posted rules and its sidebar text
+ */
+export async function fetchRedditSubredditRules(
+  subreddit: string
+): Promise<{ rules: RedditSubredditRule[]; sidebar: string }> {
+  const path = `/r/${encodeURIComponent(subreddit)}`;
+  const params = new URLSearchParams({ raw_json: '1' });
+  const [rulesResponse, aboutResponse] = await Promise.all([
+    fetchRedditApi(`${path}/about/rules`, params),
+    fetchRedditApi(`${path}/about`, params),
+  ]);
+
+  if (!rulesResponse.ok) {
+    throw new Error(
+      `Failed to fetch rules for r/${subreddit}: ${rulesResponse.status}`
+    );
+  }
+
+  const rulesData = await rulesResponse.json();
+  const aboutData = aboutResponse.ok ? await aboutResponse.json() : null;
+
+  return {
+    rules: (rulesData?.rules || []).map((rule: any) => ({
+      shortName: rule.short_name || '',
+      description: rule.description || '',
+      kind: rule.kind || 'all',
+    })),
+    sidebar: aboutData?.data?.description || '',
+  };
+}
+
+/**
+ * Run an OAuth search from either side of the app. Browser callers go through
+ * /api/reddit/discussions because the OAuth credentials are server-only.
+ */
+async function searchRedditDiscussionsFromAnywhere(
+  query: string,
+  subreddit: string,
+  options: RedditSearchOptions = {}
+): Promise<RedditSearchResponse> {
+  if (typeof window === 'undefined') {
+    return searchRedditDiscussions(query, subreddit, options);
+  }
+
+  const params = new URLSearchParams({
+    source: 'search',
+    query,
+    subreddit,
+    limit: (options.limit || 25).toString(),
+  });
+  if (options.sort) params.append('sort', options.sort);
+  if (options.time) params.append('t', options.time);
+  if (options.after) params.append('after', options.after);
+
+  const response = await fetch(`/api/reddit/discussions?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Reddit search failed for r/${subreddit}: ${response.status}`);
+  }
+
+  return response.json();
+}
+
 export async function getRedditDiscussions(
   query: string,
   subreddit: string = 'all',
-  limit: number = 10
+  limit: number = 10,
+  listingMode: string = DEFAULT_LISTING_MODE,
+  fetchOrder?: RedditFetchSource[]
 ): Promise<RedditDiscussionsResponse> {
-  // Try JSON API first to get pagination tokens (after/before), then RSS as fallback
-  const endpoints = [
-    { url: `https://old.reddit.com/r/${subreddit}/hot.json?limit=${limit}`, type: 'json' },
-  ];
-
+  // JSON first for pagination tokens (after/before), then Atom, then HTML
+  const order = getRedditFetchOrder(fetchOrder);
   let lastError: Error | null = null;
 
-  for (const endpoint of endpoints) {
+  for (const source of order) {
     try {
-      console.log(`[REDDIT_SERVICE] Trying ${endpoint.type.toUpperCase()}: ${endpoint.url}`);
+      let discussions: RedditDiscussion[];
 
-      const response = await fetch(endpoint.url, {
-        headers: {
-          'Accept': 'application/json',
-          'User-Agent': getRandomUserAgent(),
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate, br',
-          'DNT': '1',
-          'Connection': 'keep-alive',
-          'Upgrade-Insecure-Requests': '1',
-          'Cache-Control': 'max-age=0',
-        },
-      });
+      if (source === 'json') {
+        const url = buildRedditUrlWithPagination(
+          subreddit,
+          limit,
+          null,
+          null,
+          listingMode
+        );
+        const cacheKey = RedditListingCache.buildKey(
+          subreddit,
+          listingMode,
+          null,
+          limit
+        );
 
-      console.log(`[REDDIT_SERVICE] ${endpoint.type.toUpperCase()} Response: ${response.status}`);
-
-      if (response.ok) {
-        // Parse JSON
-        const data = await response.json();
-        const discussions = data.data?.children
-          ?.filter((post: any) => {
-            const title = post.data.title.toLowerCase();
-            const content = (post.data.selftext || '').toLowerCase();
-            const queryLower = query.toLowerCase();
-            return title.includes(queryLower) || content.includes(queryLower);
-          })
-          ?.map((post: any) => ({
-            id: post.data.id,
-            title: post.data.title,
-            content: post.data.selftext || '',
-            description: post.data.selftext || post.data.title,
-            url: `https://reddit.com${post.data.permalink}`,
-            subreddit: post.data.subreddit,
-            author: post.data.author,
-            score: post.data.score,
-            num_comments: post.data.num_comments,
-            created_utc: post.data.created_utc,
-            raw_comment: post.data.selftext || post.data.title,
-            is_self: post.data.is_self
-          })) || [];
-
-        return {
-          items: discussions,
-          total: discussions.length
-        };
+        const data: any = await redditListingCache.getOrFetch(
+          cacheKey,
+          async () => {
+            console.log(`[REDDIT_SERVICE] Trying JSON: ${url}`);
+
+            const response = await redditHttpClient.fetch(url, {
+              headers: {
+                Accept: 'application/json',
+                'User-Agent': getRandomUserAgent(),
+                'Accept-Language': 'en-US,en;q=0.5',
+                'Accept-Encoding': 'gzip, deflate, br',
+                DNT: '1',
+                Connection: 'keep-alive',
+                'Upgrade-Insecure-Requests': '1',
+                'Cache-Control': 'max-age=0',
+              },
+            });
+
+            console.log(`[REDDIT_SERVICE] JSON Response: ${response.status}`);
+
+            if (!response.ok) {
+              throw new Error(
+                `Failed to fetch from ${url}: ${response.status}`
+              );
+            }
+
+            return response.json();
+          }
+        );
+        discussions = (data.data?.children || [])
+          .map((post: any) => mapRedditPostToDiscussion(post.data))
+          .filter((discussion: RedditDiscussion) =>
+            matchesQuery(discussion, query)
+          );
+      } else if (source === 'atom') {
+        discussions = (
+          await fetchRedditAtomDiscussions(subreddit, limit, listingMode)
+        ).filter((discussion) => matchesQuery(discussion, query));
       } else {
-        lastError = new Error(`Failed to fetch from ${endpoint.url}: ${response.status}`);
-        console.log(`Failed to fetch from r/${subreddit} (${endpoint.type}): ${response.status}`);
+        console.log(
+          `[REDDIT_SERVICE] Trying HTML scraping: ${buildRedditHtmlListingUrl(subreddit, listingMode)}`
+        );
+        discussions = await scrapeRedditHTML(subreddit, query, listingMode);
+        if (discussions.length === 0) {
+          throw new Error(
+            `HTML scraping found no discussions in r/${subreddit}`
+          );
+        }
       }
-    } catch (error) {
-      lastError = error as Error;
-      console.log(`Error fetching from ${endpoint.url}:`, error);
-    }
 
-    // Add delay between attempts
-    await new Promise(resolve => setTimeout(resolve, 500));
-  }
-
-  // Try HTML scraping as final fallback
-  try {
-    console.log(`[REDDIT_SERVICE] Trying HTML scraping: https://old.reddit.com/r/${subreddit}/hot`);
-    const discussions = await scrapeRedditHTML(subreddit, query);
-    if (discussions.length > 0) {
-      console.log(`[REDDIT_SERVICE] HTML scraping found ${discussions.length} discussions`);
+      console.log(
+        `[REDDIT_SERVICE] ${source.toUpperCase()} found ${discussions.length} discussions`
+      );
       return {
         items: discussions,
-        total: discussions.length
+        total: discussions.length,
       };
+    } catch (error) {
+      lastError = error as Error;
+      console.log(
+        `[REDDIT_SERVICE] ${source.toUpperCase()} failed for r/${subreddit}:`,
+        error
+      );
     }
-  } catch (error) {
-    console.log(`[REDDIT_SERVICE] HTML scraping failed:`, error);
+
+    // Add delay between attempts
+    await new Promise((resolve) => setTimeout(resolve, 500));
   }
 
   // If all methods failed, throw the last error
-  throw lastError || new Error(`Failed to fetch Reddit discussions from r/${subreddit}`);
+  throw (
+    lastError ||
+    new Error(`Failed to fetch Reddit discussions from r/${subreddit}`)
+  );
+}
+
+function buildRedditHtmlListingUrl(
+  subreddit: string,
+  listingMode: string
+): string {
+  const { sort, time } = parseListingMode(listingMode);
+  return `https://old.reddit.com/r/${subreddit}/${sort}/${time ? `?t=${time}` : ''}`;
 }
 
 // HTML scraping fallback method
-export async function scrapeRedditHTML(subreddit: string, query: string): Promise<RedditDiscussion[]> {
+export async function scrapeRedditHTML(
+  subreddit: string,
+  query: string,
+  listingMode: string = DEFAULT_LISTING_MODE
+): Promise<RedditDiscussion[]> {
   const discussions: RedditDiscussion[] = [];
 
   try {
-    const PROXY_WORKER_URL = 'https://redditprxy.devappshowcase.workers.dev/';
-    const redditUrl = `https://old.reddit.com/r/${subreddit}/hot`;
-    const proxyUrl = `${PROXY_WORKER_URL}?url=${encodeURIComponent(redditUrl)}`;
+    const redditUrl = buildRedditHtmlListingUrl(subreddit, listingMode);
+    const proxyUrl = buildRedditProxyUrl(redditUrl);
 
     console.log(`[HTML_SCRAPER] Fetching via Cloudflare Proxy: ${proxyUrl}`);
 
-    const response = await fetch(proxyUrl, {
+    const response = await redditHttpClient.fetch(proxyUrl, {
       method: 'GET',
       headers: {
         'Accept': 'text/html',
@@ -231,83 +729,123 @@ export async function scrapeRedditHTML(subreddit: string, query: string): Promis
   }
 }
 
-// Parse Reddit RSS feed to extract discussions
-function parseRedditRSS(rssText: string, query: string, subreddit: string): RedditDiscussion[] {
-  const discussions: RedditDiscussion[] = [];
-
-  try {
-    console.log(`[RSS_PARSER] Parsing feed for r/${subreddit}, content length: ${rssText.length}`);
-    console.log(`[RSS_PARSER] Feed sample: ${rssText.substring(0, 500)}...`);
-
-    // Reddit uses Atom format with <entry> tags, not RSS <item> tags
-    const entries = rssText.split('<entry>').slice(1); // Remove first empty element
-    console.log(`[RSS_PARSER] Found ${entries.length} entries in feed`);
-
-    for (const entryText of entries.slice(0, 25)) {
-      const endIndex = entryText.indexOf('</entry>');
-      const entry = endIndex > -1 ? entryText.substring(0, endIndex) : entryText;
-
-      // Atom format uses different tags than RSS
-      const titleMatch = entry.match(/<title[^>]*>([\s\S]*?)<\/title>/);
-      const linkMatch = entry.match(/<link[^>]*href="([^"]*)"[^>]*>/);
-      const contentMatch = entry.match(/<content[^>]*>([\s\S]*?)<\/content>/);
-      const authorMatch = entry.match(/<author><name>([^<]*)<\/name><\/author>/);
-
-      console.log(`[RSS_PARSER] Entry title match: ${titleMatch?.[1]?.substring(0, 100)}`);
-
-      if (titleMatch && linkMatch) {
-        const title = titleMatch[1].replace(/<!\[CDATA\[(.*?)\]\]>/g, '$1').trim();
-        const url = linkMatch[1];
-        const description = contentMatch?.[1]?.replace(/<!\[CDATA\[(.*?)\]\]>/g, '$1').replace(/<[^>]*>/g, '').trim() || '';
-        const author = authorMatch?.[1] || 'unknown';
-
-        // Filter by query relevance (more lenient for RSS)
-        const titleLower = title.toLowerCase();
-        const descLower = description.toLowerCase();
-        const queryLower = query.toLowerCase();
-
-        console.log(`[RSS_PARSER] Checking post: "${title}" against query: "${query}"`);
-
-        // More lenient matching for business-relevant posts
-        const businessKeywords = ['business', 'startup', 'entrepreneur', 'marketing', 'saas', 'platform', 'service', 'product', 'company', 'revenue', 'growth', 'customer', 'market'];
-        const isBusinessRelevant = businessKeywords.some(keyword =>
-          titleLower.includes(keyword) || descLower.includes(keyword)
-        );
+/**
+ * Fetch a subreddit listing as an Atom feed
+ */
+export async function fetchRedditAtomDiscussions(
+  subreddit: string,
+  limit: number = 10,
+  listingMode: string = DEFAULT_LISTING_MODE
+): Promise<RedditDiscussion[]> {
+  const { sort, time } = parseListingMode(listingMode);
+  const params = new URLSearchParams({ limit: limit.toString() });
+  if (time) params.append('t', time);
+
+  const feedUrl = `https://old.reddit.com/r/${subreddit}/${sort}/.rss?${params.toString()}`;
+  console.log(`[RSS_PARSER] Fetching Atom feed: ${feedUrl}`);
+
+  const response = await redditHttpClient.fetch(feedUrl, {
+    headers: {
+      Accept: 'application/atom+xml, application/xml;q=0.9',
+      'User-Agent': getRandomUserAgent(),
+    },
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `Atom feed fetch failed for r/${subreddit}: ${response.status}`
+    );
+  }
 
-        const isRelevant = titleLower.includes(queryLower) ||
-          descLower.includes(queryLower) ||
-          isBusinessRelevant || // Include business-relevant posts
-          query.length < 4; // Include all posts for short queries
+  const discussions = parseRedditAtomFeed(await response.text(), subreddit);
+  console.log(
+    `[RSS_PARSER] Parsed ${discussions.length} entries from r/${subreddit}`
+  );
+  return discussions;
+}
 
-        if (isRelevant) {
-          // Extract Reddit post ID from URL
-          const idMatch = url.match(/\/comments\/([a-z0-9]+)\//);
-          const postId = idMatch?.[1] || Math.random().toString(36);
+/**
+ * Try the non-JSON sources of the fetch order (Atom, then HTML by default)
+ * until one returns discussions. Used when the JSON listing is blocked.
+ */
+export async function fetchRedditFallbackDiscussions(
+  subreddit: string,
+  query: string,
+  options: {
+    limit?: number;
+    listingMode?: string;
+    order?: RedditFetchSource[];
+  } = {}
+): Promise<{ items: RedditDiscussion[]; source: RedditFetchSource | null }> {
+  const { limit = 10, listingMode = DEFAULT_LISTING_MODE } = options;
+  const fallbackOrder = getRedditFetchOrder(options.order).filter(
+    (source) => source !== 'json'
+  );
 
-          discussions.push({
-            id: postId,
-            title: title,
-            content: description,
-            description: description,
-            url: url,
-            subreddit: subreddit,
-            author: author,
-            score: 0,
-            num_comments: 0,
-            created_utc: Date.now() / 1000,
-            raw_comment: description || title,
-            is_self: true
-          });
-        }
+  for (const source of fallbackOrder) {
+    try {
+      const items =
+        source === 'atom'
+          ? (
+              await fetchRedditAtomDiscussions(subreddit, limit, listingMode)
+            ).filter((discussion) => matchesQuery(discussion, query))
+          : await scrapeRedditHTML(subreddit, query, listingMode);
+
+      if (items.length > 0) {
+        return { items, source };
       }
+    } catch (error) {
+      console.log(
+        `[REDDIT_SERVICE] ${source.toUpperCase()} fallback failed for r/${subreddit}:`,
+        error
+      );
     }
-  } catch (error) {
-    console.error('Error parsing RSS:', error);
   }
 
-  return discussions;
+  return { items: [], source: null };
+}
+
+
+/**
+ * Record pre-scoring rejections. The audit table is written with the service
+ * role, so nothing is recorded when this runs in the browser.
+ */
+async function auditFilterRejections(
+  websiteConfigId: string,
+  userId: string | null,
+  stage: DiscussionFilterStage,
+  rejections: Parameters<typeof toFilterRejectionRecords>[0]
+): Promise<void> {
+  if (typeof window !== 'undefined' || rejections.length === 0) return;
+
+  await recordDiscussionFilterRejections(
+    createClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+    ),
+    {
+      websiteConfigId,
+      userId,
+      stage,
+      rejections: toFilterRejectionRecords(rejections),
+    }
+  );
 }
 
+// Keyword, language and lexical rejection callbacks for filterRelevantDiscussions
+function buildFilterAuditCallbacks(
+  websiteConfigId: string,
+  userId: string | null
+) {
+  return [
+    (rejections: KeywordFilterRejection<RedditDiscussion>[]) =>
+      auditFilterRejections(websiteConfigId, userId, 'keyword', rejections),
+    (rejections: LanguageRejection<RedditDiscussion>[]) =>
+      auditFilterRejections(websiteConfigId, userId, 'language', rejections),
+    (rejections: LexicalRejection<RedditDiscussion>[]) =>
+      auditFilterRejections(websiteConfigId, userId, 'lexical', rejections),
+  ] as const;
+}
 
 export async function searchMultipleSubredditsWithPagination(
   query: string,
@@ -315,12 +853,16 @@ export async function searchMultipleSubredditsWithPagination(
   subreddits: string[],
   limitPerSubreddit: number = 10,
   websiteConfig?: WebsiteConfig,
-  usePagination: boolean = true
+  usePagination: boolean = true,
+  source: RedditDiscussionSource = 'listing'
 ): Promise<RedditDiscussion[]> {
   const allDiscussions: RedditDiscussion[] = [];
   const paginationManager = usePagination
     ? new RedditPaginationManager(userId, websiteConfig?.id)
     : null;
+  const listingModes = websiteConfig
+    ? getWebsiteConfigListingModes(websiteConfig)
+    : [DEFAULT_LISTING_MODE];
   const configuredSubreddits = Array.from(
     new Set(
       subreddits
@@ -336,29 +878,60 @@ export async function searchMultipleSubredditsWithPagination(
 
   for (const subreddit of configuredSubreddits.slice(0, 10)) {
     try {
+      // Search results are already matched to the query by Reddit; each
+      // listing mode picks the search sort and keeps its own pagination.
+      if (source === 'search') {
+        const listingMode = paginationManager
+          ? await paginationManager.pickListingMode(subreddit, listingModes, 'search')
+          : listingModes[0] || DEFAULT_LISTING_MODE;
+        const paginationKey = getSearchPaginationKey(listingMode);
+        const paginationState = paginationManager
+          ? await paginationManager.getPaginationState(subreddit, paginationKey)
+          : null;
+        const result = await searchRedditDiscussionsFromAnywhere(query, subreddit, {
+          ...listingModeToSearchSort(listingMode),
+          limit: limitPerSubreddit,
+          after: paginationState?.after || null,
+        });
+        await paginationManager?.updatePaginationState(
+          subreddit,
+          result.after,
+          result.before,
+          result.items.length,
+          paginationKey
+        );
+        allDiscussions.push(...result.items);
+        continue;
+      }
+
       let redditUrl: string;
       let paginationState = null;
+      let listingMode: string = listingModes[0] || DEFAULT_LISTING_MODE;
 
       if (paginationManager) {
-        // Get existing pagination state
-        paginationState = await paginationManager.getPaginationState(subreddit);
+        // Rotate through the configured listing modes, each with its own state
+        listingMode = await paginationManager.pickListingMode(subreddit, listingModes);
+        paginationState = await paginationManager.getPaginationState(subreddit, listingMode);
         redditUrl = buildRedditUrlWithPagination(
           subreddit,
           limitPerSubreddit,
           paginationState?.after,
           null,
-          'hot'
+          listingMode
         );
       } else {
-        redditUrl = `https://old.reddit.com/r/${subreddit}/hot.json?limit=${limitPerSubreddit}`;
+        redditUrl = buildRedditUrlWithPagination(
+          subreddit,
+          limitPerSubreddit,
+          null,
+          null,
+          listingMode
+        );
       }
 
-      console.log(`[REDDIT_SERVICE] Fetching URL: ${redditUrl}`);
+      console.log(`[REDDIT_SERVICE] Fetching URL (${listingMode}): ${redditUrl}`);
 
-      // Add delay to avoid aggressive rate limiting
-      await new Promise(resolve => setTimeout(resolve, 1000));
-
-      const response = await fetch(redditUrl, {
+      const response = await redditHttpClient.fetch(redditUrl, {
         headers: {
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8',
           'User-Agent': getRandomUserAgent(),
@@ -391,7 +964,13 @@ export async function searchMultipleSubredditsWithPagination(
       if (paginationManager && data?.data) {
         const { after, before } = extractPaginationTokens(data);
         const fetchedCount = data.data.children?.length || 0;
-        await paginationManager.updatePaginationState(subreddit, after, before, fetchedCount);
+        await paginationManager.updatePaginationState(
+          subreddit,
+          after,
+          before,
+          fetchedCount,
+          listingMode
+        );
       }
 
       // Process discussions
@@ -403,20 +982,7 @@ export async function searchMultipleSubredditsWithPagination(
 
           return title.includes(queryLower) || selftext.includes(queryLower);
         })
-        ?.map((post: any) => ({
-          id: post.data.id,
-          title: post.data.title,
-          content: post.data.selftext || '',
-          description: post.data.selftext || post.data.title,
-          url: `https://reddit.com${post.data.permalink}`,
-          subreddit: post.data.subreddit,
-          author: post.data.author,
-          score: post.data.score,
-          num_comments: post.data.num_comments,
-          created_utc: post.data.created_utc,
-          raw_comment: post.data.selftext || post.data.title,
-          is_self: post.data.is_self || false,
-        })) || [];
+        ?.map((post: any) => mapRedditPostToDiscussion(post.data)) || [];
 
       allDiscussions.push(...discussions);
     } catch (error) {
@@ -443,8 +1009,25 @@ export async function searchMultipleSubredditsWithPagination(
       websiteConfig.id
     );
 
+    // Skip locked, archived, stale or otherwise ineligible posts before scoring
+    const { eligible, rejected } = applyEligibilityGate(
+      unpostedDiscussions,
+      getWebsiteConfigEligibilitySettings(websiteConfig)
+    );
+    await auditFilterRejections(
+      websiteConfig.id,
+      userId,
+      'eligibility',
+      rejected
+    );
+
     // Apply relevance scoring and filtering
-    const relevantDiscussions = await filterRelevantDiscussions(unpostedDiscussions, websiteConfig);
+    const relevantDiscussions = await filterRelevantDiscussions(
+      eligible,
+      websiteConfig,
+      [],
+      ...buildFilterAuditCallbacks(websiteConfig.id, userId)
+    );
 
     return (await relevantDiscussions).map(item => item.discussion).slice(0, 20);
   }
@@ -498,8 +1081,25 @@ export async function searchMultipleSubreddits(
       websiteConfig.id
     );
 
+    // Skip locked, archived, stale or otherwise ineligible posts before scoring
+    const { eligible, rejected } = applyEligibilityGate(
+      unpostedDiscussions,
+      getWebsiteConfigEligibilitySettings(websiteConfig)
+    );
+    await auditFilterRejections(
+      websiteConfig.id,
+      null,
+      'eligibility',
+      rejected
+    );
+
     // Apply relevance scoring and filtering
-    const relevantDiscussions = filterRelevantDiscussions(unpostedDiscussions, websiteConfig);
+    const relevantDiscussions = filterRelevantDiscussions(
+      eligible,
+      websiteConfig,
+      [],
+      ...buildFilterAuditCallbacks(websiteConfig.id, null)
+    );
 
     return (await relevantDiscussions).map(item => item.discussion).slice(0, 20);
   }
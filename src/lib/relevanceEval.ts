@@ -0,0 +1,622 @@
+import { RedditDiscussion } from './redditService';
+import { LlmClient, LlmCompletionRequest } from './llmClient';
+import { applyKeywordPrefilter } from './keywordQuery';
+import {
+  applyLexicalPrerank,
+  computeLexicalScores,
+  detectLexicalQueryLanguage,
+} from './lexicalRanker';
+import { applyLanguageFilter, UNKNOWN_LANGUAGE } from './languageDetection';
+import {
+  RelevanceFeedbackExample,
+  RelevanceFeedbackLabel,
+  ScoredDiscussion,
+  isRelevanceFeedbackLabel,
+  pickFewShotExamples,
+} from './relevanceFeedback';
+import {
+  getWebsiteConfigAllowedLanguages,
+  isTargetKeywordRequired,
+} from './websiteConfigCollections';
+import {
+  CANDIDATE_THRESHOLDS,
+  normalizeRelevanceThreshold,
+} from './relevanceThreshold';
+import {
+  BATCH_DISCUSSION_CHAR_LIMIT,
+  MAX_SCORING_BATCH_SIZE,
+  SCORING_PROMPT_VERSION,
+  WebsiteConfig,
+  buildBatchRelevanceScoringPrompt,
+  buildRelevanceScoringPrompt,
+  requestBatchRelevanceScores,
+  requestRelevanceScores,
+} from './relevanceFiltering';
+
+/**
+ * One labeled discussion. Same columns as a scored_discussions row, so
+ * labeled rows exported as JSON can be used as a dataset as they are.
+ */
+export interface RelevanceEvalDiscussion {
+  reddit_post_id: string;
+  subreddit: string;
+  post_title: string;
+  post_content?: string | null;
+  post_url?: string | null;
+  feedback_label: RelevanceFeedbackLabel;
+  // Score the discussion got in production; the mock client answers with it
+  final_score?: number | null;
+}
+
+export interface RelevanceEvalDataset {
+  name: string;
+  websiteConfig: WebsiteConfig;
+  discussions: RelevanceEvalDiscussion[];
+  // Few-shot examples put in every prompt, picked from the dataset's
+  // labeled example rows the way production picks them
+  examples: RelevanceFeedbackExample[];
+}
+
+export type RelevanceEvalMode = 'batch' | 'single';
+
+/**
+ * What is being evaluated: a client and model, how discussions are sent,
+ * and optionally prompts other than the current scoring prompts
+ */
+export interface RelevanceEvalVariant {
+  name: string;
+  client: LlmClient;
+  model: string;
+  // batch (the default) scores like production, several discussions per
+  // request; single sends one discussion per request
+  mode?: RelevanceEvalMode;
+  batchSize?: number;
+  buildPrompt?: typeof buildRelevanceScoringPrompt;
+  buildBatchPrompt?: typeof buildBatchRelevanceScoringPrompt;
+  promptVersion?: string;
+}
+
+export interface RelevanceEvalPrediction {
+  redditPostId: string;
+  title: string;
+  label: RelevanceFeedbackLabel;
+  // null when the discussion was filtered out before scoring or scoring failed
+  finalScore: number | null;
+  skipReason?:
+    | 'keyword_filter'
+    | 'language_filter'
+    | 'lexical_floor'
+    | 'scoring_error';
+}
+
+export interface ThresholdMetrics {
+  threshold: number;
+  truePositives: number;
+  falsePositives: number;
+  falseNegatives: number;
+  trueNegatives: number;
+  precision: number;
+  recall: number;
+  f1: number;
+}
+
+export interface RelevanceEvalReport {
+  dataset: string;
+  variant: string;
+  model: string;
+  promptVersion: string;
+  mode: RelevanceEvalMode;
+  batchSize: number;
+  examples: number;
+  configThreshold: number;
+  predictions: RelevanceEvalPrediction[];
+  metrics: ThresholdMetrics[];
+  // Threshold with the highest F1
+  best: ThresholdMetrics;
+}
+
+export interface RelevanceEvalDiff {
+  base: RelevanceEvalReport;
+  candidate: RelevanceEvalReport;
+  thresholds: {
+    threshold: number;
+    precisionDelta: number;
+    recallDelta: number;
+    f1Delta: number;
+  }[];
+  // Discussions the two variants decide differently at the config threshold
+  flipped: {
+    redditPostId: string;
+    title: string;
+    label: RelevanceFeedbackLabel;
+    baseScore: number | null;
+    candidateScore: number | null;
+  }[];
+}
+
+/**
+ * Check a parsed dataset file, throwing with every problem found
+ */
+export function parseRelevanceEvalDataset(
+  json: any,
+  fallbackName: string
+): RelevanceEvalDataset {
+  const errors: string[] = [];
+  if (!json || typeof json !== 'object') {
+    throw new Error('Dataset must be a JSON object');
+  }
+  if (!json.websiteConfig || typeof json.websiteConfig !== 'object') {
+    errors.push('websiteConfig is missing');
+  }
+  if (!Array.isArray(json.discussions) || json.discussions.length === 0) {
+    errors.push('discussions must be a non-empty array');
+  }
+
+  (Array.isArray(json.discussions) ? json.discussions : []).forEach(
+    (row: any, index: number) => {
+      if (!row?.reddit_post_id || !row?.post_title) {
+        errors.push(
+          `discussions[${index}] needs reddit_post_id and post_title`
+        );
+      }
+      if (!isRelevanceFeedbackLabel(row?.feedback_label)) {
+        errors.push(
+          `discussions[${index}].feedback_label must be relevant or not_relevant`
+        );
+      }
+    }
+  );
+
+  if (json.examples !== undefined && !Array.isArray(json.examples)) {
+    errors.push('examples must be an array');
+  }
+  (Array.isArray(json.examples) ? json.examples : []).forEach(
+    (row: any, index: number) => {
+      if (!row?.reddit_post_id || !row?.post_title) {
+        errors.push(`examples[${index}] needs reddit_post_id and post_title`);
+      }
+      if (!isRelevanceFeedbackLabel(row?.feedback_label)) {
+        errors.push(
+          `examples[${index}].feedback_label must be relevant or not_relevant`
+        );
+      }
+      if (typeof row?.final_score !== 'number') {
+        errors.push(`examples[${index}].final_score must be a number`);
+      }
+    }
+  );
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid dataset: ${errors.join('; ')}`);
+  }
+
+  const relevanceThreshold = normalizeRelevanceThreshold(
+    json.websiteConfig.relevance_threshold
+  );
+  return {
+    name: json.name || fallbackName,
+    websiteConfig: {
+      customer_segments: [],
+      keywords: [],
+      negative_keywords: [],
+      business_context_terms: [],
+      ...json.websiteConfig,
+      relevance_threshold: relevanceThreshold,
+    },
+    discussions: json.discussions,
+    examples: pickFewShotExamples(
+      (json.examples || []).map(
+        (row: any): ScoredDiscussion => ({
+          subreddit: '',
+          post_url: null,
+          post_content: null,
+          lexical_score: null,
+          reasoning: null,
+          scored_at: '',
+          labeled_at: null,
+          labeled_score: null,
+          labeled_threshold: null,
+          labeled_scored_at: null,
+          ...row,
+          relevance_threshold: row.relevance_threshold ?? relevanceThreshold,
+        })
+      )
+    ),
+  };
+}
+
+function toRedditDiscussion(row: RelevanceEvalDiscussion): RedditDiscussion {
+  return {
+    id: row.reddit_post_id,
+    title: row.post_title,
+    content: row.post_content || '',
+    description: row.post_content || '',
+    url: row.post_url || '',
+    subreddit: row.subreddit,
+    author: '',
+    score: 0,
+    num_comments: 0,
+    created_utc: 0,
+    raw_comment: '',
+    is_self: true,
+  };
+}
+
+/**
+ * Offline stand-in for the scoring model. Answers with the dataset's
+ * recorded final_score, or a keyword-overlap score when there is none.
+ * Batch prompts are matched by the discussion ids in their section
+ * headers, single prompts by the "Post Title:" line.
+ */
+export function createMockScoringClient(
+  dataset: RelevanceEvalDataset
+): LlmClient {
+  const recorded = new Map<string, RelevanceEvalDiscussion>();
+  const recordedById = new Map<string, RelevanceEvalDiscussion>();
+  for (const row of dataset.discussions) {
+    recorded.set(row.post_title.trim(), row);
+    recordedById.set(row.reddit_post_id, row);
+  }
+  const terms = [
+    ...(dataset.websiteConfig.target_keywords ||
+      dataset.websiteConfig.keywords ||
+      []),
+    ...(dataset.websiteConfig.business_context_terms || []),
+  ].map((term) => term.toLowerCase());
+
+  const mockScores = (row: RelevanceEvalDiscussion | undefined) => {
+    let finalScore = row?.final_score;
+    if (finalScore === undefined || finalScore === null) {
+      const text =
+        `${row?.post_title || ''} ${row?.post_content || ''}`.toLowerCase();
+      const matched = terms.filter((term) => text.includes(term)).length;
+      finalScore = terms.length
+        ? Math.round((100 * matched) / terms.length)
+        : 0;
+    }
+
+    return {
+      intentScore: finalScore,
+      contextMatchScore: finalScore,
+      qualityScore: finalScore,
+      finalScore,
+      reasoning: row ? 'Mock score' : 'Mock score for an unknown post',
+    };
+  };
+
+  return {
+    provider: 'openai-compatible',
+    async complete(request: LlmCompletionRequest) {
+      const batchIds = Array.from(
+        request.prompt.matchAll(
+          /^=== REDDIT DISCUSSION \d+ \(id: (.+)\) ===$/gm
+        ),
+        (match) => match[1]
+      );
+      const title = request.prompt.match(/^Post Title: (.*)$/m)?.[1]?.trim();
+
+      return {
+        text: JSON.stringify(
+          batchIds.length > 0
+            ? batchIds.map((id) => ({
+                id,
+                ...mockScores(recordedById.get(id)),
+              }))
+            : mockScores(title ? recorded.get(title) : undefined)
+        ),
+        provider: 'openai-compatible',
+        model: request.model,
+      };
+    },
+  };
+}
+
+/**
+ * Precision, recall and F1 of "score >= threshold" against the labels.
+ * Unscored discussions count as not relevant. Precision with no positive
+ * predictions is 1, as is recall with no relevant labels.
+ */
+export function computeThresholdMetrics(
+  predictions: RelevanceEvalPrediction[],
+  thresholds: number[] = CANDIDATE_THRESHOLDS
+): ThresholdMetrics[] {
+  return thresholds.map((threshold) => {
+    let truePositives = 0;
+    let falsePositives = 0;
+    let falseNegatives = 0;
+    let trueNegatives = 0;
+
+    for (const prediction of predictions) {
+      const predicted =
+        prediction.finalScore !== null && prediction.finalScore >= threshold;
+      const actual = prediction.label === 'relevant';
+      if (predicted && actual) truePositives += 1;
+      else if (predicted) falsePositives += 1;
+      else if (actual) falseNegatives += 1;
+      else trueNegatives += 1;
+    }
+
+    const precision =
+      truePositives + falsePositives === 0
+        ? 1
+        : truePositives / (truePositives + falsePositives);
+    const recall =
+      truePositives + falseNegatives === 0
+        ? 1
+        : truePositives / (truePositives + falseNegatives);
+
+    return {
+      threshold,
+      truePositives,
+      falsePositives,
+      falseNegatives,
+      trueNegatives,
+      precision,
+      recall,
+      f1:
+        precision + recall === 0
+          ? 0
+          : (2 * precision * recall) / (precision + recall),
+    };
+  });
+}
+
+/**
+ * Run the scoring pipeline over a dataset: the keyword, language and
+ * lexical filters production applies, then the scoring prompts on the
+ * variant's client with the dataset's examples. A dataset isn't a single
+ * run, so the lexical top-N cap is left out and only the floor applies.
+ * Batches go out one at a time so local models aren't overloaded; a batch
+ * the model fails is scored one discussion at a time, as in production.
+ */
+export async function runRelevanceEval(
+  dataset: RelevanceEvalDataset,
+  variant: RelevanceEvalVariant
+): Promise<RelevanceEvalReport> {
+  const { websiteConfig, examples } = dataset;
+  const buildPrompt = variant.buildPrompt || buildRelevanceScoringPrompt;
+  const buildBatchPrompt =
+    variant.buildBatchPrompt || buildBatchRelevanceScoringPrompt;
+  const mode = variant.mode || 'batch';
+  const batchSize =
+    mode === 'batch'
+      ? Math.max(1, Math.floor(variant.batchSize || MAX_SCORING_BATCH_SIZE))
+      : 1;
+  const llmOptions = {
+    client: variant.client,
+    model: variant.model,
+    maxAttempts: 1,
+  };
+  const discussions = dataset.discussions.map(toRedditDiscussion);
+  const rows = new Map(
+    dataset.discussions.map((row) => [row.reddit_post_id, row])
+  );
+
+  const keywordFilter = applyKeywordPrefilter(discussions, {
+    targetKeywords: isTargetKeywordRequired(websiteConfig)
+      ? websiteConfig.target_keywords
+      : [],
+    negativeKeywords: websiteConfig.negative_keywords,
+  });
+  const languageFilter = applyLanguageFilter(
+    keywordFilter.passed,
+    getWebsiteConfigAllowedLanguages(websiteConfig)
+  );
+  const skipped = new Map<string, RelevanceEvalPrediction['skipReason']>();
+  keywordFilter.rejected.forEach(({ discussion }) =>
+    skipped.set(discussion.id, 'keyword_filter')
+  );
+  languageFilter.rejected.forEach(({ discussion }) =>
+    skipped.set(discussion.id, 'language_filter')
+  );
+  applyLexicalPrerank(
+    languageFilter.passed,
+    computeLexicalScores(languageFilter.passed, websiteConfig),
+    {
+      maxCandidates: Infinity,
+      languages: languageFilter.languages,
+      queryLanguage: detectLexicalQueryLanguage(websiteConfig),
+    }
+  ).rejected.forEach(({ discussion }) =>
+    skipped.set(discussion.id, 'lexical_floor')
+  );
+
+  const languageOf = (discussion: RedditDiscussion) =>
+    languageFilter.languages.get(discussion.id) || UNKNOWN_LANGUAGE;
+  const finalScores = new Map<string, number>();
+  const scoreIndividually = async (batch: RedditDiscussion[]) => {
+    for (const discussion of batch) {
+      try {
+        const scores = await requestRelevanceScores(
+          buildPrompt(
+            discussion,
+            websiteConfig,
+            3500,
+            languageOf(discussion),
+            examples
+          ),
+          llmOptions
+        );
+        finalScores.set(discussion.id, scores.finalScore);
+      } catch (error: any) {
+        console.warn(
+          `[RELEVANCE_EVAL] ${variant.name} failed to score ${discussion.id}: ${error?.message || error}`
+        );
+      }
+    }
+  };
+
+  const toScore = discussions.filter(
+    (discussion) => !skipped.has(discussion.id)
+  );
+  for (let index = 0; index < toScore.length; index += batchSize) {
+    const batch = toScore.slice(index, index + batchSize);
+    if (batch.length === 1) {
+      await scoreIndividually(batch);
+      continue;
+    }
+
+    try {
+      const scores = await requestBatchRelevanceScores(
+        buildBatchPrompt(
+          batch.map((discussion) => ({
+            discussion,
+            language: languageOf(discussion),
+          })),
+          websiteConfig,
+          BATCH_DISCUSSION_CHAR_LIMIT,
+          examples
+        ),
+        batch.map((discussion) => discussion.id),
+        llmOptions
+      );
+      scores.forEach(({ finalScore }, id) => finalScores.set(id, finalScore));
+    } catch (error: any) {
+      console.warn(
+        `[RELEVANCE_EVAL] ${variant.name} failed a batch of ${batch.length} (${error?.message || error}); scoring individually`
+      );
+      await scoreIndividually(batch);
+    }
+  }
+
+  const predictions: RelevanceEvalPrediction[] = discussions.map(
+    (discussion) => {
+      const skipReason = skipped.get(discussion.id);
+      const finalScore = finalScores.get(discussion.id);
+      return {
+        redditPostId: discussion.id,
+        title: discussion.title,
+        label: rows.get(discussion.id)!.feedback_label,
+        finalScore: finalScore ?? null,
+        skipReason:
+          skipReason ||
+          (finalScore === undefined ? 'scoring_error' : undefined),
+      };
+    }
+  );
+
+  const metrics = computeThresholdMetrics(predictions);
+  return {
+    dataset: dataset.name,
+    variant: variant.name,
+    model: variant.model,
+    promptVersion: variant.promptVersion || SCORING_PROMPT_VERSION,
+    mode,
+    batchSize,
+    examples: examples.length,
+    configThreshold: websiteConfig.relevance_threshold,
+    predictions,
+    metrics,
+    best: metrics.reduce((best, current) =>
+      current.f1 > best.f1 ? current : best
+    ),
+  };
+}
+
+export function diffRelevanceEvals(
+  base: RelevanceEvalReport,
+  candidate: RelevanceEvalReport
+): RelevanceEvalDiff {
+  const candidateMetrics = new Map(
+    candidate.metrics.map((metrics) => [metrics.threshold, metrics])
+  );
+  const candidatePredictions = new Map(
+    candidate.predictions.map((prediction) => [
+      prediction.redditPostId,
+      prediction,
+    ])
+  );
+  const threshold = candidate.configThreshold;
+  const isRelevant = (score: number | null) =>
+    score !== null && score >= threshold;
+
+  return {
+    base,
+    candidate,
+    thresholds: base.metrics
+      .filter((metrics) => candidateMetrics.has(metrics.threshold))
+      .map((metrics) => {
+        const other = candidateMetrics.get(metrics.threshold)!;
+        return {
+          threshold: metrics.threshold,
+          precisionDelta: other.precision - metrics.precision,
+          recallDelta: other.recall - metrics.recall,
+          f1Delta: other.f1 - metrics.f1,
+        };
+      }),
+    flipped: base.predictions
+      .filter((prediction) => {
+        const other = candidatePredictions.get(prediction.redditPostId);
+        return (
+          other &&
+          isRelevant(prediction.finalScore) !== isRelevant(other.finalScore)
+        );
+      })
+      .map((prediction) => ({
+        redditPostId: prediction.redditPostId,
+        title: prediction.title,
+        label: prediction.label,
+        baseScore: prediction.finalScore,
+        candidateScore: candidatePredictions.get(prediction.redditPostId)!
+          .finalScore,
+      })),
+  };
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+const signedPercent = (value: number) =>
+  `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}`;
+
+export function formatRelevanceEvalReport(report: RelevanceEvalReport): string {
+  const skipped = report.predictions.filter(
+    (prediction) => prediction.skipReason
+  );
+  const lines = [
+    `${report.dataset} · ${report.variant} (${report.model}, prompt ${report.promptVersion})`,
+    `${report.mode === 'batch' ? `Batches of up to ${report.batchSize}` : 'One discussion per request'}, ${report.examples} labeled examples`,
+    `${report.predictions.length} discussions, ${skipped.length} not scored`,
+    '',
+    'threshold  precision  recall    f1      tp  fp  fn  tn',
+    ...report.metrics.map((metrics) =>
+      [
+        `${metrics.threshold === report.configThreshold ? '*' : ' '}${String(metrics.threshold).padStart(3)}`.padEnd(
+          11
+        ),
+        percent(metrics.precision).padEnd(11),
+        percent(metrics.recall).padEnd(10),
+        percent(metrics.f1).padEnd(8),
+        String(metrics.truePositives).padEnd(4),
+        String(metrics.falsePositives).padEnd(4),
+        String(metrics.falseNegatives).padEnd(4),
+        String(metrics.trueNegatives),
+      ].join('')
+    ),
+    '',
+    `Best F1 ${percent(report.best.f1)} at threshold ${report.best.threshold} (* marks the config threshold, ${report.configThreshold})`,
+  ];
+  return lines.join('\n');
+}
+
+export function formatRelevanceEvalDiff(diff: RelevanceEvalDiff): string {
+  const lines = [
+    `${diff.base.variant} -> ${diff.candidate.variant} (percentage points)`,
+    '',
+    'threshold  precision  recall    f1',
+    ...diff.thresholds.map((row) =>
+      [
+        String(row.threshold).padStart(4).padEnd(11),
+        signedPercent(row.precisionDelta).padEnd(11),
+        signedPercent(row.recallDelta).padEnd(10),
+        signedPercent(row.f1Delta),
+      ].join('')
+    ),
+    '',
+    `Best F1 ${percent(diff.base.best.f1)} -> ${percent(diff.candidate.best.f1)}`,
+    `${diff.flipped.length} discussions decided differently at threshold ${diff.candidate.configThreshold}`,
+    ...diff.flipped.map(
+      (row) =>
+        `  [${row.label}] ${row.baseScore ?? '-'} -> ${row.candidateScore ?? '-'}  ${row.title}`
+    ),
+  ];
+  return lines.join('\n');
+}
@@ -0,0 +1,286 @@
+import { RedditDiscussion } from './redditService';
+
+export type RelevanceFeedbackLabel = 'relevant' | 'not_relevant';
+
+export interface ScoredDiscussion {
+  reddit_post_id: string;
+  subreddit: string;
+  post_title: string;
+  post_url: string | null;
+  post_content: string | null;
+  final_score: number;
+  lexical_score: number | null;
+  reasoning: string | null;
+  relevance_threshold: number;
+  scored_at: string;
+  feedback_label: RelevanceFeedbackLabel | null;
+  labeled_at: string | null;
+  // The score when the owner labeled it. final_score moves on with every
+  // re-score, and re-scores see the label as an example.
+  labeled_score: number | null;
+  labeled_threshold: number | null;
+  labeled_scored_at: string | null;
+}
+
+export interface RelevanceFeedbackExample {
+  redditPostId: string;
+  subreddit: string;
+  title: string;
+  content: string;
+  label: RelevanceFeedbackLabel;
+  modelScore: number;
+}
+
+export interface FeedbackAgreementBucket {
+  // Monday of the week the model scored the labeled discussions
+  weekStart: string;
+  labeled: number;
+  agreed: number;
+  agreementRate: number;
+}
+
+// Few-shot examples added to each scoring prompt
+const MAX_FEW_SHOT_EXAMPLES = 4;
+const EXAMPLE_EXCERPT_LENGTH = 200;
+// Labeled rows considered when picking examples
+const EXAMPLE_CANDIDATE_LIMIT = 200;
+
+export function isRelevanceFeedbackLabel(
+  value: unknown
+): value is RelevanceFeedbackLabel {
+  return value === 'relevant' || value === 'not_relevant';
+}
+
+type LabeledScoreColumns = Partial<
+  Pick<
+    ScoredDiscussion,
+    'labeled_score' | 'labeled_threshold' | 'labeled_scored_at'
+  >
+>;
+
+/**
+ * The score the owner judged when labeling: the frozen one, or the latest
+ * for rows labeled before scores were frozen
+ */
+export function getLabeledScore(
+  row: Pick<
+    ScoredDiscussion,
+    'final_score' | 'relevance_threshold' | 'scored_at'
+  > &
+    LabeledScoreColumns
+): { score: number; threshold: number; scoredAt: string } {
+  return {
+    score: row.labeled_score ?? row.final_score,
+    threshold: row.labeled_threshold ?? row.relevance_threshold,
+    scoredAt: row.labeled_scored_at ?? row.scored_at,
+  };
+}
+
+export function modelAgreesWithLabel(
+  row: Pick<
+    ScoredDiscussion,
+    'final_score' | 'relevance_threshold' | 'feedback_label'
+  > &
+    LabeledScoreColumns
+): boolean {
+  const score = row.labeled_score ?? row.final_score;
+  const threshold = row.labeled_threshold ?? row.relevance_threshold;
+  return score >= threshold === (row.feedback_label === 'relevant');
+}
+
+/**
+ * Keep the latest score for each discussion a config scored, relevant or
+ * not, so the owner can label it. Labels already given, and the scores
+ * frozen with them, are left alone.
+ */
+export async function recordScoredDiscussions(
+  supabaseAdmin: any,
+  websiteConfigId: string,
+  relevanceThreshold: number,
+  results: {
+    discussion: RedditDiscussion;
+    scores: {
+      finalScore: number;
+      lexicalScore?: number;
+      filteringReason?: string;
+    };
+  }[]
+): Promise<void> {
+  if (!websiteConfigId || results.length === 0) return;
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin.from('scored_discussions').upsert(
+    results.map(({ discussion, scores }) => ({
+      website_config_id: websiteConfigId,
+      reddit_post_id: discussion.id,
+      subreddit: discussion.subreddit,
+      post_title: discussion.title.slice(0, 300),
+      post_url: discussion.url || null,
+      post_content: discussion.content
+        ? discussion.content.slice(0, 1000)
+        : null,
+      final_score: scores.finalScore,
+      lexical_score: scores.lexicalScore ?? null,
+      reasoning: scores.filteringReason || null,
+      relevance_threshold: relevanceThreshold,
+      scored_at: now,
+    })),
+    { onConflict: 'website_config_id,reddit_post_id' }
+  );
+
+  if (error) {
+    console.error(
+      `[RELEVANCE_FEEDBACK] Failed to record ${results.length} scored discussions:`,
+      error
+    );
+  }
+}
+
+/**
+ * Labeled discussions that teach the model the most: ones it got wrong,
+ * most confident first, then correct ones closest to the threshold.
+ * Alternates labels so both kinds are shown when available.
+ */
+export function pickFewShotExamples(
+  rows: ScoredDiscussion[],
+  limit: number = MAX_FEW_SHOT_EXAMPLES
+): RelevanceFeedbackExample[] {
+  const ranked = rows
+    .filter((row) => isRelevanceFeedbackLabel(row.feedback_label))
+    .map((row) => {
+      const { score, threshold } = getLabeledScore(row);
+      const margin = Math.abs(score - threshold);
+      return {
+        row,
+        informativeness: modelAgreesWithLabel(row) ? -margin : 100 + margin,
+      };
+    })
+    .sort((a, b) => b.informativeness - a.informativeness)
+    .map(({ row }) => row);
+
+  const byLabel = {
+    relevant: ranked.filter((row) => row.feedback_label === 'relevant'),
+    not_relevant: ranked.filter((row) => row.feedback_label === 'not_relevant'),
+  };
+  const picked: ScoredDiscussion[] = [];
+  while (
+    picked.length < limit &&
+    (byLabel.relevant.length > 0 || byLabel.not_relevant.length > 0)
+  ) {
+    for (const label of ['relevant', 'not_relevant'] as const) {
+      const next = byLabel[label].shift();
+      if (next && picked.length < limit) picked.push(next);
+    }
+  }
+
+  return picked.map((row) => ({
+    redditPostId: row.reddit_post_id,
+    subreddit: row.subreddit,
+    title: row.post_title,
+    content: (row.post_content || '').slice(0, EXAMPLE_EXCERPT_LENGTH),
+    label: row.feedback_label!,
+    modelScore: getLabeledScore(row).score,
+  }));
+}
+
+/**
+ * Examples without the discussions being scored, so a labeled post is
+ * never shown to the model as its own answer
+ */
+export function excludeOwnExamples(
+  examples: RelevanceFeedbackExample[],
+  discussionIds: string[]
+): RelevanceFeedbackExample[] {
+  return examples.filter(
+    (example) => !discussionIds.includes(example.redditPostId)
+  );
+}
+
+export async function loadFewShotExamples(
+  supabaseAdmin: any,
+  websiteConfigId: string
+): Promise<RelevanceFeedbackExample[]> {
+  if (!websiteConfigId) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from('scored_discussions')
+    .select('*')
+    .eq('website_config_id', websiteConfigId)
+    .not('feedback_label', 'is', null)
+    .order('labeled_at', { ascending: false })
+    .limit(EXAMPLE_CANDIDATE_LIMIT);
+
+  if (error) {
+    console.error(
+      '[RELEVANCE_FEEDBACK] Failed to load labeled examples:',
+      error
+    );
+    return [];
+  }
+  return pickFewShotExamples(data || []);
+}
+
+/**
+ * Scoring prompt section with the owner's labeled examples, or '' when
+ * there are none
+ */
+export function buildFewShotPromptSection(
+  examples: RelevanceFeedbackExample[]
+): string {
+  if (examples.length === 0) return '';
+
+  const lines = examples.map(
+    (example, index) =>
+      `${index + 1}. [${example.label === 'relevant' ? 'RELEVANT' : 'NOT RELEVANT'}] r/${example.subreddit}: "${example.title}"${example.content ? ` - ${example.content.replace(/\s+/g, ' ')}` : ''}`
+  );
+
+  return `=== LABELED EXAMPLES FROM THE WEBSITE OWNER ===
+The owner marked these earlier posts as relevant or not. Score similar posts consistently with these labels.
+${lines.join('\n')}
+
+`;
+}
+
+/**
+ * Share of labeled discussions the model agreed with, by the week they
+ * were scored. Uses the scores frozen at labeling, so later re-scores that
+ * saw the label as an example don't count as agreement.
+ */
+export function computeFeedbackAgreement(
+  rows: (Pick<
+    ScoredDiscussion,
+    'final_score' | 'relevance_threshold' | 'feedback_label' | 'scored_at'
+  > &
+    LabeledScoreColumns)[]
+): FeedbackAgreementBucket[] {
+  const buckets = new Map<string, { labeled: number; agreed: number }>();
+
+  for (const row of rows) {
+    if (!isRelevanceFeedbackLabel(row.feedback_label)) continue;
+
+    const scoredAt = new Date(getLabeledScore(row).scoredAt);
+    const weekStart = new Date(
+      Date.UTC(
+        scoredAt.getUTCFullYear(),
+        scoredAt.getUTCMonth(),
+        scoredAt.getUTCDate() - ((scoredAt.getUTCDay() + 6) % 7)
+      )
+    )
+      .toISOString()
+      .slice(0, 10);
+
+    const bucket = buckets.get(weekStart) || { labeled: 0, agreed: 0 };
+    bucket.labeled += 1;
+    if (modelAgreesWithLabel(row)) bucket.agreed += 1;
+    buckets.set(weekStart, bucket);
+  }
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, { labeled, agreed }]) => ({
+      weekStart,
+      labeled,
+      agreed,
+      agreementRate: agreed / labeled,
+    }));
+}
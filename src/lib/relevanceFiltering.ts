@@ -1,6 +1,63 @@
+import { createClient } from '@supabase/supabase-js';
 import { RedditDiscussion } from './redditService';
+import { EligibilitySettings } from './discussionEligibility';
+import { AuthorFilterSettings } from './authorFilters';
+import { applyKeywordPrefilter, KeywordFilterRejection } from './keywordQuery';
+import {
+  LexicalRejection,
+  applyLexicalPrerank,
+  computeLexicalScores,
+  detectLexicalQueryLanguage,
+} from './lexicalRanker';
+import {
+  RelevanceFeedbackExample,
+  buildFewShotPromptSection,
+  excludeOwnExamples,
+  loadFewShotExamples,
+  recordScoredDiscussions,
+} from './relevanceFeedback';
+import {
+  getRelevanceScoreCacheKey,
+  loadCachedRelevanceScores,
+  storeRelevanceScores,
+} from './relevanceScoreCache';
+import { LlmError, LlmTaskOptions } from './llmClient';
+import { sleep } from '../utils/retry';
+import { normalizeRelevanceThreshold } from './relevanceThreshold';
+import {
+  LlmOutputError,
+  SCORING_OUTPUT_SCHEMA,
+  ScoringOutput,
+  batchScoringOutputSchema,
+  completeLlmTaskWithSchema,
+} from './llmOutputSchemas';
+import {
+  WebsiteConfigSearchQuery,
+  getWebsiteConfigAllowedLanguages,
+  isTargetKeywordRequired,
+} from './websiteConfigCollections';
+import {
+  DetectedLanguage,
+  LanguageRejection,
+  SUPPORTED_LANGUAGES,
+  UNKNOWN_LANGUAGE,
+  applyLanguageFilter,
+} from './languageDetection';
 
 const MAX_CONCURRENT_SCORING = 3;
+// Discussions per batch scoring request; 1 scores each one on its own
+export const MAX_SCORING_BATCH_SIZE = Math.max(
+  1,
+  Math.floor(Number(process.env.LLM_SCORING_BATCH_SIZE) || 5)
+);
+// Batched discussions are truncated harder than single ones
+export const BATCH_DISCUSSION_CHAR_LIMIT = 1200;
+const BATCH_OUTPUT_TOKENS_PER_DISCUSSION = 150;
+// First backoff after a TPM overrun when the provider gives no wait time
+const TPM_RETRY_DELAY_MS = 2000;
+// Part of the score cache key; bump when the scoring prompt or its output
+// schema changes so cached scores are not reused
+export const SCORING_PROMPT_VERSION = 'v4';
 
 export interface RelevanceScores {
   intentScore: number;
@@ -9,6 +66,10 @@ export interface RelevanceScores {
   finalScore: number;
   filteringReason?: string;
   engagementScore: number;
+  // BM25 match with the config text (0-100), computed before LLM scoring
+  lexicalScore?: number;
+  // Detected language of the post, or 'unknown'
+  language?: DetectedLanguage;
 }
 
 export interface WebsiteConfig {
@@ -21,6 +82,14 @@ export interface WebsiteConfig {
   keywords: string[];
   target_keywords?: string[];
   target_subreddits?: string[];
+  listing_modes?: string[];
+  comment_discovery?: boolean;
+  eligibility_settings?: Partial<EligibilitySettings>;
+  search_queries?: WebsiteConfigSearchQuery[];
+  allowed_languages?: string[];
+  author_filter_settings?: Partial<AuthorFilterSettings>;
+  // Target keywords drop non-matching posts only when this is on
+  require_target_keyword?: boolean;
   negative_keywords: string[];
   business_context_terms: string[];
   relevance_threshold: number;
@@ -36,56 +105,413 @@ export interface WebsiteConfig {
 export async function filterRelevantDiscussions(
   discussions: RedditDiscussion[],
   websiteConfig: WebsiteConfig,
-  postedDiscussions: string[] = []
+  postedDiscussions: string[] = [],
+  onKeywordRejections?: (
+    rejections: KeywordFilterRejection<RedditDiscussion>[]
+  ) => Promise<void> | void,
+  onLanguageRejections?: (
+    rejections: LanguageRejection<RedditDiscussion>[]
+  ) => Promise<void> | void,
+  onLexicalRejections?: (
+    rejections: LexicalRejection<RedditDiscussion>[]
+  ) => Promise<void> | void
 ): Promise<{ discussion: RedditDiscussion; scores: RelevanceScores }[]> {
-  const unpostedDiscussions = discussions.filter(
-    (discussion) => !postedDiscussions.includes(discussion.id)
+  const relevanceThreshold = normalizeRelevanceThreshold(
+    websiteConfig.relevance_threshold
   );
 
+  // Keyword expressions are checked before any Gemini call is spent.
+  // Target keywords only gate posts when the config opts in.
+  const keywordFilter = applyKeywordPrefilter(
+    discussions.filter(
+      (discussion) => !postedDiscussions.includes(discussion.id)
+    ),
+    {
+      targetKeywords: isTargetKeywordRequired(websiteConfig)
+        ? websiteConfig.target_keywords
+        : [],
+      negativeKeywords: websiteConfig.negative_keywords,
+    }
+  );
+
+  for (const { keyword, error } of keywordFilter.invalid) {
+    console.warn(
+      `[KEYWORD_FILTER] Ignoring invalid keyword "${keyword}": ${error}`
+    );
+  }
+
+  if (keywordFilter.rejected.length > 0) {
+    console.log(
+      `[KEYWORD_FILTER] Rejected ${keywordFilter.rejected.length} discussions before scoring`
+    );
+    await onKeywordRejections?.(keywordFilter.rejected);
+  }
+
+  // Posts in languages the config doesn't reply in are not worth scoring
+  const languageFilter = applyLanguageFilter(
+    keywordFilter.passed,
+    getWebsiteConfigAllowedLanguages(websiteConfig)
+  );
+
+  if (languageFilter.rejected.length > 0) {
+    console.log(
+      `[LANGUAGE_FILTER] Rejected ${languageFilter.rejected.length} discussions in languages not enabled for this config`
+    );
+    await onLanguageRejections?.(languageFilter.rejected);
+  }
+
+  const unpostedDiscussions = languageFilter.passed;
+  const lexicalScores = computeLexicalScores(
+    unpostedDiscussions,
+    websiteConfig
+  );
+
+  const supabaseAdmin = createClient(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+  );
+
+  // The owner's thumbs up/down labels guide the model as few-shot examples
+  const examples =
+    unpostedDiscussions.length > 0
+      ? await loadFewShotExamples(supabaseAdmin, websiteConfig.id)
+      : [];
+
+  // Discussions already scored for this config content, examples and
+  // prompt skip the LLM call
+  const cacheKey = getRelevanceScoreCacheKey(
+    websiteConfig,
+    SCORING_PROMPT_VERSION,
+    examples
+  );
+  const cachedScores = await loadCachedRelevanceScores(
+    supabaseAdmin,
+    unpostedDiscussions.map((discussion) => discussion.id),
+    cacheKey
+  );
   const scoredDiscussions: {
     discussion: RedditDiscussion;
     scores: RelevanceScores;
-  }[] = [];
+  }[] = unpostedDiscussions
+    .filter((discussion) => cachedScores.has(discussion.id))
+    .map((discussion) => ({
+      discussion,
+      scores: {
+        ...cachedScores.get(discussion.id)!,
+        lexicalScore: lexicalScores.get(discussion.id),
+      },
+    }));
+
+  // Cached scores are free; only the lexically strongest of the rest are
+  // worth an LLM call
+  const lexicalPrerank = applyLexicalPrerank(
+    unpostedDiscussions.filter(
+      (discussion) => !cachedScores.has(discussion.id)
+    ),
+    lexicalScores,
+    {
+      languages: languageFilter.languages,
+      queryLanguage: detectLexicalQueryLanguage(websiteConfig),
+    }
+  );
+  const uncachedDiscussions = lexicalPrerank.passed;
+
+  if (lexicalPrerank.rejected.length > 0) {
+    console.log(
+      `[LEXICAL_PRERANK] Skipping LLM scoring for ${lexicalPrerank.rejected.length} lexically weak discussions`
+    );
+    await onLexicalRejections?.(lexicalPrerank.rejected);
+  }
+
+  if (cachedScores.size > 0) {
+    console.log(
+      `[SCORE_CACHE] Reusing ${scoredDiscussions.length} cached scores`
+    );
+  }
 
   console.log(
-    `[GEMINI_FILTERING] Starting comprehensive Gemini scoring for ${unpostedDiscussions.length} discussions with concurrency=${MAX_CONCURRENT_SCORING}`
+    `[GEMINI_FILTERING] Starting comprehensive Gemini scoring for ${uncachedDiscussions.length} discussions in batches of up to ${MAX_SCORING_BATCH_SIZE}`
   );
 
-  for (let i = 0; i < unpostedDiscussions.length; i += MAX_CONCURRENT_SCORING) {
-    const chunk = unpostedDiscussions.slice(i, i + MAX_CONCURRENT_SCORING);
+  let batchSize = MAX_SCORING_BATCH_SIZE;
+  let tpmRetries = 0;
+  let index = 0;
+  while (index < uncachedDiscussions.length) {
+    const remaining = uncachedDiscussions.length - index;
+    const batched = batchSize > 1 && remaining > 1;
+    const chunk = uncachedDiscussions.slice(
+      index,
+      index + (batched ? batchSize : MAX_CONCURRENT_SCORING)
+    );
     console.log(
-      `[GEMINI_FILTERING] Scoring chunk ${Math.floor(i / MAX_CONCURRENT_SCORING) + 1}: ${chunk
+      `[GEMINI_FILTERING] Scoring ${batched ? 'batch' : 'chunk'}: ${chunk
         .map((discussion) => discussion.id)
         .join(', ')}`
     );
 
-    const chunkResults = await Promise.all(
-      chunk.map((discussion) => scoreDiscussionWithRetries(discussion, websiteConfig))
-    );
-    scoredDiscussions.push(
-      ...chunkResults.filter(
-        (
-          item
-        ): item is { discussion: RedditDiscussion; scores: RelevanceScores } =>
-          item !== null
-      )
+    const outcome = batched
+      ? await scoreDiscussionBatch(
+          chunk,
+          websiteConfig,
+          languageFilter.languages,
+          examples
+        )
+      : await scoreChunkIndividually(
+          chunk,
+          batchSize,
+          websiteConfig,
+          languageFilter.languages,
+          examples
+        );
+    batchSize = outcome.nextBatchSize;
+    // A batch over the TPM limit is retried with the smaller size once the
+    // provider's window has room again
+    if (outcome.retry) {
+      tpmRetries++;
+      const waitMs = getTpmRetryDelayMs(outcome.retryAfterMs, tpmRetries);
+      console.log(
+        `[BATCH_SCORING] Waiting ${Math.ceil(waitMs / 1000)}s before retrying`
+      );
+      await sleep(waitMs);
+      continue;
+    }
+    tpmRetries = 0;
+    index += chunk.length;
+
+    const freshScores = outcome.results.map(({ discussion, scores }) => ({
+      discussion,
+      scores: { ...scores, lexicalScore: lexicalScores.get(discussion.id) },
+    }));
+    scoredDiscussions.push(...freshScores);
+    await storeRelevanceScores(
+      supabaseAdmin,
+      freshScores.map(({ discussion, scores }) => ({
+        discussionId: discussion.id,
+        scores,
+      })),
+      cacheKey
     );
   }
 
+  await recordScoredDiscussions(
+    supabaseAdmin,
+    websiteConfig.id,
+    relevanceThreshold,
+    scoredDiscussions
+  );
+
   const relevantDiscussions = scoredDiscussions
-    .filter((item) => item.scores.finalScore >= websiteConfig.relevance_threshold)
+    .filter((item) => item.scores.finalScore >= relevanceThreshold)
     .sort((a, b) => b.scores.finalScore - a.scores.finalScore);
 
   console.log(
-    `[GEMINI_FILTERING] Found ${relevantDiscussions.length} relevant discussions out of ${scoredDiscussions.length} scored (threshold: ${websiteConfig.relevance_threshold}%)`
+    `[GEMINI_FILTERING] Found ${relevantDiscussions.length} relevant discussions out of ${scoredDiscussions.length} scored (threshold: ${relevanceThreshold}/100)`
   );
 
   return relevantDiscussions;
 }
 
+type ScoredDiscussionResult = {
+  discussion: RedditDiscussion;
+  scores: RelevanceScores;
+};
+
+// Groq reports TPM overruns as "... tokens per minute (TPM): Limit 6000,
+// Used 4100, Requested 2500 ..."
+function parseTpmError(
+  message: string | undefined
+): { requested: number; used: number; limit: number } | null {
+  if (!message?.includes('tokens per minute (TPM)')) return null;
+
+  const requestedMatch = message.match(/Requested\s+(\d+)/);
+  const usedMatch = message.match(/Used\s+(\d+)/);
+  const limitMatch = message.match(/Limit\s+(\d+)/);
+  if (!requestedMatch || !usedMatch || !limitMatch) return null;
+
+  return {
+    requested: parseInt(requestedMatch[1]),
+    used: parseInt(usedMatch[1]),
+    limit: parseInt(limitMatch[1]),
+  };
+}
+
+function toRelevanceScores(scores: ScoringOutput): RelevanceScores {
+  return {
+    intentScore: scores.intentScore,
+    contextMatchScore: scores.contextMatchScore,
+    qualityScore: scores.qualityScore,
+    finalScore: scores.finalScore,
+    filteringReason: scores.reasoning,
+    engagementScore: scores.engagementScore ?? 0,
+  };
+}
+
+// Wait as long as the provider asks after a TPM overrun, otherwise back off
+function getTpmRetryDelayMs(
+  retryAfterMs: number | undefined,
+  retries: number
+): number {
+  return retryAfterMs ?? TPM_RETRY_DELAY_MS * 2 ** (retries - 1);
+}
+
+async function scoreDiscussionsIndividually(
+  discussions: RedditDiscussion[],
+  websiteConfig: WebsiteConfig,
+  languages: Map<string, DetectedLanguage>,
+  examples: RelevanceFeedbackExample[]
+): Promise<ScoredDiscussionResult[]> {
+  const results: ScoredDiscussionResult[] = [];
+  for (let i = 0; i < discussions.length; i += MAX_CONCURRENT_SCORING) {
+    const chunkResults = await Promise.all(
+      discussions
+        .slice(i, i + MAX_CONCURRENT_SCORING)
+        .map((discussion) =>
+          scoreDiscussionWithRetries(
+            discussion,
+            websiteConfig,
+            languages.get(discussion.id) || UNKNOWN_LANGUAGE,
+            examples
+          )
+        )
+    );
+    results.push(
+      ...chunkResults.filter(
+        (item): item is ScoredDiscussionResult => item !== null
+      )
+    );
+  }
+  return results;
+}
+
+type ScoringOutcome = {
+  results: ScoredDiscussionResult[];
+  nextBatchSize: number;
+  retry: boolean;
+  // How long the provider asked to wait before the retry, when it said
+  retryAfterMs?: number;
+};
+
+/**
+ * Score a chunk one discussion at a time, used while the batch size is 1.
+ * When every discussion is scored the batch size grows again, so one TPM
+ * overrun does not turn batching off for the rest of the run.
+ */
+async function scoreChunkIndividually(
+  chunk: RedditDiscussion[],
+  batchSize: number,
+  websiteConfig: WebsiteConfig,
+  languages: Map<string, DetectedLanguage>,
+  examples: RelevanceFeedbackExample[]
+): Promise<ScoringOutcome> {
+  const results = await scoreDiscussionsIndividually(
+    chunk,
+    websiteConfig,
+    languages,
+    examples
+  );
+  return {
+    results,
+    nextBatchSize:
+      results.length === chunk.length
+        ? Math.min(MAX_SCORING_BATCH_SIZE, batchSize + 1)
+        : batchSize,
+    retry: false,
+  };
+}
+
+/**
+ * Score several discussions in one request. After a TPM error the caller
+ * waits and retries the same discussions with the smaller nextBatchSize; a
+ * malformed response or any other failure falls back to scoring them one by
+ * one. Successful batches grow the next one by a discussion.
+ */
+async function scoreDiscussionBatch(
+  batch: RedditDiscussion[],
+  websiteConfig: WebsiteConfig,
+  languages: Map<string, DetectedLanguage>,
+  examples: RelevanceFeedbackExample[]
+): Promise<ScoringOutcome> {
+  const languageOf = (discussion: RedditDiscussion) =>
+    languages.get(discussion.id) || UNKNOWN_LANGUAGE;
+
+  try {
+    const scoresById = await requestBatchRelevanceScores(
+      buildBatchRelevanceScoringPrompt(
+        batch.map((discussion) => ({
+          discussion,
+          language: languageOf(discussion),
+        })),
+        websiteConfig,
+        BATCH_DISCUSSION_CHAR_LIMIT,
+        examples
+      ),
+      batch.map((discussion) => discussion.id)
+    );
+
+    console.log(
+      `[BATCH_SCORING] Scored ${batch.length} discussions in one request`
+    );
+    return {
+      results: batch.map((discussion) => ({
+        discussion,
+        scores: {
+          ...scoresById.get(discussion.id)!,
+          language: languageOf(discussion),
+        },
+      })),
+      nextBatchSize: Math.min(MAX_SCORING_BATCH_SIZE, batch.length + 1),
+      retry: false,
+    };
+  } catch (error: any) {
+    const tpm = parseTpmError(error?.message);
+    if (tpm) {
+      const available = tpm.limit - tpm.used;
+      const fitting = Math.floor(
+        (batch.length * available * 0.8) / tpm.requested
+      );
+      const nextBatchSize = Math.max(1, Math.min(batch.length - 1, fitting));
+      console.log(
+        `[BATCH_SCORING] TPM limit hit for a batch of ${batch.length}. Requested: ${tpm.requested}, Available: ${available}. Retrying with batches of ${nextBatchSize}`
+      );
+      return {
+        results: [],
+        nextBatchSize,
+        retry: true,
+        retryAfterMs:
+          error instanceof LlmError ? error.retryAfterMs : undefined,
+      };
+    }
+
+    console.warn(
+      `[BATCH_SCORING] Batch of ${batch.length} failed (${error?.message || error}); scoring individually`
+    );
+    return {
+      results: await scoreDiscussionsIndividually(
+        batch,
+        websiteConfig,
+        languages,
+        examples
+      ),
+      // Models that garble a batch tend to do better with fewer posts
+      nextBatchSize:
+        error instanceof LlmOutputError
+          ? Math.max(1, Math.floor(batch.length / 2))
+          : batch.length,
+      retry: false,
+    };
+  }
+}
+
+/**
+ * Score one discussion. Provider errors are already retried by the LLM
+ * client; the only retry here is after a TPM overrun, with the post
+ * truncated to what still fits and after the provider's wait.
+ */
 async function scoreDiscussionWithRetries(
   discussion: RedditDiscussion,
-  websiteConfig: WebsiteConfig
+  websiteConfig: WebsiteConfig,
+  language: DetectedLanguage,
+  examples: RelevanceFeedbackExample[]
 ): Promise<{ discussion: RedditDiscussion; scores: RelevanceScores } | null> {
   let scores: RelevanceScores | null = null;
   let attempts = 0;
@@ -97,58 +523,35 @@ async function scoreDiscussionWithRetries(
       scores = await getGeminiRelevanceScore(
         discussion,
         websiteConfig,
-        currentCharLimit
+        currentCharLimit,
+        language,
+        examples
       );
       break;
     } catch (error: any) {
       attempts++;
 
-      const isTPMError = error.message?.includes('tokens per minute (TPM)');
-
-      if (isTPMError && currentCharLimit > 500) {
-        const tpmMatch = error.message.match(/Requested\s+(\d+)/);
-        const usedMatch = error.message.match(/Used\s+(\d+)/);
-        const limitMatch = error.message.match(/Limit\s+(\d+)/);
-
-        if (tpmMatch && usedMatch && limitMatch) {
-          const requested = parseInt(tpmMatch[1]);
-          const used = parseInt(usedMatch[1]);
-          const limit = parseInt(limitMatch[1]);
-          const available = limit - used;
-          const safeTokens = Math.floor(available * 0.8);
-          currentCharLimit = Math.max(500, Math.floor(safeTokens * 4));
-
-          console.log(
-            `[GEMINI_FILTERING] TPM limit hit for ${discussion.id}. Requested: ${requested}, Available: ${available}. Reducing char limit to ${currentCharLimit}`
-          );
-          continue;
-        }
-      }
-
-      console.log(
-        `[GEMINI_FILTERING] Attempt ${attempts} failed for discussion ${discussion.id}, trying different API key...`
-      );
-
-      if (attempts >= maxAttempts) {
+      const tpm = parseTpmError(error.message);
+      if (!tpm || currentCharLimit <= 500) {
         console.error(
-          `[GEMINI_FILTERING] All ${maxAttempts} attempts failed for discussion ${discussion.id}, skipping...`
+          `[GEMINI_FILTERING] Scoring failed for discussion ${discussion.id} (${error.message}), skipping...`
         );
         break;
       }
 
-      let waitTime = 3000;
+      const available = tpm.limit - tpm.used;
+      const safeTokens = Math.floor(available * 0.8);
+      currentCharLimit = Math.max(500, Math.floor(safeTokens * 4));
 
-      if (error.message?.includes('Please try again in')) {
-        const match = error.message.match(/Please try again in ([\d.]+)s/);
-        if (match && match[1]) {
-          waitTime = (parseFloat(match[1]) + 0.5) * 1000;
-          console.log(
-            `[GEMINI_FILTERING] Groq requested wait: ${match[1]}s. Pausing for ${waitTime / 1000}s...`
-          );
-        }
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, waitTime));
+      console.log(
+        `[GEMINI_FILTERING] TPM limit hit for ${discussion.id}. Requested: ${tpm.requested}, Available: ${available}. Reducing char limit to ${currentCharLimit}`
+      );
+      await sleep(
+        getTpmRetryDelayMs(
+          error instanceof LlmError ? error.retryAfterMs : undefined,
+          attempts
+        )
+      );
     }
   }
 
@@ -159,62 +562,41 @@ async function scoreDiscussionWithRetries(
     return null;
   }
 
-  return { discussion, scores };
+  return { discussion, scores: { ...scores, language } };
 }
 
-async function getGeminiRelevanceScore(
-  discussion: RedditDiscussion,
-  websiteConfig: WebsiteConfig,
-  characterLimit: number = 3500
-): Promise<RelevanceScores> {
-  try {
-    // Import the API key manager and make direct Gemini API call
-    // This avoids internal fetch calls that cause 401 errors in serverless environments
-    const { apiKeyManager } = await import('../utils/apiKeyManager');
-
-    let apiKey: string | null = null;
-    let retryCount = 0;
-    const maxRetries = 3;
-
-    while (retryCount < maxRetries) {
-      try {
-        // Acquire API key
-        apiKey = await apiKeyManager.acquireApiKey('system', 'groq');
+function buildBusinessContextSection(websiteConfig: WebsiteConfig): string {
+  const keywords = websiteConfig.target_keywords || websiteConfig.keywords || [];
 
-        if (!apiKey) {
-          throw new Error('No API keys available');
-        }
-
-        console.log(`[GEMINI_SCORING] Acquired API key for discussion ${discussion.id} (attempt ${retryCount + 1})`);
-
-        // Proactively truncate content to stay under 6,000 TPM limit
-        // Use the dynamic characterLimit passed from the caller
-        const truncatedContent = (discussion.content || '').substring(0, characterLimit);
-        const content = `${discussion.title}\n\n${truncatedContent}${discussion.content?.length > characterLimit ? '... [Truncated for Token Management]' : ''}`;
-        const keywords = websiteConfig.target_keywords || websiteConfig.keywords || [];
-
-        // Comprehensive Gemini scoring with full context
-        const prompt = `You are an expert business analyst evaluating Reddit discussions for marketing relevance. Analyze this Reddit post against the website's business context and provide detailed scoring.
-
-=== WEBSITE BUSINESS CONTEXT ===
+  return `=== WEBSITE BUSINESS CONTEXT ===
 Website URL: ${websiteConfig.website_url || websiteConfig.url || 'Not specified'}
 Business Description: ${websiteConfig.website_description || websiteConfig.description || 'Not specified'}
 Target Keywords: ${keywords.join(', ') || 'Not specified'}
 Customer Segments: ${websiteConfig.customer_segments?.join(', ') || 'Not specified'}
 Business Context Terms: ${websiteConfig.business_context_terms?.join(', ') || 'Not specified'}
-Current Relevance Threshold: ${websiteConfig.relevance_threshold || 70}%
+Relevance Threshold: ${normalizeRelevanceThreshold(websiteConfig.relevance_threshold)} (on the same 0-100 scale as finalScore; posts scoring at least this are engaged with)`;
+}
 
-=== REDDIT DISCUSSION ANALYSIS ===
-Subreddit: r/${discussion.subreddit}
+function buildDiscussionSection(
+  discussion: RedditDiscussion,
+  characterLimit: number,
+  language: DetectedLanguage
+): string {
+  const truncatedContent = (discussion.content || '').substring(
+    0,
+    characterLimit
+  );
+  const content = `${discussion.title}\n\n${truncatedContent}${discussion.content?.length > characterLimit ? '... [Truncated for Token Management]' : ''}`;
+
+  return `Subreddit: r/${discussion.subreddit}
 Post Title: ${discussion.title}
 Post Content: ${content}
-Post Type: ${discussion.is_self ? 'Text Post (Self)' : 'Link Post'}
+Post Type: ${discussion.kind === 'comment' ? `Comment (reply depth ${discussion.depth ?? 0}) inside the thread above` : discussion.is_self ? 'Text Post (Self)' : 'Link Post'}
 Post URL: ${discussion.url || 'Not available'}
+Post Language: ${language === UNKNOWN_LANGUAGE ? 'Not detected' : SUPPORTED_LANGUAGES[language]}`;
+}
 
-=== SCORING INSTRUCTIONS ===
-Evaluate this discussion on these criteria (0-100 scale each):
-
-1. INTENT SCORE: Does the user show buying intent, need help, or seek recommendations?
+const SCORING_CRITERIA = `1. INTENT SCORE: Does the user show buying intent, need help, or seek recommendations?
    - Look for: problems, questions, "looking for", "need help", "recommendations"
    - Higher scores for clear pain points or solution-seeking behavior
 
@@ -229,123 +611,142 @@ Evaluate this discussion on these criteria (0-100 scale each):
 4. FINAL SCORE: Overall business relevance and opportunity score
    - Weighted combination of intent, context match, and quality
    - Should reflect the likelihood of generating valuable business engagement
-   - DO NOT factor in upvotes or comment counts
+   - DO NOT factor in upvotes or comment counts`;
+
+/**
+ * The scoring prompt for one discussion. Content past characterLimit is
+ * truncated to stay under the provider's tokens-per-minute limit.
+ */
+export function buildRelevanceScoringPrompt(
+  discussion: RedditDiscussion,
+  websiteConfig: WebsiteConfig,
+  characterLimit: number = 3500,
+  language: DetectedLanguage = UNKNOWN_LANGUAGE,
+  examples: RelevanceFeedbackExample[] = []
+): string {
+  const fewShotSection = buildFewShotPromptSection(
+    excludeOwnExamples(examples, [discussion.id])
+  );
+
+  // Comprehensive Gemini scoring with full context
+  return `You are an expert business analyst evaluating Reddit discussions for marketing relevance. Analyze this Reddit post against the website's business context and provide detailed scoring.
+
+${buildBusinessContextSection(websiteConfig)}
+
+=== REDDIT DISCUSSION ANALYSIS ===
+${buildDiscussionSection(discussion, characterLimit, language)}
+
+${fewShotSection}=== SCORING INSTRUCTIONS ===
+Evaluate this discussion on these criteria (0-100 scale each). Judge the meaning of the post; do not lower any score because it is not written in English.
+
+${SCORING_CRITERIA}
 
 Respond with ONLY a JSON object in this exact format (no markdown, no extra text):
 {"intentScore": 0-100, "contextMatchScore": 0-100, "qualityScore": 0-100, "finalScore": 0-100, "reasoning": "Brief explanation"}`;
+}
 
-        const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${apiKey}`
-          },
-          body: JSON.stringify({
-            model: 'llama-3.1-8b-instant',
-            messages: [{
-              role: 'user',
-              content: prompt
-            }],
-            temperature: 0.1,
-            max_tokens: 200
-          })
-        });
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          const error = new Error(`Gemini API error: ${response.status} - ${errorText}`);
-          (error as any).status = response.status;
-          throw error;
-        }
-
-        const data = await response.json();
-        const text = data.choices?.[0]?.message?.content;
-
-        if (text) {
-          // Try multiple JSON extraction methods
-          let scores = null;
-
-          // Method 1: Try to find JSON object with regex
-          const jsonMatch = text.match(/\{[\s\S]*\}/);
-          if (jsonMatch) {
-            try {
-              scores = JSON.parse(jsonMatch[0]);
-            } catch (e) {
-              console.log(`[GEMINI_SCORING] JSON parse failed for discussion ${discussion.id}, trying cleanup...`);
-            }
-          }
-
-          // Method 2: Try to clean markdown code blocks
-          if (!scores) {
-            const cleanedText = text.replace(/```json\s*/g, '').replace(/```\s*/g, '').trim();
-            const cleanMatch = cleanedText.match(/\{[\s\S]*\}/);
-            if (cleanMatch) {
-              try {
-                scores = JSON.parse(cleanMatch[0]);
-              } catch (e) {
-                console.log(`[GEMINI_SCORING] Cleaned JSON parse also failed for discussion ${discussion.id}`);
-              }
-            }
-          }
-
-          if (scores && scores.finalScore !== undefined) {
-            console.log(`[GEMINI_SCORING] Discussion ${discussion.id} scored ${scores.finalScore}/100 by Gemini AI - ${scores.reasoning}`);
-
-            return {
-              intentScore: scores.intentScore || 0,
-              contextMatchScore: scores.contextMatchScore || 0,
-              qualityScore: scores.qualityScore || 0,
-              finalScore: scores.finalScore || 0,
-              filteringReason: scores.reasoning || undefined,
-              engagementScore: scores.engagementScore || 0
-            };
-          }
-        }
-
-        console.error(`[GEMINI_SCORING] Invalid response for ${discussion.id}:`, text?.substring(0, 200));
-        throw new Error('Invalid Gemini response format');
-
-      } catch (error: any) {
-        // Check if this is a transient error (503, 502, etc.)
-        const isTransient = error.status === 503 || error.status === 502 || error.status === 504 ||
-          error.message?.toLowerCase().includes('service unavailable') ||
-          error.message?.toLowerCase().includes('bad gateway') ||
-          error.message?.toLowerCase().includes('gateway timeout');
-
-        if (isTransient && retryCount < maxRetries - 1) {
-          console.log(`[GEMINI_SCORING] Transient error (${error.status}) for discussion ${discussion.id}, retrying in ${Math.pow(2, retryCount)} seconds...`);
-
-          // Release the current API key before retrying
-          if (apiKey) {
-            await apiKeyManager.releaseApiKey(apiKey, 'system');
-            apiKey = null;
-          }
-
-          // Exponential backoff: 1s, 2s, 4s
-          await new Promise(resolve => setTimeout(resolve, Math.pow(2, retryCount) * 1000));
-          retryCount++;
-          continue;
-        }
-
-        // If not transient or max retries reached, throw the error
-        throw error;
-
-      } finally {
-        // Always release the API key for this attempt
-        if (apiKey) {
-          await apiKeyManager.releaseApiKey(apiKey, 'system');
-          console.log(`[GEMINI_SCORING] Released API key for discussion ${discussion.id}`);
-          apiKey = null;
-        }
-      }
+/**
+ * One prompt scoring several discussions, with the business context sent
+ * once. Discussions are identified by their Reddit id in the response.
+ */
+export function buildBatchRelevanceScoringPrompt(
+  discussions: { discussion: RedditDiscussion; language: DetectedLanguage }[],
+  websiteConfig: WebsiteConfig,
+  characterLimit: number,
+  examples: RelevanceFeedbackExample[] = []
+): string {
+  const sections = discussions.map(
+    ({ discussion, language }, index) =>
+      `=== REDDIT DISCUSSION ${index + 1} (id: ${discussion.id}) ===
+${buildDiscussionSection(discussion, characterLimit, language)}`
+  );
+  const fewShotSection = buildFewShotPromptSection(
+    excludeOwnExamples(
+      examples,
+      discussions.map(({ discussion }) => discussion.id)
+    )
+  );
+
+  return `You are an expert business analyst evaluating Reddit discussions for marketing relevance. Analyze each of the ${discussions.length} Reddit posts below against the website's business context and score each one independently.
+
+${buildBusinessContextSection(websiteConfig)}
+
+${sections.join('\n\n')}
+
+${fewShotSection}=== SCORING INSTRUCTIONS ===
+Evaluate each discussion on its own on these criteria (0-100 scale each). Judge the meaning of each post; do not lower any score because it is not written in English.
+
+${SCORING_CRITERIA}
+
+Respond with ONLY a JSON array containing one object per discussion, in the order given, in this exact format (no markdown, no extra text):
+[{"id": "<discussion id>", "intentScore": 0-100, "contextMatchScore": 0-100, "qualityScore": 0-100, "finalScore": 0-100, "reasoning": "Brief explanation"}]`;
+}
+
+/**
+ * Score a prompt from buildRelevanceScoringPrompt on the scoring model, or
+ * on options.client when given
+ */
+export async function requestRelevanceScores(
+  prompt: string,
+  options: LlmTaskOptions = {}
+): Promise<RelevanceScores> {
+  const { value: scores } = await completeLlmTaskWithSchema(
+    'scoring',
+    prompt,
+    SCORING_OUTPUT_SCHEMA,
+    { temperature: 0.1, maxTokens: 200, ...options }
+  );
+
+  return toRelevanceScores(scores);
+}
+
+/**
+ * Score a prompt from buildBatchRelevanceScoringPrompt on the scoring model,
+ * or on options.client when given. Scores are keyed by discussion id.
+ */
+export async function requestBatchRelevanceScores(
+  prompt: string,
+  discussionIds: string[],
+  options: LlmTaskOptions = {}
+): Promise<Map<string, RelevanceScores>> {
+  const { value } = await completeLlmTaskWithSchema(
+    'scoring',
+    prompt,
+    batchScoringOutputSchema(discussionIds),
+    {
+      temperature: 0.1,
+      maxTokens: BATCH_OUTPUT_TOKENS_PER_DISCUSSION * discussionIds.length,
+      ...options,
     }
+  );
+
+  return new Map(value.map((item) => [item.id, toRelevanceScores(item)]));
+}
+
+async function getGeminiRelevanceScore(
+  discussion: RedditDiscussion,
+  websiteConfig: WebsiteConfig,
+  characterLimit: number = 3500,
+  language: DetectedLanguage = UNKNOWN_LANGUAGE,
+  examples: RelevanceFeedbackExample[] = []
+): Promise<RelevanceScores> {
+  try {
+    const scores = await requestRelevanceScores(
+      buildRelevanceScoringPrompt(
+        discussion,
+        websiteConfig,
+        characterLimit,
+        language,
+        examples
+      )
+    );
 
-    // If we get here, all retries failed
-    throw new Error(`All ${maxRetries} retry attempts failed for discussion ${discussion.id}`);
+    console.log(`[GEMINI_SCORING] Discussion ${discussion.id} scored ${scores.finalScore}/100 - ${scores.filteringReason}`);
 
+    return scores;
   } catch (error) {
     console.error(`[GEMINI_SCORING] Error scoring discussion ${discussion.id}:`, error);
-    // No fallback - try another API key by throwing error to retry with different key
+    // The LLM client has already tried other keys; let the caller decide
     throw error;
   }
 }
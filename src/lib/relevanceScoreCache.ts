@@ -0,0 +1,111 @@
+import { hash32 } from './discussionSimilarity';
+import { getLlmModelConfig } from './llmClient';
+import type { RelevanceFeedbackExample } from './relevanceFeedback';
+import type { RelevanceScores, WebsiteConfig } from './relevanceFiltering';
+import { normalizeRelevanceThreshold } from './relevanceThreshold';
+
+// Scores older than this are re-computed; posts gain edits and context
+const CACHE_MAX_AGE_DAYS = 30;
+
+export interface RelevanceScoreCacheKey {
+  configHash: string;
+  promptVersion: string;
+}
+
+function normalizeList(values: string[] | undefined): string[] {
+  return (values || []).map((value) => value.trim().toLowerCase()).sort();
+}
+
+/**
+ * Hash of every config field and labeled example that goes into the scoring
+ * prompt, so any edit that could change a score gives a different key
+ */
+export function computeScoringConfigHash(
+  websiteConfig: WebsiteConfig,
+  examples: RelevanceFeedbackExample[] = []
+): string {
+  const content = JSON.stringify([
+    websiteConfig.website_url || websiteConfig.url || '',
+    websiteConfig.website_description || websiteConfig.description || '',
+    normalizeList(websiteConfig.target_keywords || websiteConfig.keywords),
+    normalizeList(websiteConfig.customer_segments),
+    normalizeList(websiteConfig.business_context_terms),
+    normalizeRelevanceThreshold(websiteConfig.relevance_threshold),
+    examples.map((example) => `${example.redditPostId}:${example.label}`),
+  ]);
+
+  return [hash32(content, 0), hash32(content, 0x9e3779b9)]
+    .map((half) => half.toString(16).padStart(8, '0'))
+    .join('');
+}
+
+/**
+ * Cache key for a config under the current prompt version and scoring model
+ */
+export function getRelevanceScoreCacheKey(
+  websiteConfig: WebsiteConfig,
+  scoringPromptVersion: string,
+  examples: RelevanceFeedbackExample[] = []
+): RelevanceScoreCacheKey {
+  const { provider, model } = getLlmModelConfig('scoring');
+  return {
+    configHash: computeScoringConfigHash(websiteConfig, examples),
+    promptVersion: `${scoringPromptVersion}@${provider}/${model}`,
+  };
+}
+
+export async function loadCachedRelevanceScores(
+  supabaseAdmin: any,
+  discussionIds: string[],
+  key: RelevanceScoreCacheKey
+): Promise<Map<string, RelevanceScores>> {
+  const cached = new Map<string, RelevanceScores>();
+  if (discussionIds.length === 0) return cached;
+
+  const since = new Date(
+    Date.now() - CACHE_MAX_AGE_DAYS * 24 * 60 * 60 * 1000
+  ).toISOString();
+  const { data, error } = await supabaseAdmin
+    .from('relevance_score_cache')
+    .select('reddit_post_id, scores')
+    .in('reddit_post_id', discussionIds)
+    .eq('config_hash', key.configHash)
+    .eq('prompt_version', key.promptVersion)
+    .gte('scored_at', since);
+
+  if (error) {
+    console.error('[SCORE_CACHE] Failed to load cached scores:', error);
+    return cached;
+  }
+
+  for (const row of data || []) {
+    cached.set(row.reddit_post_id, row.scores);
+  }
+  return cached;
+}
+
+export async function storeRelevanceScores(
+  supabaseAdmin: any,
+  results: { discussionId: string; scores: RelevanceScores }[],
+  key: RelevanceScoreCacheKey
+): Promise<void> {
+  if (results.length === 0) return;
+
+  const { error } = await supabaseAdmin.from('relevance_score_cache').upsert(
+    results.map(({ discussionId, scores }) => ({
+      reddit_post_id: discussionId,
+      config_hash: key.configHash,
+      prompt_version: key.promptVersion,
+      scores,
+      scored_at: new Date().toISOString(),
+    })),
+    { onConflict: 'reddit_post_id,config_hash,prompt_version' }
+  );
+
+  if (error) {
+    console.error(
+      `[SCORE_CACHE] Failed to store ${results.length} scores:`,
+      error
+    );
+  }
+}
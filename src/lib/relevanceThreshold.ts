@@ -0,0 +1,90 @@
+import type { ScoredDiscussion } from './relevanceFeedback';
+
+/**
+ * Relevance scores and thresholds share one scale: whole numbers from 0 to
+ * 100. The scoring model's finalScore, website_configs.relevance_threshold
+ * and the scores stored on queued, scored and backfilled discussions all
+ * use it, and a discussion is relevant when finalScore >= threshold.
+ */
+export const RELEVANCE_SCORE_MAX = 100;
+export const DEFAULT_RELEVANCE_THRESHOLD = 70;
+
+// Thresholds the calibration view and the offline eval report on
+export const CANDIDATE_THRESHOLDS = Array.from({ length: 21 }, (_, i) => i * 5);
+
+const DISTRIBUTION_BUCKET_SIZE = 10;
+
+export interface ThresholdCalibration {
+  currentThreshold: number;
+  scored: number;
+  // Scores in [min, max); the last bucket includes 100
+  distribution: { min: number; max: number; count: number }[];
+  candidates: {
+    threshold: number;
+    // Discussions this threshold would have let through
+    allowed: number;
+    allowedShare: number;
+    // Allowed discussions the owner labeled, and how many as relevant
+    labeled: number;
+    labeledRelevant: number;
+  }[];
+}
+
+/**
+ * A threshold on the 0-100 scale. Missing values get the default and
+ * anything else is rounded and clamped; thresholds saved on the old 0-1
+ * scale are converted once by the relevance_threshold_scale migration.
+ */
+export function normalizeRelevanceThreshold(value: unknown): number {
+  const threshold = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof threshold !== 'number' || !Number.isFinite(threshold)) {
+    return DEFAULT_RELEVANCE_THRESHOLD;
+  }
+
+  return Math.min(RELEVANCE_SCORE_MAX, Math.max(0, Math.round(threshold)));
+}
+
+/**
+ * How a config's recent scores are spread and how many discussions each
+ * candidate threshold would have allowed
+ */
+export function computeThresholdCalibration(
+  rows: Pick<ScoredDiscussion, 'final_score' | 'feedback_label'>[],
+  currentThreshold: number,
+  thresholds: number[] = CANDIDATE_THRESHOLDS
+): ThresholdCalibration {
+  const distribution = Array.from(
+    { length: RELEVANCE_SCORE_MAX / DISTRIBUTION_BUCKET_SIZE },
+    (_, i) => ({
+      min: i * DISTRIBUTION_BUCKET_SIZE,
+      max: (i + 1) * DISTRIBUTION_BUCKET_SIZE,
+      count: 0,
+    })
+  );
+  for (const row of rows) {
+    const index = Math.min(
+      distribution.length - 1,
+      Math.floor(Math.max(0, row.final_score) / DISTRIBUTION_BUCKET_SIZE)
+    );
+    distribution[index].count += 1;
+  }
+
+  return {
+    currentThreshold,
+    scored: rows.length,
+    distribution,
+    candidates: thresholds.map((threshold) => {
+      const allowed = rows.filter((row) => row.final_score >= threshold);
+      const labeled = allowed.filter((row) => row.feedback_label);
+      return {
+        threshold,
+        allowed: allowed.length,
+        allowedShare: rows.length ? allowed.length / rows.length : 0,
+        labeled: labeled.length,
+        labeledRelevant: labeled.filter(
+          (row) => row.feedback_label === 'relevant'
+        ).length,
+      };
+    }),
+  };
+}
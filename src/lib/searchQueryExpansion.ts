@@ -0,0 +1,94 @@
+import { generateLlmText } from './llmClient';
+import { MAX_SEARCH_QUERIES } from './searchQueryRotation';
+
+export interface SearchQueryExpansionInput {
+  websiteDescription: string;
+  customerSegments?: string[];
+  businessContextTerms?: string[];
+  targetKeywords?: string[];
+  // Queries the user locked; kept verbatim and not generated again
+  lockedQueries?: string[];
+  userId?: string;
+}
+
+const MAX_QUERY_LENGTH = 80;
+
+function buildExpansionPrompt(
+  input: SearchQueryExpansionInput,
+  count: number
+): string {
+  const list = (values?: string[]) =>
+    values && values.length > 0 ? values.join(', ') : 'none';
+
+  return `You write Reddit search queries that find posts from people who have the problem a product solves.
+
+PRODUCT DESCRIPTION:
+${input.websiteDescription}
+
+CUSTOMER SEGMENTS: ${list(input.customerSegments)}
+BUSINESS TERMS: ${list(input.businessContextTerms)}
+TARGET KEYWORDS: ${list(input.targetKeywords)}
+ALREADY CHOSEN (do not repeat or paraphrase): ${list(input.lockedQueries)}
+
+INSTRUCTIONS:
+- Write ${count} search queries of 2-5 words each
+- Phrase most of them the way a frustrated user would describe their problem, e.g. "invoices always paid late" rather than "invoicing software"
+- Include synonyms and adjacent wording people use instead of the product's category name
+- No product or brand names, no hashtags, no search operators
+- Every query must stand on its own; no filler words like "with" or "that" alone
+
+Return only a JSON array of strings, no additional text:`;
+}
+
+function parseQueries(text: string): string[] {
+  const match = text.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+
+  try {
+    const parsed = JSON.parse(match[0]);
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is string => typeof item === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Generate pain-point phrasings and synonyms to search Reddit with, filling
+ * the query set up to its limit around the user's locked queries.
+ */
+export async function expandSearchQueries(
+  input: SearchQueryExpansionInput
+): Promise<string[]> {
+  const locked = (input.lockedQueries || []).map((query) => query.trim());
+  const count = MAX_SEARCH_QUERIES - locked.length;
+  if (count <= 0) return [];
+
+  const response = await generateLlmText(
+    'queries',
+    buildExpansionPrompt(input, count),
+    { userId: input.userId, temperature: 0.8, maxTokens: 400 }
+  );
+  if (response.error) {
+    throw new Error(response.error);
+  }
+
+  const seen = new Set(locked.map((query) => query.toLowerCase()));
+  const queries = parseQueries(response.text)
+    .map((query) => query.replace(/["()]/g, '').replace(/\s+/g, ' ').trim())
+    .filter((query) => {
+      const key = query.toLowerCase();
+      if (!query || query.length > MAX_QUERY_LENGTH || seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+
+  if (queries.length === 0) {
+    throw new Error('The model did not return any usable queries');
+  }
+
+  return queries.slice(0, count);
+}
@@ -0,0 +1,207 @@
+import { generateRedditSearchQueries } from './benoService';
+import {
+  WebsiteConfigSearchQuery,
+  getWebsiteConfigSearchQueries,
+} from './websiteConfigCollections';
+
+export interface SearchQueryStats {
+  website_config_id: string;
+  query: string;
+  runs: number;
+  fetched_count: number;
+  relevant_count: number;
+  posted_count: number;
+  consecutive_empty_runs: number;
+  last_used_at: string | null;
+  last_relevant_at: string | null;
+}
+
+export interface SearchQueryYield {
+  fetched: number;
+  relevant: number;
+  posted: boolean;
+}
+
+interface QuerySource {
+  target_keywords?: string[];
+  customer_segments?: string[];
+  website_description?: string;
+  description?: string;
+  business_context_terms?: string[];
+  search_queries?: WebsiteConfigSearchQuery[];
+}
+
+export const MAX_SEARCH_QUERIES = 10;
+// A query may come up empty this many times in a row before it backs off
+const EMPTY_RUNS_BEFORE_BACKOFF = 3;
+const BACKOFF_BASE_MS = 6 * 60 * 60 * 1000;
+const BACKOFF_MAX_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Turn a target keyword expression into Reddit search syntax. Plain phrases
+ * are quoted; expressions keep their operators, with `-term` spelled as NOT,
+ * `body:` as `selftext:` and wildcards dropped since search has none.
+ */
+export function toRedditSearchTerm(keyword: string): string {
+  const cleaned = keyword
+    .replace(/\*/g, '')
+    .replace(/\bbody:/gi, 'selftext:')
+    .trim();
+  if (/\b(AND|OR|NOT)\b|["()]|title:|selftext:|(^|\s)-\S/.test(cleaned)) {
+    return cleaned.replace(/(^|\s)-(?=\S)/g, '$1NOT ');
+  }
+  return /\s/.test(cleaned) ? `"${cleaned}"` : cleaned;
+}
+
+/**
+ * The queries the auto-poster rotates through for a config. A curated set
+ * saved on the config is used as-is; otherwise each target keyword on its
+ * own, then combinations of customer segments and description terms.
+ */
+export function buildSearchQuerySet(config: QuerySource): string[] {
+  const curated = getWebsiteConfigSearchQueries(config);
+  if (curated.length > 0) {
+    return curated.map((entry) => entry.query).slice(0, MAX_SEARCH_QUERIES);
+  }
+
+  const queries = (config.target_keywords || [])
+    .map(toRedditSearchTerm)
+    .filter(Boolean);
+
+  const segments = (config.customer_segments || []).filter((segment) =>
+    segment.trim()
+  );
+  // Without segments the generator falls back to generic business queries
+  if (segments.length > 0) {
+    queries.push(
+      ...generateRedditSearchQueries(
+        config.website_description || config.description || '',
+        segments
+      )
+    );
+  }
+
+  const seen = new Set<string>();
+  return queries
+    .filter((query) => {
+      const key = query.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_SEARCH_QUERIES);
+}
+
+/**
+ * When a query is next due. Productive queries are due as soon as the rest of
+ * the rotation has had a turn; a query that keeps finding nothing waits an
+ * exponentially growing time before it is tried again.
+ */
+export function getSearchQueryDueAt(stats?: SearchQueryStats): number {
+  if (!stats?.last_used_at) return 0;
+
+  const lastUsed = new Date(stats.last_used_at).getTime();
+  const extraEmptyRuns =
+    stats.consecutive_empty_runs - EMPTY_RUNS_BEFORE_BACKOFF;
+  if (extraEmptyRuns < 0) return lastUsed;
+
+  return (
+    lastUsed +
+    Math.min(BACKOFF_BASE_MS * Math.pow(2, extraEmptyRuns), BACKOFF_MAX_MS)
+  );
+}
+
+/**
+ * Order a query set by when each query is due, keeping the set's own order
+ * for queries that have never run
+ */
+export function orderSearchQueries(
+  queries: string[],
+  stats: SearchQueryStats[]
+): string[] {
+  const byQuery = new Map(stats.map((row) => [row.query, row]));
+  return queries
+    .map((query, index) => ({
+      query,
+      index,
+      dueAt: getSearchQueryDueAt(byQuery.get(query)),
+    }))
+    .sort((a, b) => a.dueAt - b.dueAt || a.index - b.index)
+    .map(({ query }) => query);
+}
+
+export async function loadSearchQueryStats(
+  supabaseAdmin: any,
+  websiteConfigId: string
+): Promise<SearchQueryStats[]> {
+  const { data, error } = await supabaseAdmin
+    .from('search_query_stats')
+    .select('*')
+    .eq('website_config_id', websiteConfigId);
+
+  if (error) {
+    console.error('[QUERY_ROTATION] Failed to load query stats:', error);
+    return [];
+  }
+  return data || [];
+}
+
+/**
+ * Next query to search with for a config, or null when the set is empty
+ */
+export async function pickNextSearchQuery(
+  supabaseAdmin: any,
+  websiteConfigId: string,
+  queries: string[]
+): Promise<string | null> {
+  if (queries.length === 0) return null;
+
+  const stats = await loadSearchQueryStats(supabaseAdmin, websiteConfigId);
+  return orderSearchQueries(queries, stats)[0];
+}
+
+/**
+ * Add one run's results to a query's totals
+ */
+export async function recordSearchQueryYield(
+  supabaseAdmin: any,
+  websiteConfigId: string,
+  query: string,
+  result: SearchQueryYield
+): Promise<void> {
+  const { data: existing } = await supabaseAdmin
+    .from('search_query_stats')
+    .select('*')
+    .eq('website_config_id', websiteConfigId)
+    .eq('query', query)
+    .maybeSingle();
+
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin.from('search_query_stats').upsert(
+    {
+      website_config_id: websiteConfigId,
+      query,
+      runs: (existing?.runs || 0) + 1,
+      fetched_count: (existing?.fetched_count || 0) + result.fetched,
+      relevant_count: (existing?.relevant_count || 0) + result.relevant,
+      posted_count: (existing?.posted_count || 0) + (result.posted ? 1 : 0),
+      consecutive_empty_runs:
+        result.relevant > 0 ? 0 : (existing?.consecutive_empty_runs || 0) + 1,
+      last_used_at: now,
+      last_relevant_at:
+        result.relevant > 0 ? now : existing?.last_relevant_at || null,
+    },
+    { onConflict: 'website_config_id,query' }
+  );
+
+  if (error) {
+    console.error(
+      `[QUERY_ROTATION] Failed to record yield for "${query}":`,
+      error
+    );
+  } else {
+    console.log(
+      `[QUERY_ROTATION] "${query}": fetched=${result.fetched}, relevant=${result.relevant}, posted=${result.posted}`
+    );
+  }
+}
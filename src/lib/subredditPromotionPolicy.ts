@@ -0,0 +1,143 @@
+import type { RedditSubredditRule } from './redditService';
+
+export type SubredditPromotionPolicy =
+  | 'forbidden'
+  | 'megathread_only'
+  | 'disclosure_required'
+  | 'allowed'
+  | 'unknown';
+
+export const PROMOTION_POLICY_LABELS: Record<SubredditPromotionPolicy, string> =
+  {
+    forbidden: 'No self-promotion',
+    megathread_only: 'Promotion in megathread only',
+    disclosure_required: 'Allowed with disclosure',
+    allowed: 'No promotion rule found',
+    unknown: 'Rules not checked',
+  };
+
+// Phrases about promoting your own things. Generic words such as "spam" or
+// "marketing" are left out: "No spam" says nothing about product mentions.
+const PROMOTION_TERM =
+  '(?:self[- ]?promo(?:tion|tions|ting|te|tional)?|promot(?:e|es|ed|ing|ion|ions|ional)|advertis(?:e|es|ed|ing|ement|ements)|shill(?:s|ing)?|affiliate links?|referral (?:links?|codes?)|plug(?:ging)? (?:your|their))';
+const PROMOTION_PATTERN = new RegExp(PROMOTION_TERM, 'i');
+const MEGATHREAD_PATTERN =
+  /megathread|(weekly|monthly|daily|pinned|designated|stickied|sticky) (thread|post)|self[- ]?promo(tion)? (monday|tuesday|wednesday|thursday|friday|saturday|sunday|thread|day)/i;
+const DISCLOSURE_PATTERN =
+  /disclos|must (state|mention|say)|transparen|affiliation|9:1|10%|90\/10|one in ten/i;
+
+// A few words, none of them crossing punctuation, between a negation and
+// what it negates
+const WORD_GAP = '(?:\\s+[^\\s,.;:!?]+){0,3}?\\s+';
+// "No self-promotion", "Do not promote your product", "No memes or advertising"
+const NEGATED_BEFORE_PATTERN = new RegExp(
+  `\\b(?:no|never|don'?t|do not|may not|must not|cannot|can'?t|not allowed to)${WORD_GAP}${PROMOTION_TERM}`,
+  'i'
+);
+// "Self-promotion is not allowed", "Advertising will be removed"
+const NEGATED_AFTER_PATTERN = new RegExp(
+  `${PROMOTION_TERM}[^,.;:!?]{0,40}?\\b(?:not allowed|isn'?t allowed|aren'?t allowed|not permitted|prohibited|forbidden|banned|will be removed|will result in a ban)`,
+  'i'
+);
+// "No excessive self-promotion" limits promotion rather than banning it
+const LIMITED_PATTERN = /\b(excessive|too much|only|outside|unless|without)\b/i;
+
+// Most restrictive wins when several rules mention promotion
+const POLICY_SEVERITY: SubredditPromotionPolicy[] = [
+  'forbidden',
+  'megathread_only',
+  'disclosure_required',
+];
+
+/**
+ * Whether a clause bans promotion outright: the negation has to apply to the
+ * promotion phrase itself, not to something else in the same rule.
+ */
+function forbidsPromotion(text: string): boolean {
+  return text
+    .split(/[.;!?\n]+/)
+    .some(
+      (clause) =>
+        !LIMITED_PATTERN.test(clause) &&
+        (NEGATED_BEFORE_PATTERN.test(clause) ||
+          NEGATED_AFTER_PATTERN.test(clause))
+    );
+}
+
+function classifyText(text: string): SubredditPromotionPolicy | null {
+  if (!PROMOTION_PATTERN.test(text)) return null;
+  // "No self-promotion outside the weekly thread" is a megathread rule
+  if (MEGATHREAD_PATTERN.test(text)) return 'megathread_only';
+  if (DISCLOSURE_PATTERN.test(text)) return 'disclosure_required';
+  if (forbidsPromotion(text)) return 'forbidden';
+  return null;
+}
+
+/**
+ * Classify a subreddit's stance on product mentions from its rules and
+ * sidebar. Returns the matching rule text as evidence for the wizard.
+ */
+export function classifyPromotionPolicy(
+  rules: RedditSubredditRule[],
+  sidebar: string = ''
+): { policy: SubredditPromotionPolicy; evidence: string | null } {
+  const texts = [
+    ...rules
+      .filter((rule) => rule.kind !== 'link')
+      .map((rule) => `${rule.shortName}. ${rule.description}`.trim()),
+    ...sidebar
+      .split(/\n+/)
+      .map((line) => line.trim())
+      .filter(Boolean),
+  ];
+
+  let best: { policy: SubredditPromotionPolicy; evidence: string } | null =
+    null;
+  for (const text of texts) {
+    const policy = classifyText(text);
+    if (!policy) continue;
+    if (
+      !best ||
+      POLICY_SEVERITY.indexOf(policy) < POLICY_SEVERITY.indexOf(best.policy)
+    ) {
+      best = { policy, evidence: text.slice(0, 300) };
+    }
+  }
+
+  return best || { policy: 'allowed', evidence: null };
+}
+
+// After Reddit refuses a comment with SUBREDDIT_NOTALLOWED the subreddit is
+// left alone this long, whatever its rules say
+export const NOT_ALLOWED_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * When the cooldown from the last SUBREDDIT_NOTALLOWED refusal ends, or null
+ * when the subreddit was never refused or the cooldown is over
+ */
+export function getNotAllowedUntil(
+  notAllowedAt: string | null | undefined,
+  now: number = Date.now()
+): string | null {
+  const refusedAt = notAllowedAt ? Date.parse(notAllowedAt) : NaN;
+  if (Number.isNaN(refusedAt)) return null;
+
+  const until = refusedAt + NOT_ALLOWED_COOLDOWN_MS;
+  return until > now ? new Date(until).toISOString() : null;
+}
+
+/**
+ * Whether the auto-poster should stay out of a subreddit entirely: its rules
+ * ban promotion, or Reddit refused a comment there recently
+ */
+export function isPromotionBlocked(
+  policy: SubredditPromotionPolicy | null | undefined,
+  notAllowedAt?: string | null,
+  now: number = Date.now()
+): boolean {
+  return (
+    policy === 'forbidden' ||
+    policy === 'megathread_only' ||
+    getNotAllowedUntil(notAllowedAt, now) !== null
+  );
+}
@@ -0,0 +1,275 @@
+import {
+  RedditDiscussion,
+  RedditSubredditInfo,
+  getRedditDiscussions,
+  searchRedditSubreddits,
+} from './redditService';
+import { applyKeywordPrefilter } from './keywordQuery';
+
+export interface SubredditRecommendationInput {
+  description?: string;
+  customerSegments?: string[];
+  targetKeywords?: string[];
+  // Subreddits already on the config; never suggested again
+  excludeSubreddits?: string[];
+}
+
+export interface SubredditRecommendationOptions {
+  limit: number;
+  // How many search hits get their recent posts sampled
+  maxCandidates: number;
+  samplePostCount: number;
+  minSubscribers: number;
+}
+
+export const DEFAULT_SUBREDDIT_RECOMMENDATION_OPTIONS: SubredditRecommendationOptions =
+  {
+    limit: 8,
+    maxCandidates: 12,
+    samplePostCount: 25,
+    minSubscribers: 1000,
+  };
+
+export interface SubredditRecommendation {
+  subreddit: string;
+  title: string;
+  description: string;
+  subscribers: number;
+  activeUsers: number | null;
+  postsPerDay: number | null;
+  keywordMatchRate: number;
+  matchedKeywords: string[];
+  score: number;
+  reasons: string[];
+}
+
+interface Candidate {
+  info: RedditSubredditInfo;
+  seedTerms: string[];
+}
+
+const MAX_SEED_TERMS = 6;
+
+function formatCount(value: number): string {
+  if (value >= 1000000) return `${(value / 1000000).toFixed(1)}M`;
+  if (value >= 1000) return `${Math.round(value / 1000)}k`;
+  return value.toString();
+}
+
+function clamp(value: number): number {
+  return Math.max(0, Math.min(1, value));
+}
+
+/**
+ * Terms used to search for subreddits: target keywords first, then customer
+ * segments. Keyword expressions are reduced to their plain words.
+ */
+function getSeedTerms(input: SubredditRecommendationInput): string[] {
+  const terms = [
+    ...(input.targetKeywords || []),
+    ...(input.customerSegments || []),
+  ]
+    .map((term) =>
+      term
+        .replace(/\b(AND|OR|NOT)\b|title:|body:|[()"*]/g, ' ')
+        .replace(/(^|\s)-/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+    )
+    .filter(Boolean);
+
+  return terms
+    .filter(
+      (term, index) =>
+        terms.findIndex(
+          (other) => other.toLowerCase() === term.toLowerCase()
+        ) === index
+    )
+    .slice(0, MAX_SEED_TERMS);
+}
+
+function estimatePostsPerDay(posts: RedditDiscussion[]): number | null {
+  const timestamps = posts
+    .map((post) => post.created_utc)
+    .filter((value) => value > 0)
+    .sort((a, b) => a - b);
+  if (timestamps.length < 2) return null;
+
+  const spanDays =
+    (timestamps[timestamps.length - 1] - timestamps[0]) / (60 * 60 * 24);
+  return spanDays > 0 ? timestamps.length / spanDays : null;
+}
+
+async function scoreCandidate(
+  candidate: Candidate,
+  input: SubredditRecommendationInput,
+  options: SubredditRecommendationOptions
+): Promise<SubredditRecommendation> {
+  const { info, seedTerms } = candidate;
+  const keywords = (input.targetKeywords || []).filter((k) => k.trim());
+  const reasons: string[] = [];
+
+  let posts: RedditDiscussion[] = [];
+  try {
+    const response = await getRedditDiscussions(
+      '',
+      info.name,
+      options.samplePostCount,
+      'new'
+    );
+    posts = response.items;
+  } catch (error) {
+    console.warn(
+      `[SUBREDDIT_RECOMMENDATIONS] Could not sample r/${info.name}:`,
+      error
+    );
+  }
+
+  // Which keywords match recent posts, and how many posts match any of them
+  const matchedKeywords = keywords.filter(
+    (keyword) =>
+      applyKeywordPrefilter(posts, { targetKeywords: [keyword] }).passed
+        .length > 0
+  );
+  const matchingPosts =
+    keywords.length > 0
+      ? applyKeywordPrefilter(posts, { targetKeywords: keywords }).passed.length
+      : 0;
+  const keywordMatchRate = posts.length > 0 ? matchingPosts / posts.length : 0;
+
+  if (matchingPosts > 0) {
+    reasons.push(
+      `${matchingPosts} of ${posts.length} recent posts mention ${matchedKeywords
+        .slice(0, 3)
+        .map((keyword) => `"${keyword}"`)
+        .join(', ')}`
+    );
+  }
+
+  const about = `${info.title} ${info.description}`.toLowerCase();
+  const descriptionTerms = seedTerms.filter((term) =>
+    about.includes(term.toLowerCase())
+  );
+  if (descriptionTerms.length > 0) {
+    reasons.push(`Description mentions "${descriptionTerms[0]}"`);
+  } else if (seedTerms.length > 0) {
+    reasons.push(`Found searching for "${seedTerms[0]}"`);
+  }
+
+  const postsPerDay = estimatePostsPerDay(posts);
+  reasons.push(
+    `${formatCount(info.subscribers)} subscribers` +
+      (info.activeUsers ? `, ${formatCount(info.activeUsers)} online` : '')
+  );
+  if (postsPerDay !== null) {
+    reasons.push(
+      postsPerDay >= 1
+        ? `About ${Math.round(postsPerDay)} new posts per day`
+        : 'Fewer than one new post per day'
+    );
+  }
+
+  // Size saturates around 1M subscribers; activity around 50 posts per day
+  const sizeScore = clamp((Math.log10(info.subscribers + 1) - 3) / 3);
+  const activityScore =
+    postsPerDay !== null
+      ? clamp(Math.log10(postsPerDay + 1) / Math.log10(51))
+      : 0;
+  const topicScore = clamp(
+    descriptionTerms.length / Math.max(1, Math.min(seedTerms.length, 3))
+  );
+  const score =
+    0.45 * clamp(keywordMatchRate * 2) +
+    0.2 * topicScore +
+    0.2 * activityScore +
+    0.15 * sizeScore;
+
+  return {
+    subreddit: info.name,
+    title: info.title,
+    description: info.description,
+    subscribers: info.subscribers,
+    activeUsers: info.activeUsers,
+    postsPerDay,
+    keywordMatchRate,
+    matchedKeywords,
+    score: Math.round(score * 100),
+    reasons,
+  };
+}
+
+/**
+ * Propose subreddits for a website config. Candidates come from Reddit's
+ * subreddit search on the config's keywords and segments, and are ranked by
+ * how often their recent posts match the config's keywords, how on-topic
+ * their description is, how active they are and how big they are.
+ */
+export async function recommendSubreddits(
+  input: SubredditRecommendationInput,
+  options: Partial<SubredditRecommendationOptions> = {}
+): Promise<SubredditRecommendation[]> {
+  const resolved = { ...DEFAULT_SUBREDDIT_RECOMMENDATION_OPTIONS, ...options };
+  const seedTerms = getSeedTerms(input);
+  if (seedTerms.length === 0 && input.description?.trim()) {
+    seedTerms.push(input.description.trim().split(/\s+/).slice(0, 4).join(' '));
+  }
+  if (seedTerms.length === 0) return [];
+
+  const excluded = new Set(
+    (input.excludeSubreddits || []).map((name) =>
+      name.replace(/^r\//i, '').toLowerCase()
+    )
+  );
+  const candidates = new Map<string, Candidate>();
+
+  for (const term of seedTerms) {
+    try {
+      const results = await searchRedditSubreddits(term, 10);
+      for (const info of results) {
+        const key = info.name.toLowerCase();
+        if (
+          excluded.has(key) ||
+          info.over18 ||
+          info.subredditType !== 'public' ||
+          info.subscribers < resolved.minSubscribers
+        ) {
+          continue;
+        }
+
+        const existing = candidates.get(key);
+        if (existing) {
+          existing.seedTerms.push(term);
+        } else {
+          candidates.set(key, { info, seedTerms: [term] });
+        }
+      }
+    } catch (error) {
+      console.warn(
+        `[SUBREDDIT_RECOMMENDATIONS] Subreddit search failed for "${term}":`,
+        error
+      );
+    }
+  }
+
+  // Only sample the most promising hits: found by several terms, then biggest
+  const shortlist = Array.from(candidates.values())
+    .sort(
+      (a, b) =>
+        b.seedTerms.length - a.seedTerms.length ||
+        b.info.subscribers - a.info.subscribers
+    )
+    .slice(0, resolved.maxCandidates);
+
+  console.log(
+    `[SUBREDDIT_RECOMMENDATIONS] Scoring ${shortlist.length} of ${candidates.size} candidate subreddits`
+  );
+
+  const recommendations: SubredditRecommendation[] = [];
+  for (const candidate of shortlist) {
+    recommendations.push(await scoreCandidate(candidate, input, resolved));
+  }
+
+  return recommendations
+    .sort((a, b) => b.score - a.score)
+    .slice(0, resolved.limit);
+}
@@ -0,0 +1,143 @@
+import {
+  RedditSubredditRule,
+  fetchRedditSubredditRules,
+} from './redditService';
+import {
+  SubredditPromotionPolicy,
+  classifyPromotionPolicy,
+} from './subredditPromotionPolicy';
+
+export interface SubredditRulesRecord {
+  subreddit: string;
+  rules: RedditSubredditRule[];
+  sidebar: string | null;
+  promotion_policy: SubredditPromotionPolicy;
+  policy_evidence: string | null;
+  fetched_at: string;
+  not_allowed_at: string | null;
+}
+
+// Rules are re-fetched after a week
+export const SUBREDDIT_RULES_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+async function refreshSubredditRules(
+  supabaseAdmin: any,
+  subreddit: string,
+  previous?: SubredditRulesRecord
+): Promise<SubredditRulesRecord> {
+  let record: SubredditRulesRecord;
+
+  try {
+    const { rules, sidebar } = await fetchRedditSubredditRules(subreddit);
+    const { policy, evidence } = classifyPromotionPolicy(rules, sidebar);
+    record = {
+      subreddit,
+      rules,
+      sidebar: sidebar.slice(0, 10000),
+      promotion_policy: policy,
+      policy_evidence: evidence,
+      fetched_at: new Date().toISOString(),
+      not_allowed_at: previous?.not_allowed_at || null,
+    };
+  } catch (error) {
+    console.warn(
+      `[SUBREDDIT_RULES] Failed to fetch rules for r/${subreddit}:`,
+      error
+    );
+    // Keep a stale classification rather than forgetting it
+    if (previous) return previous;
+    return {
+      subreddit,
+      rules: [],
+      sidebar: null,
+      promotion_policy: 'unknown',
+      policy_evidence: null,
+      fetched_at: new Date().toISOString(),
+      not_allowed_at: null,
+    };
+  }
+
+  const { error } = await supabaseAdmin
+    .from('subreddit_rules')
+    .upsert(record, { onConflict: 'subreddit' });
+  if (error) {
+    console.error(
+      `[SUBREDDIT_RULES] Failed to store rules for r/${subreddit}:`,
+      error
+    );
+  }
+
+  console.log(
+    `[SUBREDDIT_RULES] r/${subreddit} classified as ${record.promotion_policy}`
+  );
+  return record;
+}
+
+/**
+ * Load rules for the given subreddits, fetching any that are missing or
+ * older than `maxAgeMs` from Reddit. Keys are lower-cased subreddit names.
+ */
+export async function getSubredditRules(
+  supabaseAdmin: any,
+  subreddits: string[],
+  maxAgeMs: number = SUBREDDIT_RULES_MAX_AGE_MS
+): Promise<Record<string, SubredditRulesRecord>> {
+  const names = Array.from(
+    new Set(subreddits.map((name) => name.toLowerCase()).filter(Boolean))
+  );
+  if (names.length === 0) return {};
+
+  const { data, error } = await supabaseAdmin
+    .from('subreddit_rules')
+    .select('*')
+    .in('subreddit', names);
+  if (error) {
+    console.error('[SUBREDDIT_RULES] Failed to load stored rules:', error);
+  }
+
+  const records: Record<string, SubredditRulesRecord> = {};
+  for (const row of (data || []) as SubredditRulesRecord[]) {
+    records[row.subreddit] = row;
+  }
+
+  for (const name of names) {
+    const stored = records[name];
+    const isStale =
+      !stored ||
+      stored.promotion_policy === 'unknown' ||
+      Date.now() - new Date(stored.fetched_at).getTime() > maxAgeMs;
+    if (isStale) {
+      records[name] = await refreshSubredditRules(supabaseAdmin, name, stored);
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Remember that Reddit refused a comment in this subreddit, which keeps the
+ * auto-poster out of it for NOT_ALLOWED_COOLDOWN_MS. The stance is
+ * re-fetched on the next lookup in case the rules changed.
+ */
+export async function recordSubredditNotAllowed(
+  supabaseAdmin: any,
+  subreddit: string
+): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin.from('subreddit_rules').upsert(
+    {
+      subreddit: subreddit.toLowerCase(),
+      not_allowed_at: now,
+      // Mark stale so the next lookup re-reads the rules
+      fetched_at: new Date(0).toISOString(),
+    },
+    { onConflict: 'subreddit' }
+  );
+
+  if (error) {
+    console.error(
+      `[SUBREDDIT_RULES] Failed to record SUBREDDIT_NOTALLOWED for r/${subreddit}:`,
+      error
+    );
+  }
+}
@@ -1,4 +1,154 @@
+import {
+  DEFAULT_LISTING_MODE,
+  RedditListingMode,
+  normalizeListingMode,
+} from './redditListingModes';
+import {
+  EligibilitySettings,
+  resolveEligibilitySettings,
+} from './discussionEligibility';
+import {
+  AuthorFilterSettings,
+  normalizeAuthorName,
+  resolveAuthorFilterSettings,
+} from './authorFilters';
+import {
+  DEFAULT_ALLOWED_LANGUAGES,
+  LanguageCode,
+  isLanguageCode,
+} from './languageDetection';
+
 export const SUBREDDIT_PREFIX = 'subreddit:';
+export const LISTING_MODE_PREFIX = 'listing:';
+export const DISCOVERY_PREFIX = 'discovery:';
+export const COMMENT_DISCOVERY_TERM = `${DISCOVERY_PREFIX}comments`;
+export const ELIGIBILITY_PREFIX = 'eligibility:';
+export const SEARCH_QUERY_PREFIX = 'query:';
+// Locked queries survive regeneration of the query set
+export const LOCKED_SEARCH_QUERY_PREFIX = 'query-locked:';
+export const LANGUAGE_PREFIX = 'language:';
+export const AUTHOR_FILTER_PREFIX = 'author:';
+export const KEYWORD_FILTER_PREFIX = 'keywords:';
+// Opt-in: posts that match no target keyword are dropped before scoring
+export const REQUIRE_TARGET_KEYWORD_TERM = `${KEYWORD_FILTER_PREFIX}required`;
+
+const COLLECTION_PREFIXES = [
+  SUBREDDIT_PREFIX,
+  LISTING_MODE_PREFIX,
+  DISCOVERY_PREFIX,
+  ELIGIBILITY_PREFIX,
+  SEARCH_QUERY_PREFIX,
+  LOCKED_SEARCH_QUERY_PREFIX,
+  LANGUAGE_PREFIX,
+  AUTHOR_FILTER_PREFIX,
+  KEYWORD_FILTER_PREFIX,
+];
+
+export interface WebsiteConfigSearchQuery {
+  query: string;
+  locked: boolean;
+}
+
+const ELIGIBILITY_BOOLEAN_KEYS: (keyof EligibilitySettings)[] = [
+  'skipLocked',
+  'skipArchived',
+  'skipRemoved',
+  'skipNsfw',
+  'skipStickied',
+];
+
+function decodeEligibilityTerm(
+  term: string,
+  settings: Partial<EligibilitySettings>
+) {
+  const [key, value] = term.slice(ELIGIBILITY_PREFIX.length).split('=');
+
+  if (key === 'maxAgeHours') {
+    const hours = Number(value);
+    settings.maxAgeHours =
+      value === 'none'
+        ? null
+        : Number.isFinite(hours) && hours > 0
+          ? hours
+          : undefined;
+    return;
+  }
+
+  if (ELIGIBILITY_BOOLEAN_KEYS.includes(key as keyof EligibilitySettings)) {
+    (settings as Record<string, boolean>)[key] = value !== 'false';
+  }
+}
+
+function encodeEligibilitySettings(
+  settings: Partial<EligibilitySettings> = {}
+): string[] {
+  const terms: string[] = [];
+
+  if (settings.maxAgeHours !== undefined) {
+    terms.push(
+      `${ELIGIBILITY_PREFIX}maxAgeHours=${settings.maxAgeHours === null ? 'none' : settings.maxAgeHours}`
+    );
+  }
+
+  for (const key of ELIGIBILITY_BOOLEAN_KEYS) {
+    if (typeof settings[key] === 'boolean') {
+      terms.push(`${ELIGIBILITY_PREFIX}${key}=${settings[key]}`);
+    }
+  }
+
+  return terms;
+}
+
+function decodeAuthorFilterTerm(
+  term: string,
+  settings: Partial<AuthorFilterSettings>
+) {
+  const [key, value = ''] = term.slice(AUTHOR_FILTER_PREFIX.length).split('=');
+
+  if (key === 'block') {
+    const author = normalizeAuthorName(value);
+    if (author && !(settings.blockedAuthors || []).includes(author)) {
+      settings.blockedAuthors = [...(settings.blockedAuthors || []), author];
+    }
+    return;
+  }
+
+  if (key === 'cooldownDays') {
+    const days = Number(value);
+    if (Number.isFinite(days) && days >= 0) settings.cooldownDays = days;
+    return;
+  }
+
+  if (key === 'skipBots' || key === 'skipDeleted') {
+    settings[key] = value !== 'false';
+  }
+}
+
+function encodeAuthorFilterSettings(
+  settings: Partial<AuthorFilterSettings> = {}
+): string[] {
+  const terms = Array.from(
+    new Set((settings.blockedAuthors || []).map(normalizeAuthorName))
+  )
+    .filter(Boolean)
+    .map((author) => `${AUTHOR_FILTER_PREFIX}block=${author}`);
+
+  for (const key of ['skipBots', 'skipDeleted'] as const) {
+    if (typeof settings[key] === 'boolean') {
+      terms.push(`${AUTHOR_FILTER_PREFIX}${key}=${settings[key]}`);
+    }
+  }
+
+  if (typeof settings.cooldownDays === 'number') {
+    terms.push(`${AUTHOR_FILTER_PREFIX}cooldownDays=${settings.cooldownDays}`);
+  }
+
+  return terms;
+}
+
+function isEncodedCollectionTerm(term: string): boolean {
+  return COLLECTION_PREFIXES.some((prefix) => term.startsWith(prefix));
+}
 
 function normalizeSubredditName(value: string): string | null {
   const normalized = value
@@ -17,6 +167,13 @@ export function decodeWebsiteConfigCollections(
   businessContextTerms: string[] = []
 ) {
   const targetSubreddits: string[] = [];
+  const listingModes: RedditListingMode[] = [];
+  let commentDiscovery = false;
+  const eligibilitySettings: Partial<EligibilitySettings> = {};
+  const searchQueries: WebsiteConfigSearchQuery[] = [];
+  const allowedLanguages: LanguageCode[] = [];
+  const authorFilterSettings: Partial<AuthorFilterSettings> = {};
+  let requireTargetKeyword = false;
   const filteredBusinessContextTerms: string[] = [];
 
   for (const term of businessContextTerms) {
@@ -31,23 +188,94 @@ export function decodeWebsiteConfigCollections(
       continue;
     }
 
+    if (term.startsWith(LISTING_MODE_PREFIX)) {
+      const parsed = normalizeListingMode(
+        term.slice(LISTING_MODE_PREFIX.length)
+      );
+      if (parsed && !listingModes.includes(parsed)) {
+        listingModes.push(parsed);
+      }
+      continue;
+    }
+
+    if (term.startsWith(DISCOVERY_PREFIX)) {
+      commentDiscovery = commentDiscovery || term === COMMENT_DISCOVERY_TERM;
+      continue;
+    }
+
+    if (term.startsWith(ELIGIBILITY_PREFIX)) {
+      decodeEligibilityTerm(term, eligibilitySettings);
+      continue;
+    }
+
+    if (
+      term.startsWith(SEARCH_QUERY_PREFIX) ||
+      term.startsWith(LOCKED_SEARCH_QUERY_PREFIX)
+    ) {
+      const locked = term.startsWith(LOCKED_SEARCH_QUERY_PREFIX);
+      const query = term
+        .slice(
+          locked
+            ? LOCKED_SEARCH_QUERY_PREFIX.length
+            : SEARCH_QUERY_PREFIX.length
+        )
+        .trim();
+      if (query && !searchQueries.some((entry) => entry.query === query)) {
+        searchQueries.push({ query, locked });
+      }
+      continue;
+    }
+
+    if (term.startsWith(LANGUAGE_PREFIX)) {
+      const language = term.slice(LANGUAGE_PREFIX.length);
+      if (isLanguageCode(language) && !allowedLanguages.includes(language)) {
+        allowedLanguages.push(language);
+      }
+      continue;
+    }
+
+    if (term.startsWith(AUTHOR_FILTER_PREFIX)) {
+      decodeAuthorFilterTerm(term, authorFilterSettings);
+      continue;
+    }
+
+    if (term.startsWith(KEYWORD_FILTER_PREFIX)) {
+      requireTargetKeyword =
+        requireTargetKeyword || term === REQUIRE_TARGET_KEYWORD_TERM;
+      continue;
+    }
+
     filteredBusinessContextTerms.push(term);
   }
 
   return {
     businessContextTerms: filteredBusinessContextTerms,
     targetSubreddits,
+    listingModes,
+    commentDiscovery,
+    eligibilitySettings,
+    searchQueries,
+    allowedLanguages,
+    authorFilterSettings,
+    requireTargetKeyword,
   };
 }
 
 export function mergeWebsiteConfigCollections(
   businessContextTerms: string[] = [],
-  targetSubreddits: string[] = []
+  targetSubreddits: string[] = [],
+  listingModes: string[] = [],
+  commentDiscovery: boolean = false,
+  eligibilitySettings: Partial<EligibilitySettings> = {},
+  searchQueries: WebsiteConfigSearchQuery[] = [],
+  allowedLanguages: string[] = [],
+  authorFilterSettings: Partial<AuthorFilterSettings> = {},
+  requireTargetKeyword: boolean = false
 ) {
   const normalizedBusinessTerms = businessContextTerms
     .map((term) => term.trim())
     .filter(Boolean)
-    .filter((term) => !term.startsWith(SUBREDDIT_PREFIX));
+    .filter((term) => !isEncodedCollectionTerm(term));
 
   const normalizedSubreddits = targetSubreddits
     .map((subreddit) => normalizeSubredditName(subreddit))
@@ -57,7 +285,40 @@ export function mergeWebsiteConfigCollections(
     (subreddit) => `${SUBREDDIT_PREFIX}${subreddit}`
   );
 
-  return [...normalizedBusinessTerms, ...encodedSubreddits];
+  const encodedListingModes = Array.from(
+    new Set(
+      listingModes
+        .map((mode) => normalizeListingMode(mode))
+        .filter((mode): mode is RedditListingMode => Boolean(mode))
+    )
+  ).map((mode) => `${LISTING_MODE_PREFIX}${mode}`);
+
+  const seenQueries = new Set<string>();
+  const encodedSearchQueries = searchQueries
+    .map((entry) => ({ ...entry, query: entry.query.trim() }))
+    .filter((entry) => {
+      if (!entry.query || seenQueries.has(entry.query)) return false;
+      seenQueries.add(entry.query);
+      return true;
+    })
+    .map(
+      (entry) =>
+        `${entry.locked ? LOCKED_SEARCH_QUERY_PREFIX : SEARCH_QUERY_PREFIX}${entry.query}`
+    );
+
+  return [
+    ...normalizedBusinessTerms,
+    ...encodedSubreddits,
+    ...encodedListingModes,
+    ...(commentDiscovery ? [COMMENT_DISCOVERY_TERM] : []),
+    ...encodeEligibilitySettings(eligibilitySettings),
+    ...encodedSearchQueries,
+    ...Array.from(new Set(allowedLanguages.filter(isLanguageCode))).map(
+      (language) => `${LANGUAGE_PREFIX}${language}`
+    ),
+    ...encodeAuthorFilterSettings(authorFilterSettings),
+    ...(requireTargetKeyword ? [REQUIRE_TARGET_KEYWORD_TERM] : []),
+  ];
 }
 
 export function getWebsiteConfigSubreddits(
@@ -83,3 +344,147 @@ export function getWebsiteConfigSubreddits(
   );
   return decoded.targetSubreddits;
 }
+
+export function getWebsiteConfigListingModes(
+  websiteConfig:
+    | { business_context_terms?: string[]; listing_modes?: string[] }
+    | null
+    | undefined
+): RedditListingMode[] {
+  if (!websiteConfig) return [DEFAULT_LISTING_MODE];
+
+  if (
+    Array.isArray(websiteConfig.listing_modes) &&
+    websiteConfig.listing_modes.length > 0
+  ) {
+    const normalized = websiteConfig.listing_modes
+      .map((mode) => normalizeListingMode(mode))
+      .filter((mode): mode is RedditListingMode => Boolean(mode));
+    if (normalized.length > 0) return Array.from(new Set(normalized));
+  }
+
+  const decoded = decodeWebsiteConfigCollections(
+    websiteConfig.business_context_terms || []
+  );
+  return decoded.listingModes.length > 0
+    ? decoded.listingModes
+    : [DEFAULT_LISTING_MODE];
+}
+
+export function isCommentDiscoveryEnabled(
+  websiteConfig:
+    | { business_context_terms?: string[]; comment_discovery?: boolean }
+    | null
+    | undefined
+): boolean {
+  if (!websiteConfig) return false;
+
+  if (typeof websiteConfig.comment_discovery === 'boolean') {
+    return websiteConfig.comment_discovery;
+  }
+
+  return decodeWebsiteConfigCollections(
+    websiteConfig.business_context_terms || []
+  ).commentDiscovery;
+}
+
+/**
+ * Whether target keywords are a hard filter. Off by default: target keywords
+ * are otherwise only scoring hints for the model.
+ */
+export function isTargetKeywordRequired(
+  websiteConfig:
+    | { business_context_terms?: string[]; require_target_keyword?: boolean }
+    | null
+    | undefined
+): boolean {
+  if (!websiteConfig) return false;
+
+  if (typeof websiteConfig.require_target_keyword === 'boolean') {
+    return websiteConfig.require_target_keyword;
+  }
+
+  return decodeWebsiteConfigCollections(
+    websiteConfig.business_context_terms || []
+  ).requireTargetKeyword;
+}
+
+export function getWebsiteConfigEligibilitySettings(
+  websiteConfig:
+    | {
+        business_context_terms?: string[];
+        eligibility_settings?: Partial<EligibilitySettings>;
+      }
+    | null
+    | undefined
+): EligibilitySettings {
+  if (websiteConfig?.eligibility_settings) {
+    return resolveEligibilitySettings(websiteConfig.eligibility_settings);
+  }
+
+  return resolveEligibilitySettings(
+    decodeWebsiteConfigCollections(websiteConfig?.business_context_terms || [])
+      .eligibilitySettings
+  );
+}
+
+export function getWebsiteConfigSearchQueries(
+  websiteConfig:
+    | {
+        business_context_terms?: string[];
+        search_queries?: WebsiteConfigSearchQuery[];
+      }
+    | null
+    | undefined
+): WebsiteConfigSearchQuery[] {
+  if (!websiteConfig) return [];
+
+  if (Array.isArray(websiteConfig.search_queries)) {
+    return websiteConfig.search_queries.filter((entry) => entry?.query?.trim());
+  }
+
+  return decodeWebsiteConfigCollections(
+    websiteConfig.business_context_terms || []
+  ).searchQueries;
+}
+
+/**
+ * Languages the config replies in; English only when none are configured
+ */
+export function getWebsiteConfigAllowedLanguages(
+  websiteConfig:
+    | { business_context_terms?: string[]; allowed_languages?: string[] }
+    | null
+    | undefined
+): LanguageCode[] {
+  if (Array.isArray(websiteConfig?.allowed_languages)) {
+    const languages = websiteConfig.allowed_languages.filter(isLanguageCode);
+    if (languages.length > 0) return languages;
+  }
+
+  const decoded = decodeWebsiteConfigCollections(
+    websiteConfig?.business_context_terms || []
+  );
+  return decoded.allowedLanguages.length > 0
+    ? decoded.allowedLanguages
+    : DEFAULT_ALLOWED_LANGUAGES;
+}
+
+export function getWebsiteConfigAuthorFilterSettings(
+  websiteConfig:
+    | {
+        business_context_terms?: string[];
+        author_filter_settings?: Partial<AuthorFilterSettings>;
+      }
+    | null
+    | undefined
+): AuthorFilterSettings {
+  if (websiteConfig?.author_filter_settings) {
+    return resolveAuthorFilterSettings(websiteConfig.author_filter_settings);
+  }
+
+  return resolveAuthorFilterSettings(
+    decodeWebsiteConfigCollections(websiteConfig?.business_context_terms || [])
+      .authorFilterSettings
+  );
+}
@@ -0,0 +1,39 @@
+-- Track pagination separately for each Reddit listing mode (hot, new, rising, top:<window>)
+alter table reddit_pagination_state
+  add column if not exists listing_mode text not null default 'hot';
+
+-- Replace the baseline keys with one that includes the listing mode. NULLS
+-- NOT DISTINCT lets upserts without a config conflict on the same key, which
+-- a partial index cannot do through PostgREST. The baseline keys are found
+-- by their columns: generated names longer than 63 characters are
+-- truncated, so guessing them is unreliable.
+do $$
+declare
+  existing record;
+begin
+  for existing in
+    select con.conname
+    from pg_constraint con
+    where con.conrelid = 'reddit_pagination_state'::regclass
+      and con.contype = 'u'
+      and (
+        select array_agg(att.attname::text)
+        from pg_attribute att
+        where att.attrelid = con.conrelid
+          and att.attnum = any (con.conkey)
+      ) <@ array['user_id', 'subreddit', 'auto_poster_config_id']
+  loop
+    execute format(
+      'alter table reddit_pagination_state drop constraint %I',
+      existing.conname
+    );
+  end loop;
+end $$;
+
+alter table reddit_pagination_state
+  add constraint reddit_pagination_state_user_subreddit_config_mode_key
+  unique nulls not distinct (user_id, subreddit, auto_poster_config_id, listing_mode);
+
+-- Remember which listing surfaced each discussion we replied to
+alter table posted_reddit_discussions
+  add column if not exists listing_mode text;
@@ -0,0 +1,18 @@
+-- Why discussions were dropped before relevance scoring (eligibility gate, etc.)
+create table if not exists discussion_filter_rejections (
+  id uuid primary key default gen_random_uuid(),
+  website_config_id uuid not null references website_configs(id) on delete cascade,
+  user_id text,
+  reddit_post_id text not null,
+  subreddit text,
+  post_title text,
+  stage text not null,
+  reason text not null,
+  detail text,
+  created_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  unique (website_config_id, reddit_post_id, stage)
+);
+
+create index if not exists discussion_filter_rejections_config_seen_idx
+  on discussion_filter_rejections (website_config_id, last_seen_at desc);
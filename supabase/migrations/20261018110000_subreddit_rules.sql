@@ -0,0 +1,12 @@
+-- Cached subreddit rules and sidebar, with the classified self-promotion stance
+create table if not exists subreddit_rules (
+  subreddit text primary key,
+  rules jsonb not null default '[]'::jsonb,
+  sidebar text,
+  promotion_policy text not null default 'unknown'
+    check (promotion_policy in ('forbidden', 'megathread_only', 'disclosure_required', 'allowed', 'unknown')),
+  policy_evidence text,
+  fetched_at timestamptz not null default now(),
+  -- Last time Reddit answered a comment here with SUBREDDIT_NOTALLOWED
+  not_allowed_at timestamptz
+);
@@ -0,0 +1,47 @@
+-- One-off historical searches for a website config; cursor makes them resumable
+create table if not exists backfill_jobs (
+  id uuid primary key default gen_random_uuid(),
+  website_config_id uuid not null references website_configs(id) on delete cascade,
+  user_id text not null,
+  window_days integer not null check (window_days in (7, 30, 90)),
+  status text not null default 'pending'
+    check (status in ('pending', 'running', 'paused', 'completed', 'failed', 'cancelled')),
+  subreddits text[] not null default '{}',
+  -- { "subredditIndex": 0, "after": null, "page": 0 }
+  cursor jsonb not null default '{}'::jsonb,
+  searched_count integer not null default 0,
+  scored_count integer not null default 0,
+  candidates_found integer not null default 0,
+  stop_reason text,
+  error text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  completed_at timestamptz
+);
+
+create index if not exists backfill_jobs_config_created_idx
+  on backfill_jobs (website_config_id, created_at desc);
+
+-- Scored backfill results waiting for the user to approve or dismiss them
+create table if not exists backfill_candidates (
+  id uuid primary key default gen_random_uuid(),
+  job_id uuid not null references backfill_jobs(id) on delete cascade,
+  website_config_id uuid not null references website_configs(id) on delete cascade,
+  reddit_post_id text not null,
+  subreddit text not null,
+  post_title text,
+  post_url text,
+  post_content text,
+  post_created_utc bigint,
+  relevance_score integer,
+  scores jsonb,
+  status text not null default 'pending_review'
+    check (status in ('pending_review', 'approved', 'dismissed', 'posted')),
+  comment_url text,
+  created_at timestamptz not null default now(),
+  reviewed_at timestamptz,
+  unique (website_config_id, reddit_post_id)
+);
+
+create index if not exists backfill_candidates_job_status_idx
+  on backfill_candidates (job_id, status);
@@ -0,0 +1,14 @@
+-- Per-query yield for the auto-poster's search query rotation
+create table if not exists search_query_stats (
+  website_config_id uuid not null references website_configs(id) on delete cascade,
+  query text not null,
+  runs integer not null default 0,
+  fetched_count integer not null default 0,
+  relevant_count integer not null default 0,
+  posted_count integer not null default 0,
+  -- Runs in a row without a single relevant candidate; drives the backoff
+  consecutive_empty_runs integer not null default 0,
+  last_used_at timestamptz,
+  last_relevant_at timestamptz,
+  primary key (website_config_id, query)
+);
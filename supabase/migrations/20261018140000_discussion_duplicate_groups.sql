@@ -0,0 +1,18 @@
+-- Crosspost root and content simhash, so one reply is made per logical discussion
+alter table posted_reddit_discussions
+  add column if not exists duplicate_group_key text,
+  add column if not exists content_hash text;
+
+update posted_reddit_discussions
+  set duplicate_group_key = reddit_post_id
+  where duplicate_group_key is null;
+
+create index if not exists posted_reddit_discussions_group_idx
+  on posted_reddit_discussions (website_config_id, duplicate_group_key);
+
+alter table backfill_candidates
+  add column if not exists duplicate_group_key text,
+  add column if not exists content_hash text;
+
+create index if not exists backfill_candidates_group_idx
+  on backfill_candidates (website_config_id, duplicate_group_key);
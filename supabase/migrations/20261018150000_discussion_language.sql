@@ -0,0 +1,6 @@
+-- Detected post language, stored with the scores it was judged with
+alter table posted_reddit_discussions
+  add column if not exists language text;
+
+alter table backfill_candidates
+  add column if not exists language text;
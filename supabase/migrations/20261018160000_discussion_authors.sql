@@ -0,0 +1,10 @@
+-- Post authors, so replies to the same author can be spaced out across configs
+alter table posted_reddit_discussions
+  add column if not exists post_author text;
+
+create index if not exists posted_reddit_discussions_author_recent_idx
+  on posted_reddit_discussions (website_config_id, created_at desc)
+  where post_author is not null;
+
+alter table backfill_candidates
+  add column if not exists post_author text;
@@ -0,0 +1,17 @@
+-- LLM responses that failed their output schema, one row per failed
+-- attempt. Counting by model and schema shows prompt regressions.
+create table if not exists llm_output_validation_failures (
+  id uuid primary key default gen_random_uuid(),
+  task text not null,
+  schema_name text not null,
+  provider text not null,
+  model text not null,
+  -- 'initial' for the first response, 'repair' when the re-prompt failed too
+  stage text not null,
+  errors text[] not null default '{}',
+  response_excerpt text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists llm_output_validation_failures_model_idx
+  on llm_output_validation_failures (model, schema_name, created_at desc);
@@ -0,0 +1,14 @@
+-- Relevance scores reused across runs and configs. The config hash covers
+-- every config field in the scoring prompt and the prompt version includes
+-- the scoring model, so edits to either miss the cache.
+create table if not exists relevance_score_cache (
+  reddit_post_id text not null,
+  config_hash text not null,
+  prompt_version text not null,
+  scores jsonb not null,
+  scored_at timestamptz not null default now(),
+  primary key (reddit_post_id, config_hash, prompt_version)
+);
+
+create index if not exists relevance_score_cache_scored_at_idx
+  on relevance_score_cache (scored_at);
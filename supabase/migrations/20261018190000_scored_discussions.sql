@@ -0,0 +1,22 @@
+-- Latest score for every discussion a config scored, relevant or skipped,
+-- so the owner can label it. Labels are fed back into the scoring prompt
+-- as few-shot examples.
+create table if not exists scored_discussions (
+  id uuid primary key default gen_random_uuid(),
+  website_config_id uuid not null references website_configs(id) on delete cascade,
+  reddit_post_id text not null,
+  subreddit text,
+  post_title text,
+  post_url text,
+  post_content text,
+  final_score numeric not null,
+  reasoning text,
+  relevance_threshold numeric not null,
+  scored_at timestamptz not null default now(),
+  feedback_label text check (feedback_label in ('relevant', 'not_relevant')),
+  labeled_at timestamptz,
+  unique (website_config_id, reddit_post_id)
+);
+
+create index if not exists scored_discussions_config_scored_at_idx
+  on scored_discussions (website_config_id, scored_at desc);
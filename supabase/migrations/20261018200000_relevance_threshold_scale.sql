@@ -0,0 +1,41 @@
+-- Relevance scores and thresholds are whole numbers from 0 to 100 (see
+-- src/lib/relevanceThreshold.ts). Convert thresholds saved on the old 0-1
+-- scale, fill in missing ones and keep them in range from now on.
+update website_configs
+set relevance_threshold = round(relevance_threshold * 100)
+where relevance_threshold > 0 and relevance_threshold <= 1;
+
+update website_configs
+set relevance_threshold = 70
+where relevance_threshold is null;
+
+update website_configs
+set relevance_threshold = 100
+where relevance_threshold > 100;
+
+alter table website_configs
+  alter column relevance_threshold set default 70;
+
+alter table website_configs
+  drop constraint if exists website_configs_relevance_threshold_range;
+alter table website_configs
+  add constraint website_configs_relevance_threshold_range
+  check (relevance_threshold between 0 and 100);
+
+update scored_discussions
+set relevance_threshold = round(relevance_threshold * 100)
+where relevance_threshold > 0 and relevance_threshold <= 1;
+
+-- Queue priority assumed a 0-10 score, so every queued post was priority 1
+update queued_reddit_posts
+set priority = case
+  when relevance_score >= 80 then 1
+  when relevance_score >= 60 then 2
+  else 3
+end
+where post_status = 'queued';
+
+-- Product monitoring stored a 1-10 score; it now uses the 0-100 scale
+update discussions
+set relevance_score = relevance_score * 10
+where relevance_score <= 10;
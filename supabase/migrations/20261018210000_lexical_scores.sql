@@ -0,0 +1,7 @@
+-- BM25 score (0-100) of a discussion against its config's keywords,
+-- segments and description, computed before LLM scoring
+alter table scored_discussions
+  add column if not exists lexical_score numeric;
+
+alter table queued_reddit_posts
+  add column if not exists lexical_score numeric;
@@ -0,0 +1,15 @@
+-- The score a discussion had when the owner labeled it. final_score is
+-- overwritten on every re-score, and re-scores see the label as a few-shot
+-- example, so agreement is measured against the frozen score.
+alter table scored_discussions
+  add column if not exists labeled_score numeric,
+  add column if not exists labeled_threshold numeric,
+  add column if not exists labeled_scored_at timestamptz;
+
+-- The latest score is the best guess for rows labeled before this
+update scored_discussions
+set labeled_score = final_score,
+  labeled_threshold = relevance_threshold,
+  labeled_scored_at = scored_at
+where feedback_label is not null
+  and labeled_score is null;
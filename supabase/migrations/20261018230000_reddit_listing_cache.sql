@@ -0,0 +1,21 @@
+-- Raw Reddit listing pages shared by every instance, so the cron and proxy
+-- routes fetch each page once per TTL across the deployment. Rows past
+-- expires_at are misses and are pruned by the writers.
+create table if not exists reddit_listing_cache (
+  cache_key text primary key,
+  payload jsonb not null,
+  expires_at timestamptz not null,
+  stored_at timestamptz not null default now()
+);
+
+create index if not exists reddit_listing_cache_expires_at_idx
+  on reddit_listing_cache (expires_at);
+
+-- Short fetch locks: the instance holding a key's lock fetches the page while
+-- the others wait for it to land in reddit_listing_cache. A lock past
+-- locked_until belongs to an instance that died and can be taken over.
+create table if not exists reddit_listing_cache_locks (
+  cache_key text primary key,
+  locked_until timestamptz not null,
+  owner text not null
+);